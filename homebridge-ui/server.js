@@ -0,0 +1,2 @@
+// Homebridge UI looks for the custom UI server here, the code itself is compiled from src/homebridge-ui
+import '../dist/homebridge-ui/server.js';
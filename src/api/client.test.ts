@@ -0,0 +1,372 @@
+import type { EventEmitter } from 'node:events';
+import { inspect } from 'node:util';
+
+import { ProtectApi } from 'unifi-protect';
+import type { Mock } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { PluginMetrics } from '../metrics.js';
+import { cameraMotionUpdate, motionAsString, sensorOpened, userUpdate } from '../test/fixtures/packets.js';
+import { createMockLogger } from '../test/mocks.js';
+import { ProtectClient } from './client.js';
+import { ProtectApiError } from './errors.js';
+
+interface MockProtectApi extends EventEmitter {
+  login: Mock;
+  getBootstrap: Mock;
+  updateDevice: Mock;
+  reset: Mock;
+  retrieve: Mock;
+}
+
+vi.mock('unifi-protect', async () => {
+  const { EventEmitter } = await import('node:events');
+
+  class ProtectApi extends EventEmitter {
+    public static instance: ProtectApi;
+    public login = vi.fn().mockResolvedValue(true);
+    public getBootstrap = vi.fn().mockResolvedValue(true);
+    public updateDevice = vi.fn().mockResolvedValue({});
+    public reset = vi.fn();
+    public retrieve = vi.fn().mockResolvedValue({ statusCode: 200 });
+    public getApiEndpoint = vi.fn((endpoint: string) => `https://10.0.0.1/proxy/protect/api/${endpoint}s`);
+    public responseOk = vi.fn((statusCode?: number) => statusCode !== undefined && statusCode < 300);
+    public bootstrap = { cameras: [], lastUpdateId: '1' };
+
+    constructor() {
+      super();
+      ProtectApi.instance = this;
+    }
+  }
+
+  return { ProtectApi };
+});
+
+describe('ProtectClient', () => {
+  let log: ReturnType<typeof createMockLogger>;
+  let client: ProtectClient;
+  let api: MockProtectApi;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    log = createMockLogger();
+    client = new ProtectClient(log);
+    api = (ProtectApi as unknown as { instance: MockProtectApi }).instance;
+  });
+
+  afterEach(() => {
+    client.disconnect();
+    vi.useRealTimers();
+  });
+
+  it('should connect and report the connected state', async () => {
+    const states: string[] = [];
+    client.onStateChange((state) => states.push(state));
+
+    await expect(client.connect('10.0.0.1', { username: 'user', password: 'pass' })).resolves.toBe(true);
+
+    expect(client.isConnected).toBe(true);
+    expect(client.connectionState).toBe('connected');
+    expect(states).toEqual(['connecting', 'connected']);
+  });
+
+  it('should throw an auth error and keep retrying with backoff when login fails', async () => {
+    api.login.mockResolvedValue(false);
+
+    const error = await client.connect('10.0.0.1', { username: 'user', password: 'pass' }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ProtectApiError);
+    expect((error as ProtectApiError).isAuthError).toBe(true);
+    expect(client.connectionState).toBe('reconnecting');
+
+    await vi.advanceTimersByTimeAsync(5_000);
+    expect(api.login).toHaveBeenCalledTimes(2);
+
+    // Second retry waits twice as long
+    await vi.advanceTimersByTimeAsync(5_000);
+    expect(api.login).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(5_000);
+    expect(api.login).toHaveBeenCalledTimes(3);
+
+    api.login.mockResolvedValue(true);
+    await vi.advanceTimersByTimeAsync(20_000);
+
+    expect(client.connectionState).toBe('connected');
+    expect(log.info).toHaveBeenCalledWith('Reconnected to 10.0.0.1');
+  });
+
+  it('should reconnect when the websocket goes quiet and the bootstrap refresh fails', async () => {
+    await client.connect('10.0.0.1', { username: 'user', password: 'pass' });
+    api.getBootstrap.mockResolvedValueOnce(false);
+
+    await vi.advanceTimersByTimeAsync(120_000);
+
+    expect(client.connectionState).toBe('reconnecting');
+    expect(log.warn).toHaveBeenCalledTimes(1);
+    expect(log.warn).toHaveBeenCalledWith('Lost connection to 10.0.0.1, reconnecting...');
+
+    await vi.advanceTimersByTimeAsync(5_000);
+
+    expect(api.login).toHaveBeenCalledTimes(2);
+    expect(client.connectionState).toBe('connected');
+  });
+
+  it('should keep packet handlers across reconnects', async () => {
+    const handler = vi.fn();
+    client.on('camera', 'update', handler);
+    await client.connect('10.0.0.1', { username: 'user', password: 'pass' });
+    api.getBootstrap.mockResolvedValueOnce(false);
+    await vi.advanceTimersByTimeAsync(125_000);
+
+    api.emit('message', cameraMotionUpdate);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only pass packets to handlers for their model key and action', async () => {
+    const cameraUpdates = vi.fn();
+    const sensorUpdates = vi.fn();
+    const cameraAdds = vi.fn();
+    client.on('camera', 'update', cameraUpdates);
+    client.on('sensor', 'update', sensorUpdates);
+    client.on('camera', 'add', cameraAdds);
+    await client.connect('10.0.0.1', { username: 'user', password: 'pass' });
+
+    api.emit('message', cameraMotionUpdate);
+    api.emit('message', sensorOpened);
+
+    expect(cameraUpdates).toHaveBeenCalledWith({
+      modelKey: 'camera',
+      action: 'update',
+      id: cameraMotionUpdate.header.id,
+      payload: cameraMotionUpdate.payload,
+    });
+    expect(sensorUpdates).toHaveBeenCalledTimes(1);
+    expect(cameraAdds).not.toHaveBeenCalled();
+  });
+
+  it('should stop passing packets once unsubscribed', async () => {
+    const handler = vi.fn();
+    const unsubscribe = client.on('camera', 'update', handler);
+    await client.connect('10.0.0.1', { username: 'user', password: 'pass' });
+
+    unsubscribe();
+    api.emit('message', cameraMotionUpdate);
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should count and log unknown and invalid packets', async () => {
+    const handler = vi.fn();
+    client.on('camera', 'update', handler);
+    await client.connect('10.0.0.1', { username: 'user', password: 'pass' });
+
+    api.emit('message', userUpdate);
+    api.emit('message', motionAsString);
+    api.emit('message', 'not a packet');
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(client.packetStats).toEqual({ unknown: 1, invalid: 2 });
+    expect(log.debug).toHaveBeenCalledWith('Ignoring unknown packet from 10.0.0.1: user update');
+    expect(log.debug).toHaveBeenCalledWith(
+      expect.stringContaining('Ignoring invalid packet from 10.0.0.1: camera update for 65f1c0de00a1b2c3d4e5f601'),
+    );
+  });
+
+  it('should keep dispatching when a handler throws', async () => {
+    const handler = vi.fn();
+    client.on('camera', 'update', () => {
+      throw new Error('boom');
+    });
+    client.on('camera', 'update', handler);
+    await client.connect('10.0.0.1', { username: 'user', password: 'pass' });
+
+    api.emit('message', cameraMotionUpdate);
+
+    expect(handler).toHaveBeenCalled();
+    expect(log.error).toHaveBeenCalledWith('Error handling camera update packet:', expect.any(Error));
+  });
+
+  it('should refuse updates while not connected', async () => {
+    const result = await client.updateCameraLed({ id: 'camera-1', name: 'Test' } as never, true);
+
+    expect(result).toBe(false);
+    expect(api.updateDevice).not.toHaveBeenCalled();
+  });
+
+  it('should keep the LED on or off when changing its blink rate', async () => {
+    await client.connect('10.0.0.1', { username: 'user', password: 'pass' });
+    const camera = { id: 'camera-1', name: 'Test', ledSettings: { isEnabled: true, blinkRate: 0 } };
+
+    await expect(client.updateCameraLedBlink(camera as never, 250, false)).resolves.toBe(true);
+
+    expect(api.updateDevice).toHaveBeenCalledWith(camera, { ledSettings: { isEnabled: false, blinkRate: 250 } });
+  });
+
+  it('should report failed hardware updates', async () => {
+    await client.connect('10.0.0.1', { username: 'user', password: 'pass' });
+    api.updateDevice.mockResolvedValueOnce(null);
+
+    await expect(client.updateCameraNightVision({ id: 'camera-1', name: 'Test' } as never, 'off')).resolves.toBe(false);
+
+    expect(api.updateDevice).toHaveBeenCalledWith(expect.anything(), { ispSettings: { irLedMode: 'off' } });
+    expect(log.error).toHaveBeenCalledWith('Failed to update night vision settings for Test');
+  });
+
+  describe('playChime', () => {
+    const chime = { id: 'chime-1', name: 'Hallway Chime' } as never;
+
+    it('should ask the chime to play', async () => {
+      await client.connect('10.0.0.1', { username: 'user', password: 'pass' });
+
+      await expect(client.playChime(chime)).resolves.toBe(true);
+
+      expect(api.retrieve).toHaveBeenCalledWith('https://10.0.0.1/proxy/protect/api/chimes/chime-1/play-speaker', {
+        method: 'POST',
+        body: '{}',
+      });
+      expect(log.info).toHaveBeenCalledWith('Playing chime Hallway Chime');
+    });
+
+    it('should not play chimes while disconnected', async () => {
+      await expect(client.playChime(chime)).resolves.toBe(false);
+
+      expect(api.retrieve).not.toHaveBeenCalled();
+      expect(log.error).toHaveBeenCalledWith('Cannot play chime: not connected');
+    });
+
+    it('should report chimes Protect refuses to play', async () => {
+      await client.connect('10.0.0.1', { username: 'user', password: 'pass' });
+      api.retrieve.mockResolvedValueOnce({ statusCode: 500 });
+
+      await expect(client.playChime(chime)).resolves.toBe(false);
+
+      expect(log.error).toHaveBeenCalledWith('Failed to play chime Hallway Chime');
+    });
+
+    it('should report errors playing chimes', async () => {
+      await client.connect('10.0.0.1', { username: 'user', password: 'pass' });
+      const error = new Error('socket hang up');
+      api.retrieve.mockRejectedValueOnce(error);
+
+      await expect(client.playChime(chime)).resolves.toBe(false);
+
+      expect(log.error).toHaveBeenCalledWith('Error playing chime Hallway Chime:', error);
+    });
+  });
+
+  describe('redaction', () => {
+    it('should redact the password from connection errors', async () => {
+      api.login.mockRejectedValue(new Error('Invalid login for user:s3cret@10.0.0.1'));
+
+      const error = await client.connect('10.0.0.1', { username: 'user', password: 's3cret' }).catch((e: unknown) => e);
+
+      expect((error as ProtectApiError).message).toBe(
+        'Error connecting to 10.0.0.1: Invalid login for user:********@10.0.0.1',
+      );
+    });
+
+    it('should not log the password while reconnecting', async () => {
+      api.login.mockRejectedValue(new Error('Invalid login for user:s3cret@10.0.0.1'));
+      await client.connect('10.0.0.1', { username: 'user', password: 's3cret' }).catch(() => undefined);
+
+      await vi.advanceTimersByTimeAsync(5_000);
+
+      expect(log.debug).toHaveBeenCalledWith('Reconnect to 10.0.0.1 failed:', expect.any(ProtectApiError));
+      expect(inspect(vi.mocked(log.debug).mock.calls)).not.toContain('s3cret');
+    });
+  });
+
+  describe('permissions', () => {
+    const withPermissions = (allPermissions?: string[]): void => {
+      Object.assign(api, {
+        bootstrap: { cameras: [], lastUpdateId: '1', authUserId: 'user-1', users: [{ id: 'user-1', allPermissions }] },
+      });
+    };
+
+    beforeEach(async () => {
+      await client.connect('10.0.0.1', { username: 'user', password: 'pass' });
+    });
+
+    it('should allow everything when the controller does not list permissions', () => {
+      withPermissions(undefined);
+
+      expect(client.canControl('camera')).toBe(true);
+      expect(client.canControl('light')).toBe(true);
+      expect(client.canControl('chime')).toBe(true);
+    });
+
+    it('should detect what a view only user can change', () => {
+      withPermissions(['camera:read,readmedia:*', 'light:read,write:*', 'chime:read,write:*']);
+
+      expect(client.canControl('camera')).toBe(false);
+      // unifi-protect won't send light changes without camera permissions either
+      expect(client.canControl('light')).toBe(false);
+      expect(client.canControl('chime')).toBe(true);
+    });
+
+    it('should refuse updates the user is not allowed to make', async () => {
+      withPermissions(['camera:read:*']);
+
+      await expect(client.updateCameraLed({ id: 'camera-1', name: 'Test' } as never, true)).resolves.toBe(false);
+
+      expect(api.updateDevice).not.toHaveBeenCalled();
+      expect(log.error).toHaveBeenCalledWith(
+        'Error updating LED for Test:',
+        expect.objectContaining({ message: "The user on 10.0.0.1 isn't allowed to change camera settings" }),
+      );
+    });
+  });
+
+  describe('metrics', () => {
+    let metrics: PluginMetrics;
+
+    beforeEach(() => {
+      client.disconnect();
+      metrics = new PluginMetrics();
+      client = new ProtectClient(log, metrics);
+      api = (ProtectApi as unknown as { instance: MockProtectApi }).instance;
+    });
+
+    it('should count packets by model key and action, and handler errors', async () => {
+      client.on('camera', 'update', () => {
+        throw new Error('boom');
+      });
+      await client.connect('10.0.0.1', { username: 'user', password: 'pass' });
+
+      api.emit('message', cameraMotionUpdate);
+      api.emit('message', cameraMotionUpdate);
+      api.emit('message', userUpdate);
+
+      const labels = { controller: '10.0.0.1', model_key: 'camera', action: 'update' };
+      expect(metrics.packets.get(labels)).toBe(2);
+      expect(metrics.handlerErrors.get(labels)).toBe(2);
+      expect(metrics.ignoredPackets.get({ controller: '10.0.0.1', reason: 'unknown' })).toBe(1);
+    });
+
+    it('should time device updates and count failures', async () => {
+      await client.connect('10.0.0.1', { username: 'user', password: 'pass' });
+      api.updateDevice.mockResolvedValueOnce({}).mockResolvedValueOnce(null).mockRejectedValueOnce(new Error('boom'));
+
+      for (let i = 0; i < 3; i++) {
+        await client.updateCameraLed({ id: 'camera-1', name: 'Test' } as never, true);
+      }
+
+      expect(metrics.updateFailures.get({ controller: '10.0.0.1', model_key: 'camera' })).toBe(2);
+      expect(metrics.render()).toContain(
+        'protect_device_update_duration_seconds_count{controller="10.0.0.1",model_key="camera"} 3',
+      );
+    });
+
+    it('should track the connection state and reconnect attempts', async () => {
+      api.login.mockResolvedValue(false);
+
+      await client.connect('10.0.0.1', { username: 'user', password: 'pass' }).catch(() => undefined);
+      await vi.advanceTimersByTimeAsync(5_000);
+
+      expect(metrics.reconnects.get({ controller: '10.0.0.1' })).toBe(2);
+      expect(metrics.connectionState.get({ controller: '10.0.0.1', state: 'reconnecting' })).toBe(1);
+      expect(metrics.connectionState.get({ controller: '10.0.0.1', state: 'connected' })).toBe(0);
+    });
+  });
+});
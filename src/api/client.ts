@@ -1,45 +1,143 @@
-import type { Logging } from 'homebridge';
+import type { ProtectLogging } from 'unifi-protect';
 import { ProtectApi } from 'unifi-protect';
 
+import type { ControllerCredentials } from '../credentials.js';
+import type { PluginMetrics } from '../metrics.js';
 import { ProtectApiError } from './errors.js';
-import type { LedSettings, ProtectBootstrap, ProtectCamera, ProtectEventPacket, RecordingSettings } from './types.js';
+import { ProtectIntegrationApi } from './integration-api.js';
+import type { PacketActionFor, PacketModelKey, PacketOf, ProtectPacket } from './packets.js';
+import { parsePacket } from './packets.js';
+import { createRedactingLogger, registerSecret } from './redact.js';
+import type {
+  IrLedMode,
+  IspSettings,
+  LedSettings,
+  LightDeviceSettings,
+  LightOnSettings,
+  MicrophoneSettings,
+  PrivacyZone,
+  ProtectBootstrap,
+  ProtectCamera,
+  ProtectChime,
+  ProtectLight,
+  ProtectNvr,
+  ProtectSensor,
+  RecordingMode,
+  RecordingSettings,
+  SpeakerSettings,
+} from './types.js';
 
-export type MessageHandler = (packet: ProtectEventPacket) => void;
+export type PacketHandler<K extends PacketModelKey, A extends string> = (packet: PacketOf<K, A>) => void;
+export type ConnectionStateHandler = (state: ConnectionState) => void;
+
+export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting';
+export type ControllableModelKey = 'camera' | 'light' | 'chime';
+
+const CONNECTION_STATES: ConnectionState[] = ['disconnected', 'connecting', 'connected', 'reconnecting'];
+
+const INITIAL_RECONNECT_DELAY = 5; // seconds
+const MAX_RECONNECT_DELAY = 300; // seconds
+const HEALTH_CHECK_INTERVAL = 60; // seconds
+const STALE_CONNECTION_TIMEOUT = 120; // seconds without a websocket message
+
+export interface PacketStats {
+  unknown: number; // model keys and actions the plugin doesn't handle
+  invalid: number; // malformed packets, or payloads with fields of the wrong type
+}
+
+interface PacketSubscription {
+  modelKey: PacketModelKey;
+  action: string;
+  handler: (packet: ProtectPacket) => void;
+}
+
+type Credentials = ControllerCredentials & { address: string };
 
 export class ProtectClient {
-  private api: ProtectApi;
-  private messageHandlers: MessageHandler[] = [];
-  private connected = false;
+  private readonly sessionApi: ProtectApi;
+  private integrationApi: ProtectIntegrationApi | null = null;
+  private subscriptions: PacketSubscription[] = [];
+  private readonly stats: PacketStats = { unknown: 0, invalid: 0 };
+  private stateHandlers: ConnectionStateHandler[] = [];
+  private state: ConnectionState = 'disconnected';
+  private credentials: Credentials | null = null;
+  private reconnectAttempts = 0;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private healthCheckTimer: NodeJS.Timeout | null = null;
+  private lastMessageTime = 0;
+  private readonly log: ProtectLogging;
 
-  constructor(private readonly log: Logging) {
-    this.api = new ProtectApi();
+  constructor(
+    log: ProtectLogging,
+    private readonly metrics: PluginMetrics | null = null,
+  ) {
+    // unifi-protect logs through the same logger, so its errors are redacted too rather than going to the console
+    this.log = createRedactingLogger(log);
+    this.sessionApi = this.listen(new ProtectApi(this.log));
   }
 
-  public async connect(address: string, username: string, password: string): Promise<boolean> {
+  // Attached once so handlers survive reconnects
+  private listen<T extends ProtectApi | ProtectIntegrationApi>(api: T): T {
+    api.on('message', (packet: unknown) => {
+      this.lastMessageTime = Date.now();
+      this.handleMessage(packet);
+    });
+    return api;
+  }
+
+  // API keys log in to the integration API, which has the devices and events but only some of the settings
+  private get api(): ProtectApi | ProtectIntegrationApi {
+    return this.integrationApi ?? this.sessionApi;
+  }
+
+  public get usesApiKey(): boolean {
+    return this.integrationApi !== null;
+  }
+
+  public async connect(address: string, credentials: ControllerCredentials): Promise<boolean> {
+    this.credentials = { address, ...credentials };
+    if ('apiKey' in credentials) {
+      registerSecret(credentials.apiKey);
+      this.integrationApi ??= this.listen(new ProtectIntegrationApi(this.log));
+    } else {
+      registerSecret(credentials.password);
+      this.integrationApi = null;
+    }
+    this.setState('connecting');
+
     try {
       this.log.info(`Connecting to UniFi Protect controller at ${address}...`);
+      await this.establishSession();
+      this.log.info(`Successfully logged in to ${address}`);
+
+      this.onConnected();
+      return true;
+    } catch (error) {
+      // Keep trying in the background, the caller only reports the first failure
+      this.scheduleReconnect();
+      throw error;
+    }
+  }
+
+  private async establishSession(): Promise<void> {
+    const credentials = this.credentials!;
+    const { address } = credentials;
 
-      const loggedIn = await this.api.login(address, username, password);
+    try {
+      // login() drops any previous session, so an expired one is replaced here
+      const loggedIn =
+        'apiKey' in credentials
+          ? await this.integrationApi!.login(address, credentials.apiKey)
+          : await this.sessionApi.login(address, credentials.username, credentials.password);
 
       if (!loggedIn) {
         throw new ProtectApiError(`Failed to login to controller at ${address}`, 401);
       }
 
-      this.log.info(`Successfully logged in to ${address}`);
-
       const bootstrapSuccess = await this.api.getBootstrap();
       if (!bootstrapSuccess) {
         throw new ProtectApiError(`Failed to get bootstrap from ${address}`);
       }
-
-      this.connected = true;
-
-      // Set up event listener
-      this.api.on('message', (packet: unknown) => {
-        this.handleMessage(packet as ProtectEventPacket);
-      });
-
-      return true;
     } catch (error) {
       if (error instanceof ProtectApiError) {
         throw error;
@@ -50,6 +148,118 @@ export class ProtectClient {
     }
   }
 
+  private onConnected(): void {
+    this.reconnectAttempts = 0;
+    this.lastMessageTime = Date.now();
+    this.setState('connected');
+    this.scheduleHealthCheck();
+  }
+
+  private scheduleReconnect(): void {
+    this.clearTimers();
+
+    const delay = Math.min(INITIAL_RECONNECT_DELAY * 2 ** this.reconnectAttempts, MAX_RECONNECT_DELAY);
+    this.reconnectAttempts++;
+    this.metrics?.reconnects.inc({ controller: this.controllerLabel });
+    this.setState('reconnecting');
+    this.log.debug(`Reconnecting to ${this.credentials?.address} in ${delay}s (attempt ${this.reconnectAttempts})`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      void this.reconnect();
+    }, delay * 1000);
+  }
+
+  private async reconnect(): Promise<void> {
+    try {
+      await this.establishSession();
+    } catch (error) {
+      if (this.state !== 'reconnecting') {
+        // disconnect() was called while the attempt was in flight
+        return;
+      }
+      this.log.debug(`Reconnect to ${this.credentials?.address} failed:`, error);
+      this.scheduleReconnect();
+      return;
+    }
+
+    if (this.state === 'reconnecting') {
+      this.onConnected();
+    }
+  }
+
+  private scheduleHealthCheck(): void {
+    this.healthCheckTimer = setTimeout(() => {
+      this.healthCheckTimer = null;
+      void this.checkHealth();
+    }, HEALTH_CHECK_INTERVAL * 1000);
+  }
+
+  private async checkHealth(): Promise<void> {
+    if (this.state !== 'connected') {
+      return;
+    }
+
+    // A quiet websocket is either idle or dead, so probe with a bootstrap refresh. The library re-opens a
+    // closed websocket as part of this and fails if the session is no longer valid.
+    if (Date.now() - this.lastMessageTime >= STALE_CONNECTION_TIMEOUT * 1000) {
+      this.log.debug(`No events from ${this.credentials?.address} recently, checking connection...`);
+
+      const healthy = await this.api.getBootstrap().catch(() => false);
+      if (this.state !== 'connected') {
+        return;
+      }
+      if (!healthy) {
+        this.scheduleReconnect();
+        return;
+      }
+      this.lastMessageTime = Date.now();
+    }
+
+    this.scheduleHealthCheck();
+  }
+
+  private setState(state: ConnectionState): void {
+    if (state === this.state) {
+      return;
+    }
+
+    const previous = this.state;
+    this.state = state;
+
+    for (const known of CONNECTION_STATES) {
+      this.metrics?.connectionState.set({ controller: this.controllerLabel, state: known }, known === state ? 1 : 0);
+    }
+
+    const address = this.credentials?.address;
+    if (state === 'connected' && previous === 'reconnecting') {
+      this.log.info(`Reconnected to ${address}`);
+    } else if (state === 'reconnecting' && previous === 'connected') {
+      this.log.warn(`Lost connection to ${address}, reconnecting...`);
+    } else if (state === 'reconnecting') {
+      this.log.warn(`Unable to connect to ${address}, will keep retrying in the background`);
+    }
+
+    for (const handler of this.stateHandlers) {
+      try {
+        handler(state);
+      } catch (error) {
+        this.log.error('Error in connection state handler:', error);
+      }
+    }
+  }
+
+  private clearTimers(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.healthCheckTimer) {
+      clearTimeout(this.healthCheckTimer);
+      this.healthCheckTimer = null;
+    }
+  }
+
   public get bootstrap(): ProtectBootstrap | null {
     if (!this.connected || !this.api.bootstrap) {
       return null;
@@ -57,84 +267,316 @@ export class ProtectClient {
     return this.api.bootstrap as unknown as ProtectBootstrap;
   }
 
+  public get nvr(): ProtectNvr | null {
+    return this.bootstrap?.nvr ?? null;
+  }
+
   public get cameras(): ProtectCamera[] {
     return this.bootstrap?.cameras ?? [];
   }
 
+  public get sensors(): ProtectSensor[] {
+    return this.bootstrap?.sensors ?? [];
+  }
+
+  public get lights(): ProtectLight[] {
+    return this.bootstrap?.lights ?? [];
+  }
+
+  public get chimes(): ProtectChime[] {
+    return this.bootstrap?.chimes ?? [];
+  }
+
+  // Older controllers may not list the user's permissions, so they're assumed to allow everything
+  private get permissions(): string[] | null {
+    const bootstrap = this.bootstrap;
+    const user = bootstrap?.users?.find((candidate) => candidate.id === bootstrap.authUserId);
+    return user?.allPermissions ?? null;
+  }
+
+  private hasWritePermission(modelKey: string): boolean {
+    const permissions = this.permissions;
+    return (
+      !permissions ||
+      permissions.some((entry) => {
+        const [model, actions = ''] = entry.split(':');
+        return model === modelKey && actions.split(',').includes('write');
+      })
+    );
+  }
+
+  // unifi-protect only sends device changes for users who can change cameras, chimes are played directly. The
+  // integration API can't play chimes.
+  public canControl(modelKey: ControllableModelKey): boolean {
+    if (modelKey === 'chime' && this.usesApiKey) {
+      return false;
+    }
+    return this.hasWritePermission(modelKey) && (modelKey === 'chime' || this.hasWritePermission('camera'));
+  }
+
   public get isConnected(): boolean {
     return this.connected;
   }
 
-  public onMessage(handler: MessageHandler): void {
-    this.messageHandlers.push(handler);
+  public get connectionState(): ConnectionState {
+    return this.state;
   }
 
-  public async updateCameraLed(camera: ProtectCamera, enabled: boolean): Promise<boolean> {
+  private get connected(): boolean {
+    return this.state === 'connected';
+  }
+
+  private get controllerLabel(): string {
+    return this.credentials?.address ?? '';
+  }
+
+  public get packetStats(): PacketStats {
+    return { ...this.stats };
+  }
+
+  // Handlers only see packets that passed validation, typed for the model key and action they asked for
+  public on<K extends PacketModelKey, A extends PacketActionFor<K>>(
+    modelKey: K,
+    action: A,
+    handler: PacketHandler<K, A>,
+  ): () => void {
+    const subscription: PacketSubscription = {
+      modelKey,
+      action,
+      handler: handler as (packet: ProtectPacket) => void,
+    };
+    this.subscriptions.push(subscription);
+
+    return () => {
+      this.subscriptions = this.subscriptions.filter((existing) => existing !== subscription);
+    };
+  }
+
+  public onStateChange(handler: ConnectionStateHandler): () => void {
+    this.stateHandlers.push(handler);
+    return () => {
+      this.stateHandlers = this.stateHandlers.filter((h) => h !== handler);
+    };
+  }
+
+  public async refreshBootstrap(): Promise<boolean> {
     if (!this.connected) {
-      this.log.error('Cannot update camera LED: not connected');
       return false;
     }
 
     try {
-      const payload: { ledSettings: LedSettings } = {
-        ledSettings: { isEnabled: enabled },
-      };
+      return await this.api.getBootstrap();
+    } catch (error) {
+      this.log.debug('Error refreshing bootstrap:', error);
+      return false;
+    }
+  }
 
-      const result = await this.api.updateDevice(camera as never, payload as never);
+  public async updateCameraLed(camera: ProtectCamera, enabled: boolean): Promise<boolean> {
+    const payload: { ledSettings: LedSettings } = { ledSettings: { isEnabled: enabled } };
+    return this.updateCameraSettings(camera, payload, 'LED', `LED ${enabled ? 'enabled' : 'disabled'}`);
+  }
+
+  public async updateCameraMotionDetection(camera: ProtectCamera, enabled: boolean): Promise<boolean> {
+    const payload: { recordingSettings: RecordingSettings } = { recordingSettings: { enableMotionDetection: enabled } };
+    return this.updateCameraSettings(
+      camera,
+      payload,
+      'motion detection',
+      `Motion detection ${enabled ? 'enabled' : 'disabled'}`,
+    );
+  }
+
+  public async updateCameraRecordingMode(camera: ProtectCamera, mode: RecordingMode): Promise<boolean> {
+    const payload: { recordingSettings: RecordingSettings } = { recordingSettings: { mode } };
+    return this.updateCameraSettings(camera, payload, 'recording mode', `Recording mode set to ${mode}`);
+  }
+
+  public async updateCameraPrivacyZones(camera: ProtectCamera, privacyZones: PrivacyZone[]): Promise<boolean> {
+    const payload: { privacyZones: PrivacyZone[] } = { privacyZones };
+    return this.updateCameraSettings(camera, payload, 'privacy zones', 'Privacy zones updated');
+  }
+
+  public async updateCameraNightVision(camera: ProtectCamera, mode: IrLedMode): Promise<boolean> {
+    const payload: { ispSettings: IspSettings } = { ispSettings: { irLedMode: mode } };
+    return this.updateCameraSettings(camera, payload, 'night vision', `Night vision set to ${mode}`);
+  }
+
+  public async updateCameraHdr(camera: ProtectCamera, enabled: boolean): Promise<boolean> {
+    const payload: { hdrMode: boolean } = { hdrMode: enabled };
+    return this.updateCameraSettings(camera, payload, 'HDR', `HDR ${enabled ? 'enabled' : 'disabled'}`);
+  }
+
+  public async updateCameraSpeaker(camera: ProtectCamera, settings: Partial<SpeakerSettings>): Promise<boolean> {
+    const payload: { speakerSettings: Partial<SpeakerSettings> } = { speakerSettings: settings };
+    return this.updateCameraSettings(camera, payload, 'speaker', 'Speaker settings updated');
+  }
+
+  public async updateCameraMicrophone(camera: ProtectCamera, settings: MicrophoneSettings): Promise<boolean> {
+    return this.updateCameraSettings(camera, settings, 'microphone', 'Microphone settings updated');
+  }
+
+  public async updateCameraLedBlink(camera: ProtectCamera, blinkRate: number, ledEnabled: boolean): Promise<boolean> {
+    // Protect expects the whole LED settings object, so pass the LED's current on/off state along with the rate
+    const payload: { ledSettings: LedSettings } = { ledSettings: { isEnabled: ledEnabled, blinkRate } };
+    return this.updateCameraSettings(
+      camera,
+      payload,
+      'LED blink',
+      `LED blinking ${blinkRate > 0 ? 'enabled' : 'disabled'}`,
+    );
+  }
+
+  private async updateCameraSettings(
+    camera: ProtectCamera,
+    payload: object,
+    setting: string,
+    successMessage: string,
+  ): Promise<boolean> {
+    if (!this.connected) {
+      this.log.error(`Cannot update ${setting}: not connected`);
+      return false;
+    }
+
+    try {
+      const result = await this.updateDevice(camera, 'camera', payload);
 
       if (result) {
-        this.log.info(`LED ${enabled ? 'enabled' : 'disabled'} for ${camera.name}`);
+        this.log.info(`${successMessage} for ${camera.name}`);
         return true;
       }
 
-      this.log.error(`Failed to update LED settings for ${camera.name}`);
+      this.log.error(`Failed to update ${setting} settings for ${camera.name}`);
       return false;
     } catch (error) {
-      this.log.error(`Error updating LED for ${camera.name}:`, error);
+      this.log.error(`Error updating ${setting} for ${camera.name}:`, error);
       return false;
     }
   }
 
-  public async updateCameraMotionDetection(camera: ProtectCamera, enabled: boolean): Promise<boolean> {
+  public async updateLight(
+    light: ProtectLight,
+    payload: { lightOnSettings?: LightOnSettings; lightDeviceSettings?: LightDeviceSettings },
+  ): Promise<boolean> {
     if (!this.connected) {
-      this.log.error('Cannot update motion detection: not connected');
+      this.log.error('Cannot update light: not connected');
       return false;
     }
 
     try {
-      const payload: { recordingSettings: RecordingSettings } = {
-        recordingSettings: { enableMotionDetection: enabled },
-      };
-
-      const result = await this.api.updateDevice(camera as never, payload as never);
+      const result = await this.updateDevice(light, 'light', payload);
 
       if (result) {
-        this.log.info(`Motion detection ${enabled ? 'enabled' : 'disabled'} for ${camera.name}`);
+        this.log.info(`Light settings updated for ${light.name}`);
         return true;
       }
 
-      this.log.error(`Failed to update motion detection settings for ${camera.name}`);
+      this.log.error(`Failed to update light settings for ${light.name}`);
       return false;
     } catch (error) {
-      this.log.error(`Error updating motion detection for ${camera.name}:`, error);
+      this.log.error(`Error updating light for ${light.name}:`, error);
+      return false;
+    }
+  }
+
+  // Every settings change goes through here so its latency and failures are measured in one place
+  private async updateDevice(
+    device: ProtectCamera | ProtectLight,
+    modelKey: 'camera' | 'light',
+    payload: object,
+  ): Promise<boolean> {
+    if (!this.canControl(modelKey)) {
+      throw new ProtectApiError(
+        `The user on ${this.controllerLabel} isn't allowed to change ${modelKey} settings`,
+        403,
+      );
+    }
+
+    const labels = { controller: this.controllerLabel, model_key: modelKey };
+    const started = Date.now();
+
+    try {
+      const result = this.integrationApi
+        ? await this.integrationApi.updateDevice(modelKey, device.id, payload)
+        : await this.sessionApi.updateDevice(device as never, payload as never);
+      if (!result) {
+        this.metrics?.updateFailures.inc(labels);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      this.metrics?.updateFailures.inc(labels);
+      throw error;
+    } finally {
+      this.metrics?.updateDuration.observe(labels, (Date.now() - started) / 1000);
+    }
+  }
+
+  public async playChime(chime: ProtectChime): Promise<boolean> {
+    if (!this.connected) {
+      this.log.error('Cannot play chime: not connected');
+      return false;
+    }
+
+    if (!this.canControl('chime')) {
+      const reason = this.usesApiKey
+        ? "chimes can't be played with an API key"
+        : "the user isn't allowed to play chimes";
+      this.log.error(`Cannot play chime ${chime.name}: ${reason}`);
+      return false;
+    }
+
+    try {
+      const response = await this.sessionApi.retrieve(
+        `${this.sessionApi.getApiEndpoint('chime')}/${chime.id}/play-speaker`,
+        { method: 'POST', body: JSON.stringify({}) },
+      );
+
+      if (this.sessionApi.responseOk(response?.statusCode)) {
+        this.log.info(`Playing chime ${chime.name}`);
+        return true;
+      }
+
+      this.log.error(`Failed to play chime ${chime.name}`);
+      return false;
+    } catch (error) {
+      this.log.error(`Error playing chime ${chime.name}:`, error);
       return false;
     }
   }
 
   public disconnect(): void {
-    if (this.connected) {
+    this.clearTimers();
+    if (this.state !== 'disconnected') {
       this.api.reset();
-      this.connected = false;
-      this.messageHandlers = [];
+      this.setState('disconnected');
+      this.subscriptions = [];
+      this.stateHandlers = [];
     }
   }
 
-  private handleMessage(packet: ProtectEventPacket): void {
-    for (const handler of this.messageHandlers) {
+  private handleMessage(message: unknown): void {
+    const result = parsePacket(message);
+    if (result.status !== 'valid') {
+      this.stats[result.status]++;
+      this.metrics?.ignoredPackets.inc({ controller: this.controllerLabel, reason: result.status });
+      this.log.debug(`Ignoring ${result.status} packet from ${this.credentials?.address}: ${result.reason}`);
+      return;
+    }
+
+    const { packet } = result;
+    const labels = { controller: this.controllerLabel, model_key: packet.modelKey, action: packet.action };
+    this.metrics?.packets.inc(labels);
+
+    for (const subscription of this.subscriptions) {
+      if (subscription.modelKey !== packet.modelKey || subscription.action !== packet.action) {
+        continue;
+      }
       try {
-        handler(packet);
+        subscription.handler(packet);
       } catch (error) {
-        this.log.error('Error in message handler:', error);
+        this.metrics?.handlerErrors.inc(labels);
+        this.log.error(`Error handling ${packet.modelKey} ${packet.action} packet:`, error);
       }
     }
   }
@@ -1,6 +1,7 @@
 import { describe, expect, it } from 'vitest';
 
 import { ProtectApiError } from './errors.js';
+import { registerSecret } from './redact.js';
 
 describe('ProtectApiError', () => {
   it('should create an error with message', () => {
@@ -39,4 +40,12 @@ describe('ProtectApiError', () => {
     expect(error404.isAuthError).toBe(false);
     expect(error500.isAuthError).toBe(false);
   });
+
+  it('should redact registered secrets from the message', () => {
+    registerSecret('hunter2');
+
+    const error = new ProtectApiError('Login with hunter2 failed', 401);
+
+    expect(error.message).toBe('Login with ******** failed');
+  });
 });
@@ -0,0 +1,240 @@
+import { EventEmitter } from 'node:events';
+
+import type { Dispatcher } from 'undici';
+import { Agent, request, WebSocket } from 'undici';
+import type { ProtectLogging } from 'unifi-protect';
+
+import { ProtectApiError } from './errors.js';
+import type { ProtectBootstrap } from './types.js';
+
+export type IntegrationModelKey = 'camera' | 'light';
+
+type Item = Record<string, unknown>;
+type FieldTranslation = (value: unknown) => Item | undefined;
+
+const API_PREFIX = '/proxy/protect/integration/v1/';
+const SUBSCRIPTIONS = ['devices', 'events'];
+
+const UNSUPPORTED_SETTING = "API keys can't change this setting, log in with a username and password to use it";
+
+const isObject = (value: unknown): value is Item =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// The settings the integration API can change, keyed by the field the client sends for the private API
+const WRITABLE_FIELDS: Record<IntegrationModelKey, Record<string, FieldTranslation>> = {
+  camera: {
+    ledSettings: (value) =>
+      isObject(value) && value.blinkRate === undefined ? { ledSettings: { isEnabled: value.isEnabled } } : undefined,
+    micVolume: (value) => ({ micVolume: value }),
+    hdrMode: (value) => ({ hdrType: value ? 'on' : 'off' }),
+  },
+  light: {
+    lightOnSettings: (value) => (isObject(value) ? { isLightForceEnabled: value.isLedForceOn } : undefined),
+    lightDeviceSettings: (value) =>
+      isObject(value) && Object.keys(value).every((key) => key === 'ledLevel')
+        ? { lightDeviceSettings: { ledLevel: value.ledLevel } }
+        : undefined,
+  },
+};
+
+function toIntegrationPayload(modelKey: IntegrationModelKey, payload: Item): Item {
+  const translated: Item = {};
+  for (const [field, value] of Object.entries(payload)) {
+    const changes = WRITABLE_FIELDS[modelKey][field]?.(value);
+    if (!changes) {
+      throw new ProtectApiError(UNSUPPORTED_SETTING);
+    }
+    Object.assign(translated, changes);
+  }
+  return translated;
+}
+
+// Devices are reported with the private API's field names, so the rest of the plugin reads them the same either way
+function fromIntegrationDevice(item: Item): Item {
+  const { hdrType, isLightForceEnabled, ...device } = item;
+  return {
+    ...device,
+    ...(typeof hdrType === 'string' && { hdrMode: hdrType !== 'off' }),
+    ...(typeof isLightForceEnabled === 'boolean' && { lightOnSettings: { isLedForceOn: isLightForceEnabled } }),
+  };
+}
+
+/**
+ * Talks to the UniFi Protect integration API, which logs in with an API key instead of a user. It offers the parts
+ * of unifi-protect's ProtectApi the client relies on, and emits its updates as 'message' events shaped like the
+ * packets unifi-protect decodes. The integration API has fewer settings than the private one, anything else is
+ * refused with a ProtectApiError.
+ */
+export class ProtectIntegrationApi extends EventEmitter {
+  private address = '';
+  private apiKey = '';
+  private dispatcher: Agent | null = null;
+  private readonly sockets = new Map<string, WebSocket>();
+  private _bootstrap: ProtectBootstrap | null = null;
+
+  constructor(private readonly log: ProtectLogging) {
+    super();
+  }
+
+  public get bootstrap(): ProtectBootstrap | null {
+    return this._bootstrap;
+  }
+
+  // Resolves false when the controller refuses the key, like ProtectApi.login() does for a wrong password
+  public async login(address: string, apiKey: string): Promise<boolean> {
+    this.reset();
+    this.address = address;
+    this.apiKey = apiKey;
+    this.dispatcher = new Agent({ connect: { rejectUnauthorized: false } });
+
+    const { statusCode } = await this.request('GET', 'meta/info');
+    if (statusCode === 404) {
+      throw new ProtectApiError(
+        `${address} doesn't have the Protect integration API, update UniFi Protect to log in with an API key`,
+        statusCode,
+      );
+    }
+    return statusCode < 300;
+  }
+
+  // Like ProtectApi.getBootstrap(), this re-opens any update websocket that closed
+  public async getBootstrap(): Promise<boolean> {
+    try {
+      const [nvr, cameras, lights, sensors, chimes] = await Promise.all(
+        ['nvrs', 'cameras', 'lights', 'sensors', 'chimes'].map((collection) => this.fetchJson(collection)),
+      );
+      const devices = (list: unknown): Item[] => (Array.isArray(list) ? list.filter(isObject) : []);
+
+      this._bootstrap = {
+        nvr: nvr as ProtectBootstrap['nvr'],
+        cameras: devices(cameras).map((camera) => ({ lastMotion: null, ...fromIntegrationDevice(camera) })),
+        lights: devices(lights).map(fromIntegrationDevice),
+        sensors: devices(sensors),
+        chimes: devices(chimes),
+        lastUpdateId: '',
+      } as unknown as ProtectBootstrap;
+    } catch (error) {
+      this.log.debug(`Error getting devices from ${this.address}:`, error);
+      return false;
+    }
+
+    for (const subscription of SUBSCRIPTIONS) {
+      if (!this.sockets.has(subscription) && !(await this.subscribe(subscription))) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  public async updateDevice(modelKey: IntegrationModelKey, id: string, payload: object): Promise<Item | null> {
+    const body = toIntegrationPayload(modelKey, payload as Item);
+    const response = await this.request('PATCH', `${modelKey}s/${id}`, body);
+    if (response.statusCode >= 300) {
+      this.log.debug(`${this.address} refused the ${modelKey} update with status ${response.statusCode}`);
+      return null;
+    }
+    return (await response.body.json()) as Item;
+  }
+
+  public reset(): void {
+    for (const socket of this.sockets.values()) {
+      socket.close();
+    }
+    this.sockets.clear();
+    void this.dispatcher?.close();
+    this.dispatcher = null;
+    this._bootstrap = null;
+  }
+
+  private get headers(): Record<string, string> {
+    return { 'X-API-KEY': this.apiKey, Accept: 'application/json' };
+  }
+
+  private async request(method: 'GET' | 'PATCH', path: string, body?: Item): Promise<Dispatcher.ResponseData> {
+    const response = await request(`https://${this.address}${API_PREFIX}${path}`, {
+      method,
+      dispatcher: this.dispatcher ?? undefined,
+      headers: body ? { ...this.headers, 'Content-Type': 'application/json' } : this.headers,
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    if (response.statusCode >= 300) {
+      // Unread bodies hold on to the connection
+      await response.body.dump();
+    }
+    return response;
+  }
+
+  private async fetchJson(path: string): Promise<unknown> {
+    const response = await this.request('GET', path);
+    if (response.statusCode >= 300) {
+      throw new ProtectApiError(`Request for ${path} failed with status ${response.statusCode}`, response.statusCode);
+    }
+    return response.body.json();
+  }
+
+  private async subscribe(subscription: string): Promise<boolean> {
+    const socket = new WebSocket(`wss://${this.address}${API_PREFIX}subscribe/${subscription}`, {
+      dispatcher: this.dispatcher ?? undefined,
+      headers: this.headers,
+    });
+    socket.addEventListener('error', () => socket.close(), { once: true });
+
+    const opened = await new Promise<boolean>((resolve) => {
+      socket.addEventListener('open', () => resolve(true), { once: true });
+      socket.addEventListener('close', () => resolve(false), { once: true });
+    });
+    if (!opened) {
+      this.log.debug(`Unable to subscribe to ${subscription} updates from ${this.address}`);
+      return false;
+    }
+
+    this.sockets.set(subscription, socket);
+    socket.addEventListener('message', (event) => this.handleMessage(event.data));
+    socket.addEventListener(
+      'close',
+      () => {
+        if (this.sockets.get(subscription) === socket) {
+          this.sockets.delete(subscription);
+        }
+      },
+      { once: true },
+    );
+    return true;
+  }
+
+  // Malformed messages are passed on too, so the client counts them with the other invalid packets
+  private handleMessage(data: unknown): void {
+    let message: unknown;
+    try {
+      message = JSON.parse(String(data));
+    } catch {
+      this.log.debug(`Ignoring a message from ${this.address} that isn't JSON`);
+      return;
+    }
+
+    const { type: action, item } = isObject(message) ? message : {};
+    if (!isObject(item)) {
+      this.emit('message', { header: { action }, payload: item });
+      return;
+    }
+
+    const { modelKey, id } = item;
+    if (modelKey !== 'event') {
+      this.emit('message', { header: { action, modelKey, id }, payload: fromIntegrationDevice(item) });
+      return;
+    }
+
+    // Events name their camera as the device, and motion isn't reported on the camera itself like the private API does
+    const { device, ...event } = item;
+    if (action === 'add' && event.type === 'motion' && typeof device === 'string') {
+      this.emit('message', {
+        header: { action: 'update', modelKey: 'camera', id: device },
+        payload: { lastMotion: event.start, isMotionDetected: true },
+      });
+    }
+    this.emit('message', {
+      header: { action, modelKey, id },
+      payload: { ...event, ...(device !== undefined && { camera: device }) },
+    });
+  }
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+
+import * as fixtures from '../test/fixtures/packets.js';
+import { parsePacket } from './packets.js';
+
+describe('parsePacket', () => {
+  it.each([
+    ['cameraMotionUpdate', 'camera', 'update'],
+    ['cameraSmartDetectUpdate', 'camera', 'update'],
+    ['cameraSettingsUpdate', 'camera', 'update'],
+    ['cameraDisconnected', 'camera', 'update'],
+    ['cameraAdded', 'camera', 'add'],
+    ['cameraRemoved', 'camera', 'remove'],
+    ['smartDetectEventAdded', 'event', 'add'],
+    ['smartDetectEventUpdated', 'event', 'update'],
+    ['ringEventAdded', 'event', 'add'],
+    ['accessEventAdded', 'event', 'add'],
+    ['nvrStatsUpdate', 'nvr', 'update'],
+    ['sensorOpened', 'sensor', 'update'],
+    ['lightTurnedOn', 'light', 'update'],
+    ['chimeVolumeUpdate', 'chime', 'update'],
+  ] as const)('should accept %s', (name, modelKey, action) => {
+    const result = parsePacket(fixtures[name]);
+
+    expect(result).toEqual({
+      status: 'valid',
+      packet: { modelKey, action, id: fixtures[name].header.id, payload: expect.any(Object) },
+    });
+  });
+
+  it('should pass the payload through untouched', () => {
+    const result = parsePacket(fixtures.cameraSettingsUpdate);
+
+    expect(result.status === 'valid' && result.packet.payload).toEqual(fixtures.cameraSettingsUpdate.payload);
+  });
+
+  it('should give removes without a payload an empty one', () => {
+    const result = parsePacket(fixtures.cameraRemoved);
+
+    expect(result.status === 'valid' && result.packet.payload).toEqual({});
+  });
+
+  it.each([
+    ['userUpdate', 'user update'],
+    ['nvrAdded', 'nvr add'],
+  ] as const)('should report %s as unknown', (name, reason) => {
+    expect(parsePacket(fixtures[name])).toEqual({ status: 'unknown', reason });
+  });
+
+  it.each([
+    ['missingHeader', 'missing or malformed action header'],
+    [
+      'motionAsString',
+      'camera update for 65f1c0de00a1b2c3d4e5f601: lastMotion should be number or null, got "1718000000123"',
+    ],
+    ['cameraAddedWithoutMac', 'camera add for 65f1c0de00a1b2c3d4e5f604: mac is missing'],
+    ['updateWithoutPayload', 'sensor update for 6570000000000000000000b1 has no payload'],
+  ] as const)('should report %s as invalid', (name, reason) => {
+    expect(parsePacket(fixtures[name])).toEqual({ status: 'invalid', reason });
+  });
+
+  it('should reject messages that are not objects', () => {
+    expect(parsePacket('camera update')).toEqual({ status: 'invalid', reason: 'missing or malformed action header' });
+    expect(parsePacket(null).status).toBe('invalid');
+  });
+});
@@ -0,0 +1,192 @@
+import type { ProtectCamera, ProtectChime, ProtectEvent, ProtectLight, ProtectNvr, ProtectSensor } from './types.js';
+
+export type PacketAction = 'add' | 'update' | 'remove';
+
+interface Packet<K extends string, A extends PacketAction, P> {
+  modelKey: K;
+  action: A;
+  id: string;
+  payload: P;
+}
+
+// Adds carry the whole object, updates and removes only the fields that changed
+type DevicePacket<K extends string, T> =
+  Packet<K, 'add', T> | Packet<K, 'update', Partial<T>> | Packet<K, 'remove', Partial<T>>;
+
+export type ProtectPacket =
+  | DevicePacket<'camera', ProtectCamera>
+  | DevicePacket<'sensor', ProtectSensor>
+  | DevicePacket<'light', ProtectLight>
+  | DevicePacket<'chime', ProtectChime>
+  | Packet<'event', 'add', ProtectEvent>
+  | Packet<'event', 'update', Partial<ProtectEvent>>
+  | Packet<'nvr', 'update', Partial<ProtectNvr>>;
+
+export type PacketModelKey = ProtectPacket['modelKey'];
+
+export type PacketActionFor<K extends PacketModelKey> = Extract<ProtectPacket, { modelKey: K }>['action'];
+
+export type PacketOf<K extends PacketModelKey, A extends string> = Extract<ProtectPacket, { modelKey: K; action: A }>;
+
+export type PacketParseResult =
+  { status: 'valid'; packet: ProtectPacket } | { status: 'unknown' | 'invalid'; reason: string };
+
+type FieldRule = 'string' | 'string|null' | 'number' | 'number|null' | 'boolean' | 'object' | 'array' | 'string[]';
+
+interface PacketSchema {
+  actions: PacketAction[];
+  fields: Record<string, FieldRule>;
+  required?: string[]; // fields an add must include
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const FIELD_CHECKS: Record<FieldRule, (value: unknown) => boolean> = {
+  string: (value) => typeof value === 'string',
+  'string|null': (value) => value === null || typeof value === 'string',
+  number: isNumber,
+  'number|null': (value) => value === null || isNumber(value),
+  boolean: (value) => typeof value === 'boolean',
+  object: isObject,
+  array: Array.isArray,
+  'string[]': (value) => Array.isArray(value) && value.every((item) => typeof item === 'string'),
+};
+
+const DEVICE_FIELDS: Record<string, FieldRule> = { id: 'string', name: 'string', type: 'string', mac: 'string' };
+const DEVICE_ACTIONS: PacketAction[] = ['add', 'update', 'remove'];
+const DEVICE_REQUIRED = ['id', 'name', 'mac'];
+
+// Only the fields the plugin reads are checked, Protect sends plenty of others that are passed through untouched
+const PACKET_SCHEMAS: Record<PacketModelKey, PacketSchema> = {
+  camera: {
+    actions: DEVICE_ACTIONS,
+    required: DEVICE_REQUIRED,
+    fields: {
+      ...DEVICE_FIELDS,
+      state: 'string',
+      lastMotion: 'number|null',
+      lastRing: 'number|null',
+      lastSmartDetect: 'number|null',
+      smartDetectTypes: 'string[]',
+      privacyZones: 'array',
+      motionZones: 'array',
+      smartDetectZones: 'array',
+      hdrMode: 'boolean',
+      isMicEnabled: 'boolean',
+      micVolume: 'number',
+      ispSettings: 'object',
+      speakerSettings: 'object',
+      ledSettings: 'object',
+      recordingSettings: 'object',
+      featureFlags: 'object',
+    },
+  },
+  sensor: {
+    actions: DEVICE_ACTIONS,
+    required: DEVICE_REQUIRED,
+    fields: {
+      ...DEVICE_FIELDS,
+      mountType: 'string',
+      isOpened: 'boolean',
+      isMotionDetected: 'boolean',
+      leakDetectedAt: 'number|null',
+      batteryStatus: 'object',
+      stats: 'object',
+    },
+  },
+  light: {
+    actions: DEVICE_ACTIONS,
+    required: DEVICE_REQUIRED,
+    fields: {
+      ...DEVICE_FIELDS,
+      isLightOn: 'boolean',
+      isPirMotionDetected: 'boolean',
+      lastMotion: 'number|null',
+      lightOnSettings: 'object',
+      lightDeviceSettings: 'object',
+    },
+  },
+  chime: {
+    actions: DEVICE_ACTIONS,
+    required: DEVICE_REQUIRED,
+    fields: { ...DEVICE_FIELDS, volume: 'number', cameraIds: 'string[]' },
+  },
+  event: {
+    actions: ['add', 'update'],
+    required: ['type', 'start'],
+    fields: {
+      id: 'string',
+      type: 'string',
+      camera: 'string|null', // null for controller events, like a user signing in
+      start: 'number',
+      end: 'number|null',
+      smartDetectTypes: 'string[]',
+      metadata: 'object',
+    },
+  },
+  nvr: {
+    actions: ['update'],
+    fields: {
+      ...DEVICE_FIELDS,
+      version: 'string',
+      isRecordingDisabled: 'boolean',
+      storageStats: 'object',
+      systemInfo: 'object',
+    },
+  },
+};
+
+const isKnownModelKey = (modelKey: string): modelKey is PacketModelKey => Object.hasOwn(PACKET_SCHEMAS, modelKey);
+
+function validatePayload(schema: PacketSchema, action: PacketAction, payload: Record<string, unknown>): string | null {
+  if (action === 'add') {
+    const missing = schema.required?.find((field) => payload[field] === undefined);
+    if (missing) {
+      return `${missing} is missing`;
+    }
+  }
+
+  for (const [field, rule] of Object.entries(schema.fields)) {
+    const value = payload[field];
+    if (value !== undefined && !FIELD_CHECKS[rule](value)) {
+      return `${field} should be ${rule.replaceAll('|', ' or ')}, got ${JSON.stringify(value)}`;
+    }
+  }
+  return null;
+}
+
+// Turns a message decoded by unifi-protect ({ header, payload }) into a typed packet, so handlers never see payloads
+// of the wrong shape
+export function parsePacket(raw: unknown): PacketParseResult {
+  const header = isObject(raw) ? raw.header : undefined;
+  if (
+    !isObject(header) ||
+    typeof header.modelKey !== 'string' ||
+    typeof header.action !== 'string' ||
+    typeof header.id !== 'string'
+  ) {
+    return { status: 'invalid', reason: 'missing or malformed action header' };
+  }
+
+  const { modelKey, action, id } = header;
+  const name = `${modelKey} ${action}`;
+  if (!isKnownModelKey(modelKey) || !(PACKET_SCHEMAS[modelKey].actions as string[]).includes(action)) {
+    return { status: 'unknown', reason: name };
+  }
+
+  // Removes don't always come with a payload, and don't need one
+  const payload = (raw as Record<string, unknown>).payload ?? (action === 'remove' ? {} : undefined);
+  if (!isObject(payload)) {
+    return { status: 'invalid', reason: `${name} for ${id} has no payload` };
+  }
+
+  const error = validatePayload(PACKET_SCHEMAS[modelKey], action as PacketAction, payload);
+  if (error) {
+    return { status: 'invalid', reason: `${name} for ${id}: ${error}` };
+  }
+
+  return { status: 'valid', packet: { modelKey, action, id, payload } as ProtectPacket };
+}
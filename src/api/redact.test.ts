@@ -0,0 +1,60 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createMockLogger } from '../test/mocks.js';
+import { createRedactingLogger, redact, registerSecret } from './redact.js';
+
+describe('redact', () => {
+  it('should replace every registered secret', () => {
+    registerSecret('first-secret');
+    registerSecret('second-secret');
+
+    expect(redact('first-secret and second-secret, first-secret again')).toBe('******** and ********, ******** again');
+  });
+
+  it('should only replace short secrets in password and API key fields', () => {
+    registerSecret('1234');
+
+    expect(redact('Camera 1234 at port 1234')).toBe('Camera 1234 at port 1234');
+    expect(redact(`{"username":"admin","password":"1234"}`)).toBe(`{"username":"admin","password":"********"}`);
+    expect(redact(`{ 'X-API-KEY': '1234' }`)).toBe(`{ 'X-API-KEY': '********' }`);
+  });
+
+  it('should ignore empty secrets', () => {
+    registerSecret('');
+    registerSecret(undefined);
+
+    expect(redact('nothing to hide')).toBe('nothing to hide');
+  });
+});
+
+describe('createRedactingLogger', () => {
+  it('should redact messages and string parameters', () => {
+    registerSecret('logged-secret');
+    const log = createMockLogger();
+
+    createRedactingLogger(log).warn('Login with logged-secret failed:', 'password logged-secret');
+
+    expect(log.warn).toHaveBeenCalledWith('Login with ******** failed:', 'password ********');
+  });
+
+  it('should replace errors holding a secret with their redacted text', () => {
+    registerSecret('nested-secret');
+    const log = createMockLogger();
+    const error = new Error('Request failed', { cause: { headers: { password: 'nested-secret' } } });
+
+    createRedactingLogger(log).error('Request failed:', error);
+
+    const [[, logged]] = vi.mocked(log.error).mock.calls;
+    expect(logged).toEqual(expect.stringContaining('Request failed'));
+    expect(logged).not.toContain('nested-secret');
+  });
+
+  it('should pass other parameters through unchanged', () => {
+    const log = createMockLogger();
+    const error = new Error('Timed out');
+
+    createRedactingLogger(log).debug('Request failed:', error, 42);
+
+    expect(log.debug).toHaveBeenCalledWith('Request failed:', error, 42);
+  });
+});
@@ -0,0 +1,58 @@
+import { inspect } from 'node:util';
+
+import type { ProtectLogging } from 'unifi-protect';
+
+const REDACTED = '********';
+
+// Shorter secrets, like a password of 1234, would also hide unrelated text wherever they appear, so they're only
+// hidden in the fields below
+const MIN_SECRET_LENGTH = 6;
+
+// Password and API key fields in JSON, inspected objects and headers, whatever their value
+const SECRET_FIELDS = /((?:password|apiKey|x-api-key)['"]?\s*[:=]\s*['"])[^'"]*(['"])/gi;
+
+// Shared by every client, so errors created anywhere are cleaned of any controller's password
+const secrets = new Set<string>();
+
+export function registerSecret(secret: string | undefined): void {
+  if (secret && secret.length >= MIN_SECRET_LENGTH) {
+    secrets.add(secret);
+  }
+}
+
+export function redact(text: string): string {
+  let redacted = text.replace(SECRET_FIELDS, `$1${REDACTED}$2`);
+  for (const secret of secrets) {
+    redacted = redacted.replaceAll(secret, REDACTED);
+  }
+  return redacted;
+}
+
+// Errors and objects are only replaced by their redacted text when a secret hides in them, in a stack, a cause or
+// a request option, so they're otherwise logged as they are
+function redactParameter(parameter: unknown): unknown {
+  if (typeof parameter === 'string') {
+    return redact(parameter);
+  }
+  if (typeof parameter === 'object' && parameter !== null) {
+    const text = inspect(parameter);
+    const redacted = redact(text);
+    return redacted === text ? parameter : redacted;
+  }
+  return parameter;
+}
+
+export function createRedactingLogger(log: ProtectLogging): ProtectLogging {
+  const wrap =
+    (write: (message: string, ...parameters: unknown[]) => void) =>
+    (message: string, ...parameters: unknown[]): void => {
+      write(redact(message), ...parameters.map(redactParameter));
+    };
+
+  return {
+    info: wrap(log.info.bind(log)),
+    warn: wrap(log.warn.bind(log)),
+    error: wrap(log.error.bind(log)),
+    debug: wrap(log.debug.bind(log)),
+  };
+}
@@ -1,31 +1,173 @@
+export type RecordingMode = 'always' | 'detections' | 'never';
+
+// Protect also has custom modes, which none of the HomeKit controls match
+export type IrLedMode = 'auto' | 'on' | 'off';
+
+export type SmartDetectType = 'person' | 'vehicle' | 'animal' | 'package' | 'face' | 'licensePlate';
+
 export interface ProtectCamera {
   id: string;
   name: string;
   type: string;
   mac: string;
   host: string;
+  state?: string; // CONNECTED, CONNECTING or DISCONNECTED
   lastMotion: number | null;
+  lastRing?: number | null;
+  lastSmartDetect?: number | null;
+  smartDetectTypes?: SmartDetectType[];
+  privacyZones?: PrivacyZone[];
+  hdrMode?: boolean;
+  isMicEnabled?: boolean;
+  micVolume?: number; // 0-100
+  ispSettings?: IspSettings;
+  speakerSettings?: SpeakerSettings;
+  motionZones?: MotionZone[];
+  smartDetectZones?: SmartDetectZone[];
+  featureFlags?: {
+    hasPrivacyMask?: boolean;
+    hasHdr?: boolean;
+    hasLedIr?: boolean;
+    hasLedStatus?: boolean;
+    hasMic?: boolean;
+    hasSpeaker?: boolean;
+    isDoorbell?: boolean;
+    smartDetectTypes?: SmartDetectType[];
+  };
   ledSettings?: {
     isEnabled: boolean;
     blinkRate: number;
   };
   recordingSettings?: {
     enableMotionDetection: boolean;
+    mode?: RecordingMode;
   };
 }
 
-export interface ProtectBootstrap {
-  cameras: ProtectCamera[];
-  lastUpdateId: string;
+export interface PrivacyZone {
+  id: number;
+  name: string;
+  color: string;
+  points: [number, number][];
+}
+
+export interface MotionZone {
+  id: number;
+  name: string;
+  color: string;
+  points: [number, number][];
+  sensitivity: number;
+}
+
+export interface SmartDetectZone extends MotionZone {
+  objectTypes?: SmartDetectType[];
+}
+
+export interface ProtectEvent {
+  id: string;
+  type: string;
+  camera?: string | null;
+  start: number;
+  end?: number | null;
+  smartDetectTypes?: SmartDetectType[];
+  metadata?: ProtectEventMetadata;
+}
+
+// Zone IDs refer to the camera's motionZones for motion events and smartDetectZones for smart detections
+export interface ProtectEventMetadata {
+  detectedAreas?: {
+    areaIndexes: number[];
+    smartDetectObject?: string;
+  }[];
+  detectedThumbnails?: {
+    type?: string;
+    attributes?: { zone?: number[] };
+  }[];
+  zonesStatus?: Record<string, { level: number; status?: string }>;
+}
+
+export interface ProtectDevice {
+  id: string;
+  name: string;
+  type: string;
+  mac: string;
+}
+
+export interface ProtectSensor extends ProtectDevice {
+  mountType?: 'door' | 'window' | 'garage' | 'leak' | 'none';
+  isOpened?: boolean;
+  isMotionDetected?: boolean;
+  leakDetectedAt?: number | null;
+  batteryStatus?: {
+    isLow: boolean;
+    percentage: number | null;
+  };
+  stats?: {
+    humidity?: { value: number | null };
+    light?: { value: number | null };
+    temperature?: { value: number | null };
+  };
+  motionSettings?: { isEnabled: boolean };
+  humiditySettings?: { isEnabled: boolean };
+  lightSettings?: { isEnabled: boolean };
+  temperatureSettings?: { isEnabled: boolean };
+  leakSettings?: {
+    isExternalEnabled: boolean;
+    isInternalEnabled: boolean;
+  };
+}
+
+export interface ProtectLight extends ProtectDevice {
+  isLightOn?: boolean;
+  isPirMotionDetected?: boolean;
+  lastMotion?: number | null;
+  lightOnSettings?: LightOnSettings;
+  lightDeviceSettings?: LightDeviceSettings;
+}
+
+export interface ProtectChime extends ProtectDevice {
+  volume?: number;
+  cameraIds?: string[];
 }
 
-export interface ProtectEventPacket {
-  action?: {
-    action: string;
-    modelKey: string;
-    id: string;
+export interface ProtectNvr {
+  id: string;
+  name: string;
+  type: string;
+  mac: string;
+  version?: string;
+  isRecordingDisabled?: boolean;
+  storageStats?: {
+    utilization?: number; // percent
+  };
+  systemInfo?: {
+    cpu?: {
+      averageLoad: number;
+      temperature: number;
+    };
+    storage?: {
+      size: number;
+      used: number;
+      devices?: { model: string; healthy: boolean }[];
+    };
   };
-  payload?: Partial<ProtectCamera>;
+}
+
+export interface ProtectUser {
+  id: string;
+  name?: string;
+  allPermissions?: string[]; // e.g. camera:read,write:*, combined from the user's roles and groups
+}
+
+export interface ProtectBootstrap {
+  nvr?: ProtectNvr;
+  cameras: ProtectCamera[];
+  sensors?: ProtectSensor[];
+  lights?: ProtectLight[];
+  chimes?: ProtectChime[];
+  users?: ProtectUser[];
+  authUserId?: string; // the logged in user
+  lastUpdateId: string;
 }
 
 export interface LedSettings {
@@ -33,6 +175,29 @@ export interface LedSettings {
   blinkRate?: number;
 }
 
+export interface IspSettings {
+  irLedMode: IrLedMode;
+}
+
+export interface SpeakerSettings {
+  isEnabled: boolean;
+  volume: number; // 0-100
+}
+
+export interface MicrophoneSettings {
+  isMicEnabled?: boolean;
+  micVolume?: number; // 0-100
+}
+
 export interface RecordingSettings {
-  enableMotionDetection: boolean;
+  enableMotionDetection?: boolean;
+  mode?: RecordingMode;
+}
+
+export interface LightOnSettings {
+  isLedForceOn: boolean;
+}
+
+export interface LightDeviceSettings {
+  ledLevel: number; // 1-6
 }
@@ -0,0 +1,890 @@
+import type { API, PlatformAccessory, Service } from 'homebridge';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { ProtectClient } from './api/client.js';
+import type { PrivacyZone } from './api/types.js';
+import { CameraAccessory } from './camera-accessory.js';
+import { PluginMetrics } from './metrics.js';
+import type { ProtectMotionPlatform } from './platform.js';
+import { Schedule } from './schedules.js';
+import type { CameraConfig, ScheduleConfig } from './settings.js';
+import {
+  createMockAccessory,
+  createMockAPI,
+  createMockCamera,
+  createMockLogger,
+  createMockPlatform,
+} from './test/mocks.js';
+
+describe('CameraAccessory', () => {
+  let api: API;
+  let platform: ProtectMotionPlatform;
+  let client: ProtectClient;
+  let accessory: PlatformAccessory;
+
+  const createAccessory = (
+    cameraConfig?: CameraConfig,
+    cameraOverrides: Record<string, unknown> = {},
+  ): CameraAccessory => {
+    accessory.context.camera = createMockCamera(cameraOverrides);
+    return new CameraAccessory(platform, accessory, client, 10, cameraConfig);
+  };
+
+  const getService = (type: string, subtype: string): Service =>
+    accessory.getServiceById(type as never, subtype) as Service;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    api = createMockAPI();
+    platform = createMockPlatform(api, {
+      publishCameraEvent: vi.fn(),
+      publishCameraState: vi.fn(),
+      getCameraEvents: vi.fn(() => []),
+    });
+    client = {
+      updateCameraLed: vi.fn().mockResolvedValue(true),
+      updateCameraMotionDetection: vi.fn().mockResolvedValue(true),
+      updateCameraRecordingMode: vi.fn().mockResolvedValue(true),
+      onStateChange: vi.fn(() => vi.fn()),
+      canControl: vi.fn(() => true),
+      isConnected: true,
+      connectionState: 'connected',
+    } as unknown as ProtectClient;
+    accessory = createMockAccessory('Test Camera', 'uuid-1');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should create the default services', () => {
+    createAccessory();
+
+    expect(getService('MotionSensor', 'motion-sensor')).toBeDefined();
+    expect(getService('Switch', 'motion-switch')).toBeDefined();
+    expect(getService('Switch', 'led-switch')).toBeDefined();
+    expect(getService('Switch', 'privacy-switch')).toBeDefined();
+    expect(accessory.services).toHaveLength(4);
+  });
+
+  it('should leave out switches disabled in the camera config', () => {
+    createAccessory();
+    createAccessory({ camera: 'camera-1', motionSwitch: false, ledSwitch: false });
+
+    expect(getService('MotionSensor', 'motion-sensor')).toBeDefined();
+    expect(getService('Switch', 'motion-switch')).toBeUndefined();
+    expect(getService('Switch', 'led-switch')).toBeUndefined();
+  });
+
+  it('should leave out the LED switch for cameras without a status LED', () => {
+    createAccessory(undefined, { featureFlags: { hasLedStatus: false } });
+
+    expect(getService('Switch', 'led-switch')).toBeUndefined();
+  });
+
+  describe('reduced permissions', () => {
+    beforeEach(() => {
+      vi.mocked(client.canControl).mockReturnValue(false);
+    });
+
+    it('should show the main switches as read-only', () => {
+      createAccessory();
+
+      for (const subtype of ['motion-switch', 'led-switch']) {
+        expect(getService('Switch', subtype).getCharacteristic('On' as never).setProps).toHaveBeenCalledWith({
+          perms: ['pr', 'ev'],
+        });
+      }
+    });
+
+    it('should leave out controls that only change settings', () => {
+      createAccessory(
+        { camera: 'camera-1', recordingSwitches: true, hdrSwitch: true },
+        { featureFlags: { hasHdr: true, hasPrivacyMask: true } },
+      );
+
+      expect(getService('Switch', 'privacy-switch')).toBeUndefined();
+      expect(getService('Switch', 'recording-always')).toBeUndefined();
+      expect(getService('Switch', 'hdr-switch')).toBeUndefined();
+      expect(accessory.services).toHaveLength(3);
+    });
+  });
+
+  describe('API key login', () => {
+    beforeEach(() => {
+      Object.assign(client, { usesApiKey: true });
+    });
+
+    it('should keep the controls the integration API can change', () => {
+      createAccessory(
+        { camera: 'camera-1', recordingSwitches: true, hdrSwitch: true, ledBlinkSwitch: true },
+        { featureFlags: { hasHdr: true, hasLedStatus: true, hasPrivacyMask: true } },
+      );
+
+      expect(getService('Switch', 'led-switch').getCharacteristic('On' as never).setProps).toHaveBeenCalledWith({
+        perms: ['pr', 'pw', 'ev'],
+      });
+      expect(getService('Switch', 'motion-switch').getCharacteristic('On' as never).setProps).toHaveBeenCalledWith({
+        perms: ['pr', 'ev'],
+      });
+      expect(getService('Switch', 'hdr-switch')).toBeDefined();
+      expect(getService('Switch', 'privacy-switch')).toBeUndefined();
+      expect(getService('Switch', 'recording-always')).toBeUndefined();
+      expect(getService('Switch', 'led-blink-switch')).toBeUndefined();
+    });
+  });
+
+  describe('smart detection', () => {
+    it('should add a sensor per configured type', () => {
+      createAccessory({ camera: 'camera-1', smartDetectTypes: ['person', 'vehicle'] });
+
+      expect(getService('MotionSensor', 'smart-person')).toBeDefined();
+      expect(getService('MotionSensor', 'smart-vehicle')).toBeDefined();
+      expect(getService('MotionSensor', 'smart-animal')).toBeUndefined();
+    });
+
+    it('should skip types the camera does not support', () => {
+      createAccessory(
+        { camera: 'camera-1', smartDetectTypes: ['person', 'licensePlate'] },
+        { featureFlags: { smartDetectTypes: ['person'] } },
+      );
+
+      expect(getService('MotionSensor', 'smart-person')).toBeDefined();
+      expect(getService('MotionSensor', 'smart-licensePlate')).toBeUndefined();
+      expect(platform.log.warn).toHaveBeenCalled();
+    });
+
+    it('should remove sensors that are no longer configured', () => {
+      createAccessory({ camera: 'camera-1', smartDetectTypes: ['person', 'animal'] });
+      createAccessory({ camera: 'camera-1', smartDetectTypes: ['person'] });
+
+      expect(getService('MotionSensor', 'smart-person')).toBeDefined();
+      expect(getService('MotionSensor', 'smart-animal')).toBeUndefined();
+    });
+
+    it('should only trigger the sensor for the detected type and reset it after the motion duration', () => {
+      const cameraAccessory = createAccessory({ camera: 'camera-1', smartDetectTypes: ['person', 'vehicle'] });
+      const person = getService('MotionSensor', 'smart-person');
+      const vehicle = getService('MotionSensor', 'smart-vehicle');
+      vi.mocked(person.updateCharacteristic).mockClear();
+      vi.mocked(vehicle.updateCharacteristic).mockClear();
+
+      cameraAccessory.handleSmartDetectEvent(['person'], 1000);
+
+      expect(person.updateCharacteristic).toHaveBeenLastCalledWith('MotionDetected', true);
+      expect(vehicle.updateCharacteristic).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(10_000);
+
+      expect(person.updateCharacteristic).toHaveBeenLastCalledWith('MotionDetected', false);
+    });
+
+    it('should ignore detections that are not newer than the last one', () => {
+      const cameraAccessory = createAccessory({ camera: 'camera-1', smartDetectTypes: ['person'] });
+      const person = getService('MotionSensor', 'smart-person');
+
+      cameraAccessory.handleSmartDetectEvent(['person'], 1000);
+      vi.mocked(person.updateCharacteristic).mockClear();
+      cameraAccessory.handleSmartDetectEvent(['person'], 1000);
+
+      expect(person.updateCharacteristic).not.toHaveBeenCalled();
+    });
+
+    it('should ignore detections while motion is disabled', () => {
+      const cameraAccessory = createAccessory(
+        { camera: 'camera-1', smartDetectTypes: ['person'] },
+        { recordingSettings: { enableMotionDetection: false } },
+      );
+      const person = getService('MotionSensor', 'smart-person');
+      vi.mocked(person.updateCharacteristic).mockClear();
+
+      cameraAccessory.handleSmartDetectEvent(['person'], 1000);
+
+      expect(person.updateCharacteristic).not.toHaveBeenCalledWith('MotionDetected', true);
+    });
+
+    it('should use occupancy sensors when configured', () => {
+      const cameraAccessory = createAccessory({
+        camera: 'camera-1',
+        smartDetectTypes: ['package'],
+        smartDetectSensor: 'occupancy',
+      });
+      const pkg = getService('OccupancySensor', 'smart-package');
+
+      cameraAccessory.handleSmartDetectEvent(['package'], 1000);
+
+      expect(pkg.updateCharacteristic).toHaveBeenLastCalledWith(api.hap.Characteristic.OccupancyDetected, 1);
+    });
+  });
+
+  describe('zone sensors', () => {
+    const zones = {
+      motionZones: [
+        { id: 0, name: 'Driveway', color: '#ffffff', points: [], sensitivity: 50 },
+        { id: 1, name: 'Sidewalk', color: '#ffffff', points: [], sensitivity: 50 },
+      ],
+    };
+
+    it('should add a sensor per configured zone and remove stale ones', () => {
+      createAccessory({ camera: 'camera-1', zoneSensors: ['Driveway', 'Sidewalk'] }, zones);
+      createAccessory({ camera: 'camera-1', zoneSensors: ['Driveway'] }, zones);
+
+      expect(getService('MotionSensor', 'zone-driveway')).toBeDefined();
+      expect(getService('MotionSensor', 'zone-sidewalk')).toBeUndefined();
+    });
+
+    it('should warn about zones the camera does not have', () => {
+      createAccessory({ camera: 'camera-1', zoneSensors: ['Backyard'] }, zones);
+
+      expect(platform.log.warn).toHaveBeenCalledWith(
+        'Test Camera has no motion or smart detection zone named "Backyard"',
+      );
+    });
+
+    it('should trigger and reset each zone independently', () => {
+      const cameraAccessory = createAccessory({ camera: 'camera-1', zoneSensors: ['Driveway', 'Sidewalk'] }, zones);
+      const driveway = getService('MotionSensor', 'zone-driveway');
+      const sidewalk = getService('MotionSensor', 'zone-sidewalk');
+
+      cameraAccessory.handleZoneEvent('motion', [1]);
+
+      expect(sidewalk.updateCharacteristic).toHaveBeenLastCalledWith('MotionDetected', true);
+      expect(driveway.updateCharacteristic).not.toHaveBeenCalledWith('MotionDetected', true);
+
+      vi.advanceTimersByTime(5_000);
+      cameraAccessory.handleZoneEvent('motion', [0]);
+      vi.advanceTimersByTime(5_000);
+
+      expect(sidewalk.updateCharacteristic).toHaveBeenLastCalledWith('MotionDetected', false);
+      expect(driveway.updateCharacteristic).toHaveBeenLastCalledWith('MotionDetected', true);
+    });
+
+    it('should follow zones renamed in Protect', () => {
+      const cameraAccessory = createAccessory({ camera: 'camera-1', zoneSensors: ['Driveway'] }, zones);
+
+      cameraAccessory.handleZonesUpdate({
+        motionZones: [{ id: 2, name: 'Driveway', color: '#ffffff', points: [], sensitivity: 50 }],
+      });
+      cameraAccessory.handleZoneEvent('motion', [2]);
+
+      expect(getService('MotionSensor', 'zone-driveway').updateCharacteristic).toHaveBeenLastCalledWith(
+        'MotionDetected',
+        true,
+      );
+    });
+
+    it('should ignore zone motion while motion is disabled', () => {
+      const cameraAccessory = createAccessory(
+        { camera: 'camera-1', zoneSensors: ['Driveway'] },
+        { ...zones, recordingSettings: { enableMotionDetection: false } },
+      );
+
+      cameraAccessory.handleZoneEvent('motion', [0]);
+
+      expect(getService('MotionSensor', 'zone-driveway').updateCharacteristic).not.toHaveBeenCalledWith(
+        'MotionDetected',
+        true,
+      );
+    });
+  });
+
+  describe('recording mode', () => {
+    const onSetHandler = (service: Service): ((value: boolean) => Promise<void>) => {
+      const characteristic = service.getCharacteristic('On' as never);
+      return vi.mocked(characteristic.onSet).mock.calls[0][0] as (value: boolean) => Promise<void>;
+    };
+
+    it('should not add recording switches unless enabled', () => {
+      createAccessory();
+
+      expect(getService('Switch', 'recording-always')).toBeUndefined();
+    });
+
+    it('should change the recording mode and turn the other switches off', async () => {
+      createAccessory({ camera: 'camera-1', recordingSwitches: true }, { recordingSettings: { mode: 'always' } });
+      const always = getService('Switch', 'recording-always');
+      const never = getService('Switch', 'recording-never');
+
+      await onSetHandler(never)(true);
+      vi.advanceTimersByTime(100);
+
+      expect(client.updateCameraRecordingMode).toHaveBeenCalledWith(expect.anything(), 'never');
+      expect(always.updateCharacteristic).toHaveBeenLastCalledWith('On', false);
+      expect(never.updateCharacteristic).toHaveBeenLastCalledWith('On', true);
+    });
+
+    it('should keep the active mode on when its switch is turned off', async () => {
+      createAccessory({ camera: 'camera-1', recordingSwitches: true }, { recordingSettings: { mode: 'always' } });
+      const always = getService('Switch', 'recording-always');
+
+      await onSetHandler(always)(false);
+      vi.advanceTimersByTime(100);
+
+      expect(client.updateCameraRecordingMode).not.toHaveBeenCalled();
+      expect(always.updateCharacteristic).toHaveBeenLastCalledWith('On', true);
+    });
+
+    it('should sync the switches when the mode changes in Protect', () => {
+      const cameraAccessory = createAccessory({ camera: 'camera-1', recordingSwitches: true });
+      const detections = getService('Switch', 'recording-detections');
+
+      cameraAccessory.handleRecordingModeUpdate('detections');
+
+      expect(detections.updateCharacteristic).toHaveBeenLastCalledWith('On', true);
+    });
+  });
+
+  describe('privacy mode', () => {
+    const existingZone: PrivacyZone = { id: 1, name: 'Neighbour', color: '#ff0000', points: [[0, 0]] };
+
+    const onSetHandler = (service: Service): ((value: boolean) => Promise<void>) => {
+      const characteristic = service.getCharacteristic('On' as never);
+      return vi.mocked(characteristic.onSet).mock.calls[0][0] as (value: boolean) => Promise<void>;
+    };
+
+    beforeEach(() => {
+      Object.assign(client, { updateCameraPrivacyZones: vi.fn().mockResolvedValue(true) });
+    });
+
+    it('should not add a privacy switch to cameras without privacy mask support', () => {
+      createAccessory(undefined, { featureFlags: { hasPrivacyMask: false } });
+
+      expect(getService('Switch', 'privacy-switch')).toBeUndefined();
+    });
+
+    it('should replace the zones with a full-frame zone and keep the previous ones', async () => {
+      createAccessory(undefined, { privacyZones: [existingZone] });
+
+      await onSetHandler(getService('Switch', 'privacy-switch'))(true);
+
+      const [, zones] = vi.mocked(client.updateCameraPrivacyZones).mock.calls[0];
+      expect(zones).toHaveLength(1);
+      expect(zones[0].points).toEqual([
+        [0, 0],
+        [1, 0],
+        [1, 1],
+        [0, 1],
+      ]);
+      expect(accessory.context.savedPrivacyZones).toEqual([existingZone]);
+    });
+
+    it('should restore the saved zones exactly when turned off, even after a restart', async () => {
+      createAccessory(undefined, { privacyZones: [existingZone] });
+      await onSetHandler(getService('Switch', 'privacy-switch'))(true);
+      const [, privacyZones] = vi.mocked(client.updateCameraPrivacyZones).mock.calls[0];
+
+      // Simulate a restart with privacy still on
+      vi.mocked(client.updateCameraPrivacyZones).mockClear();
+      createAccessory(undefined, { privacyZones });
+      await onSetHandler(getService('Switch', 'privacy-switch'))(false);
+
+      expect(client.updateCameraPrivacyZones).toHaveBeenCalledWith(expect.anything(), [existingZone]);
+      expect(accessory.context.savedPrivacyZones).toBeUndefined();
+    });
+
+    it('should sync the switch from privacy zone updates', () => {
+      const cameraAccessory = createAccessory(undefined, { privacyZones: [existingZone] });
+      const privacySwitch = getService('Switch', 'privacy-switch');
+
+      cameraAccessory.handlePrivacyZonesUpdate([{ ...existingZone, name: 'Homebridge Privacy' }]);
+
+      expect(privacySwitch.updateCharacteristic).toHaveBeenLastCalledWith('On', true);
+    });
+  });
+
+  describe('hardware controls', () => {
+    const features = {
+      featureFlags: { hasLedIr: true, hasHdr: true, hasLedStatus: true, hasSpeaker: true, hasMic: true },
+    };
+    const allControls: CameraConfig = {
+      camera: 'camera-1',
+      nightVisionSwitches: true,
+      hdrSwitch: true,
+      ledBlinkSwitch: true,
+      volumeControls: true,
+    };
+
+    const onSetHandler = (service: Service, characteristic = 'On'): ((value: unknown) => Promise<void>) =>
+      vi.mocked(service.getCharacteristic(characteristic as never).onSet).mock.calls[0][0] as (
+        value: unknown,
+      ) => Promise<void>;
+
+    beforeEach(() => {
+      Object.assign(client, {
+        updateCameraNightVision: vi.fn().mockResolvedValue(true),
+        updateCameraHdr: vi.fn().mockResolvedValue(true),
+        updateCameraSpeaker: vi.fn().mockResolvedValue(true),
+        updateCameraMicrophone: vi.fn().mockResolvedValue(true),
+        updateCameraLedBlink: vi.fn().mockResolvedValue(true),
+      });
+    });
+
+    it('should only add controls the camera supports', () => {
+      createAccessory(allControls, { featureFlags: { hasLedIr: true, hasSpeaker: true } });
+
+      expect(getService('Switch', 'night-vision-auto')).toBeDefined();
+      expect(getService('Lightbulb', 'speaker-volume')).toBeDefined();
+      expect(getService('Switch', 'hdr-switch')).toBeUndefined();
+      expect(getService('Switch', 'led-blink-switch')).toBeUndefined();
+      expect(getService('Lightbulb', 'microphone-volume')).toBeUndefined();
+    });
+
+    it('should remove controls that are no longer enabled', () => {
+      createAccessory(allControls, features);
+      createAccessory({ camera: 'camera-1' }, features);
+
+      expect(getService('Switch', 'night-vision-on')).toBeUndefined();
+      expect(getService('Lightbulb', 'speaker-volume')).toBeUndefined();
+    });
+
+    it('should change the night vision mode and turn the other switches off', async () => {
+      createAccessory(allControls, { ...features, ispSettings: { irLedMode: 'auto' } });
+      const auto = getService('Switch', 'night-vision-auto');
+      const off = getService('Switch', 'night-vision-off');
+
+      await onSetHandler(off)(true);
+      vi.advanceTimersByTime(100);
+
+      expect(client.updateCameraNightVision).toHaveBeenCalledWith(expect.anything(), 'off');
+      expect(auto.updateCharacteristic).toHaveBeenLastCalledWith('On', false);
+      expect(off.updateCharacteristic).toHaveBeenLastCalledWith('On', true);
+    });
+
+    it('should set the speaker volume and keep it enabled', async () => {
+      createAccessory(allControls, { ...features, speakerSettings: { isEnabled: true, volume: 80 } });
+      const speaker = getService('Lightbulb', 'speaker-volume');
+
+      await onSetHandler(speaker, 'Brightness')(40);
+      vi.advanceTimersByTime(100);
+
+      expect(client.updateCameraSpeaker).toHaveBeenCalledWith(expect.anything(), { isEnabled: true, volume: 40 });
+      expect(speaker.updateCharacteristic).toHaveBeenLastCalledWith('Brightness', 40);
+    });
+
+    it('should revert the control when the update fails', async () => {
+      vi.mocked(client.updateCameraHdr).mockResolvedValue(false);
+      createAccessory(allControls, { ...features, hdrMode: false });
+      const hdr = getService('Switch', 'hdr-switch');
+
+      await onSetHandler(hdr)(true);
+      vi.advanceTimersByTime(100);
+
+      expect(hdr.updateCharacteristic).toHaveBeenLastCalledWith('On', false);
+    });
+
+    it('should blink the status LED without changing whether it is on', async () => {
+      createAccessory(allControls, { ...features, ledSettings: { isEnabled: true, blinkRate: 0 } });
+      const blink = getService('Switch', 'led-blink-switch');
+
+      await onSetHandler(blink)(true);
+      vi.advanceTimersByTime(100);
+
+      expect(client.updateCameraLedBlink).toHaveBeenCalledWith(expect.anything(), expect.any(Number), true);
+      expect(blink.updateCharacteristic).toHaveBeenLastCalledWith('On', true);
+      expect(getService('Switch', 'led-switch').updateCharacteristic).not.toHaveBeenCalledWith('On', false);
+    });
+
+    it('should keep the status LED off when blinking after turning it off', async () => {
+      const cameraAccessory = createAccessory(allControls, {
+        ...features,
+        ledSettings: { isEnabled: true, blinkRate: 0 },
+      });
+      const blink = getService('Switch', 'led-blink-switch');
+
+      await cameraAccessory.setLedEnabled(false);
+      await onSetHandler(blink)(true);
+
+      expect(client.updateCameraLedBlink).toHaveBeenCalledWith(expect.anything(), expect.any(Number), false);
+      expect(cameraAccessory.state.ledEnabled).toBe(false);
+    });
+
+    it('should sync the controls when settings change in Protect', () => {
+      const cameraAccessory = createAccessory(allControls, { ...features, isMicEnabled: true, micVolume: 50 });
+      const microphone = getService('Lightbulb', 'microphone-volume');
+      const on = getService('Switch', 'night-vision-on');
+
+      cameraAccessory.handleHardwareSettingsUpdate({ micVolume: 75, ispSettings: { irLedMode: 'on' } });
+
+      expect(microphone.updateCharacteristic).toHaveBeenCalledWith('Brightness', 75);
+      expect(microphone.updateCharacteristic).toHaveBeenCalledWith('On', true);
+      expect(on.updateCharacteristic).toHaveBeenLastCalledWith('On', true);
+    });
+  });
+
+  describe('doorbell', () => {
+    it('should not add a doorbell service to regular cameras', () => {
+      createAccessory();
+
+      expect(getService('Doorbell', 'doorbell')).toBeUndefined();
+    });
+
+    it('should fire a single press for each new ring', () => {
+      const cameraAccessory = createAccessory(undefined, { featureFlags: { isDoorbell: true } });
+      const doorbell = getService('Doorbell', 'doorbell');
+
+      cameraAccessory.handleRingEvent(10_000);
+      cameraAccessory.handleRingEvent(10_000);
+      cameraAccessory.handleRingEvent(20_000);
+
+      expect(doorbell.updateCharacteristic).toHaveBeenCalledTimes(2);
+      expect(doorbell.updateCharacteristic).toHaveBeenCalledWith(api.hap.Characteristic.ProgrammableSwitchEvent, 0);
+    });
+
+    it('should fire once for a ring reported by both the camera and its event', () => {
+      const cameraAccessory = createAccessory(undefined, { featureFlags: { isDoorbell: true } });
+      const doorbell = getService('Doorbell', 'doorbell');
+
+      cameraAccessory.handleRingEvent(10_000);
+      cameraAccessory.handleRingEvent(9_950);
+      cameraAccessory.handleRingEvent(10_200);
+
+      expect(doorbell.updateCharacteristic).toHaveBeenCalledTimes(1);
+    });
+
+    it('should replace the doorbell with a programmable switch when configured', () => {
+      createAccessory(undefined, { featureFlags: { isDoorbell: true } });
+      createAccessory({ camera: 'camera-1', doorbellService: 'switch' }, { featureFlags: { isDoorbell: true } });
+
+      expect(getService('Doorbell', 'doorbell')).toBeUndefined();
+      expect(getService('StatelessProgrammableSwitch', 'doorbell')).toBeDefined();
+    });
+  });
+
+  describe('connection state', () => {
+    it('should report a fault on the motion sensor while the controller is disconnected', () => {
+      createAccessory();
+      const motionSensor = getService('MotionSensor', 'motion-sensor');
+      const stateHandler = vi.mocked(client.onStateChange).mock.calls[0][0];
+
+      Object.assign(client, { isConnected: false, connectionState: 'reconnecting' });
+      stateHandler('reconnecting');
+
+      expect(motionSensor.updateCharacteristic).toHaveBeenLastCalledWith(api.hap.Characteristic.StatusFault, 1);
+
+      Object.assign(client, { isConnected: true, connectionState: 'connected' });
+      stateHandler('connected');
+
+      expect(motionSensor.updateCharacteristic).toHaveBeenLastCalledWith(api.hap.Characteristic.StatusFault, 0);
+    });
+  });
+
+  describe('motion filtering', () => {
+    const motion = (cameraAccessory: CameraAccessory): void => cameraAccessory.handleMotionEvent(Date.now());
+
+    it('should only log when the sensor trips', () => {
+      const cameraAccessory = createAccessory();
+
+      motion(cameraAccessory);
+      vi.advanceTimersByTime(2_000);
+      motion(cameraAccessory);
+
+      expect(platform.log.info).toHaveBeenCalledTimes(1);
+      expect(platform.debugLog).toHaveBeenCalledWith('Motion continues on Test Camera');
+    });
+
+    it('should ignore motion during the cooldown after a reset', () => {
+      const cameraAccessory = createAccessory({ camera: 'camera-1', motionCooldown: 30 });
+
+      motion(cameraAccessory);
+      vi.advanceTimersByTime(15_000);
+      motion(cameraAccessory);
+
+      expect(cameraAccessory.state.motionDetected).toBe(false);
+      expect(platform.debugLog).toHaveBeenCalledWith('Motion on Test Camera within the 30s cooldown, ignoring');
+
+      vi.advanceTimersByTime(25_000);
+      motion(cameraAccessory);
+
+      expect(cameraAccessory.state.motionDetected).toBe(true);
+    });
+
+    it('should require enough events within the threshold window', () => {
+      const cameraAccessory = createAccessory({ camera: 'camera-1', motionThreshold: 3, motionThresholdWindow: 10 });
+
+      motion(cameraAccessory);
+      vi.advanceTimersByTime(6_000);
+      motion(cameraAccessory);
+      vi.advanceTimersByTime(6_000);
+      motion(cameraAccessory);
+
+      // The first event fell out of the window
+      expect(cameraAccessory.state.motionDetected).toBe(false);
+      expect(platform.debugLog).toHaveBeenCalledWith(
+        'Motion on Test Camera below threshold (2 of 3 events within 10s), ignoring',
+      );
+
+      vi.advanceTimersByTime(2_000);
+      motion(cameraAccessory);
+
+      expect(cameraAccessory.state.motionDetected).toBe(true);
+    });
+
+    it('should reset continuous motion after the maximum duration until it stops', () => {
+      const cameraAccessory = createAccessory({ camera: 'camera-1', maxMotionDuration: 20 });
+
+      for (let elapsed = 0; elapsed < 30_000; elapsed += 5_000) {
+        motion(cameraAccessory);
+        vi.advanceTimersByTime(5_000);
+      }
+
+      expect(cameraAccessory.state.motionDetected).toBe(false);
+      expect(platform.log.info).toHaveBeenCalledWith(
+        'Motion on Test Camera has continued for 20s, resetting the sensor until it stops',
+      );
+
+      vi.advanceTimersByTime(10_000);
+      motion(cameraAccessory);
+
+      expect(cameraAccessory.state.motionDetected).toBe(true);
+    });
+
+    it('should publish motion the filters ignore as suppressed', () => {
+      const cameraAccessory = createAccessory({ camera: 'camera-1', motionCooldown: 30 });
+
+      motion(cameraAccessory);
+      vi.advanceTimersByTime(15_000);
+      motion(cameraAccessory);
+
+      expect(vi.mocked(platform.publishCameraEvent).mock.calls.map(([event]) => event.suppressed)).toEqual([
+        false,
+        true,
+      ]);
+    });
+
+    it('should count received, triggered and suppressed motion', () => {
+      const metrics = new PluginMetrics();
+      Object.assign(platform, { metrics });
+      accessory.context.controllerAddress = '192.168.1.1';
+      const cameraAccessory = createAccessory({ camera: 'camera-1', motionCooldown: 30 });
+      const count = (outcome: string): number =>
+        metrics.motionEvents.get({ controller: '192.168.1.1', camera_id: 'camera-1', outcome });
+
+      motion(cameraAccessory);
+      vi.advanceTimersByTime(15_000);
+      motion(cameraAccessory);
+
+      expect(count('received')).toBe(2);
+      expect(count('triggered')).toBe(1);
+      expect(count('suppressed')).toBe(1);
+      expect(metrics.cameraInfo.get({ camera_id: 'camera-1', camera: 'Test Camera' })).toBe(1);
+    });
+  });
+
+  describe('camera state', () => {
+    it('should report a fault on its sensors while the camera is offline', () => {
+      const cameraAccessory = createAccessory({ camera: 'camera-1', smartDetectTypes: ['person'] });
+      const motionSensor = getService('MotionSensor', 'motion-sensor');
+      const personSensor = getService('MotionSensor', 'smart-person');
+
+      cameraAccessory.handleStateUpdate('DISCONNECTED');
+
+      expect(motionSensor.updateCharacteristic).toHaveBeenLastCalledWith(api.hap.Characteristic.StatusFault, 1);
+      expect(personSensor.updateCharacteristic).toHaveBeenLastCalledWith(api.hap.Characteristic.StatusFault, 1);
+      expect(platform.log.warn).toHaveBeenCalledWith('Test Camera is offline in UniFi Protect (disconnected)');
+
+      cameraAccessory.handleStateUpdate('CONNECTED');
+
+      expect(motionSensor.updateCharacteristic).toHaveBeenLastCalledWith(api.hap.Characteristic.StatusFault, 0);
+      expect(platform.log.info).toHaveBeenCalledWith('Test Camera is back online');
+    });
+  });
+
+  describe('quiet hours', () => {
+    const createScheduledAccessory = (config: Partial<ScheduleConfig> = {}): CameraAccessory => {
+      const schedule = Schedule.fromConfig(
+        { name: 'Night', start: '22:00', end: '07:00', ...config },
+        undefined,
+        createMockLogger(),
+      )!;
+      accessory.context.camera = createMockCamera();
+      return new CameraAccessory(platform, accessory, client, 10, undefined, [schedule]);
+    };
+
+    beforeEach(() => {
+      vi.setSystemTime(new Date(2024, 5, 21, 23, 0));
+    });
+
+    it('should show active quiet hours on a read-only switch', () => {
+      const cameraAccessory = createScheduledAccessory();
+      const quietHours = getService('Switch', 'quiet-hours');
+
+      expect(quietHours.getCharacteristic('On' as never).setProps).toHaveBeenCalledWith({ perms: ['pr', 'ev'] });
+      expect(quietHours.updateCharacteristic).toHaveBeenLastCalledWith('On', true);
+
+      cameraAccessory.updateSchedules(new Date(2024, 5, 22, 7, 0));
+
+      expect(quietHours.updateCharacteristic).toHaveBeenLastCalledWith('On', false);
+    });
+
+    it('should suppress motion while quiet hours are active', () => {
+      const cameraAccessory = createScheduledAccessory();
+
+      cameraAccessory.handleMotionEvent(Date.now());
+
+      expect(cameraAccessory.state.motionDetected).toBe(false);
+      expect(platform.publishCameraEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'motion', suppressed: true }),
+      );
+    });
+
+    it('should reroute motion to the quiet hours sensor', () => {
+      const cameraAccessory = createScheduledAccessory({ action: 'reroute' });
+      const quietMotion = getService('MotionSensor', 'quiet-motion');
+
+      cameraAccessory.handleMotionEvent(Date.now());
+
+      expect(cameraAccessory.state.motionDetected).toBe(false);
+      expect(quietMotion.updateCharacteristic).toHaveBeenLastCalledWith('MotionDetected', true);
+
+      vi.advanceTimersByTime(10_000);
+
+      expect(quietMotion.updateCharacteristic).toHaveBeenLastCalledWith('MotionDetected', false);
+    });
+
+    it('should change settings at window boundaries', async () => {
+      const cameraAccessory = createScheduledAccessory({ ledEnabled: false });
+
+      expect(client.updateCameraLed).toHaveBeenCalledWith(expect.anything(), false);
+      await vi.waitFor(() => expect(accessory.context.activeSchedules).toEqual(['Night']));
+
+      cameraAccessory.updateSchedules(new Date(2024, 5, 22, 7, 0));
+
+      expect(client.updateCameraLed).toHaveBeenLastCalledWith(expect.anything(), true);
+    });
+
+    it('should finish windows that ended during a restart', async () => {
+      accessory.context.activeSchedules = ['Night'];
+      vi.setSystemTime(new Date(2024, 5, 22, 12, 0));
+
+      createScheduledAccessory({ motionDetection: false });
+
+      expect(client.updateCameraMotionDetection).toHaveBeenCalledWith(expect.anything(), true);
+      await vi.waitFor(() => expect(accessory.context.activeSchedules).toEqual([]));
+    });
+
+    it('should retry settings that failed to change at the next check', async () => {
+      vi.mocked(client.updateCameraLed).mockResolvedValueOnce(false);
+      const cameraAccessory = createScheduledAccessory({ ledEnabled: false, motionDetection: false });
+
+      await vi.waitFor(() => expect(platform.log.warn).toHaveBeenCalledWith(expect.stringContaining('status LED')));
+      expect(client.updateCameraMotionDetection).toHaveBeenCalledTimes(1);
+      expect(accessory.context.activeSchedules ?? []).toEqual([]);
+
+      cameraAccessory.updateSchedules();
+
+      expect(client.updateCameraLed).toHaveBeenCalledTimes(2);
+      await vi.waitFor(() => expect(accessory.context.activeSchedules).toEqual(['Night']));
+    });
+  });
+
+  describe('external control', () => {
+    it('should update the LED switch when the LED is changed outside HomeKit', async () => {
+      const cameraAccessory = createAccessory();
+
+      await expect(cameraAccessory.setLedEnabled(false)).resolves.toBe(true);
+
+      expect(getService('Switch', 'led-switch').updateCharacteristic).toHaveBeenLastCalledWith('On', false);
+      expect(cameraAccessory.state.ledEnabled).toBe(false);
+    });
+
+    it('should trigger simulated motion like motion from Protect', () => {
+      const cameraAccessory = createAccessory();
+
+      cameraAccessory.simulateMotion();
+
+      expect(cameraAccessory.state.motionDetected).toBe(true);
+      expect(platform.publishCameraEvent).toHaveBeenCalledWith(expect.objectContaining({ type: 'motion' }));
+    });
+  });
+
+  describe('published events', () => {
+    it('should publish new motion events once', () => {
+      accessory.context.controllerAddress = '192.168.1.1';
+      const cameraAccessory = createAccessory();
+
+      cameraAccessory.handleMotionEvent(1000);
+      cameraAccessory.handleMotionEvent(1000);
+
+      expect(platform.publishCameraEvent).toHaveBeenCalledTimes(1);
+      expect(platform.publishCameraEvent).toHaveBeenCalledWith({
+        type: 'motion',
+        camera: { id: 'camera-1', name: 'Test Camera', mac: 'AA:BB:CC:DD:EE:FF' },
+        controller: '192.168.1.1',
+        timestamp: 1000,
+        suppressed: false,
+      });
+    });
+
+    it('should flag motion ignored while motion is disabled', () => {
+      const cameraAccessory = createAccessory(undefined, { recordingSettings: { enableMotionDetection: false } });
+
+      cameraAccessory.handleMotionEvent(1000);
+
+      expect(platform.publishCameraEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'motion', suppressed: true }),
+      );
+    });
+
+    it('should publish smart detections for types without a sensor', () => {
+      const cameraAccessory = createAccessory();
+
+      cameraAccessory.handleSmartDetectEvent(['vehicle'], 1000);
+
+      expect(platform.publishCameraEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'smartDetect', smartDetectTypes: ['vehicle'] }),
+      );
+    });
+
+    it('should publish setting changes made in Protect', () => {
+      const cameraAccessory = createAccessory();
+
+      cameraAccessory.handleLedSettingsUpdate({ isEnabled: true, blinkRate: 0 });
+      cameraAccessory.handleLedSettingsUpdate({ isEnabled: false, blinkRate: 0 });
+
+      expect(platform.publishCameraEvent).toHaveBeenCalledTimes(1);
+      expect(platform.publishCameraEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'settings', setting: { name: 'statusLed', value: false } }),
+      );
+    });
+    it('should not repeat events already in the history after a restart', () => {
+      vi.mocked(platform.getCameraEvents).mockImplementation((_, query) =>
+        query?.type === 'motion' ? [{ type: 'motion', timestamp: 1000, suppressed: false }] : [],
+      );
+      const cameraAccessory = createAccessory();
+
+      cameraAccessory.handleMotionEvent(1000);
+      expect(platform.publishCameraEvent).not.toHaveBeenCalled();
+
+      cameraAccessory.handleMotionEvent(2000);
+      expect(platform.publishCameraEvent).toHaveBeenCalledWith(expect.objectContaining({ timestamp: 2000 }));
+    });
+  });
+
+  describe('camera updates', () => {
+    it('should rename the accessory when the camera name changes', () => {
+      const cameraAccessory = createAccessory();
+
+      cameraAccessory.handleNameUpdate('Front Door');
+
+      expect(accessory.updateDisplayName).toHaveBeenCalledWith('Front Door');
+      expect(api.updatePlatformAccessories).toHaveBeenCalledWith([accessory]);
+    });
+
+    it('should ignore unchanged names', () => {
+      const cameraAccessory = createAccessory();
+
+      cameraAccessory.handleNameUpdate('Test Camera');
+
+      expect(accessory.updateDisplayName).not.toHaveBeenCalled();
+    });
+
+    it('should stop listening for connection changes once disposed', () => {
+      const cameraAccessory = createAccessory();
+      const unsubscribe = vi.mocked(client.onStateChange).mock.results[0].value;
+
+      cameraAccessory.dispose();
+
+      expect(unsubscribe).toHaveBeenCalled();
+    });
+  });
+});
@@ -1,47 +1,261 @@
-import type { CharacteristicValue, PlatformAccessory, Service } from 'homebridge';
+import type { CharacteristicValue, Perms, PlatformAccessory, Service } from 'homebridge';
 
-import type { ProtectClient } from './api/client.js';
-import type { LedSettings, ProtectCamera } from './api/types.js';
+import type { ConnectionState, ProtectClient } from './api/client.js';
+import type {
+  IrLedMode,
+  LedSettings,
+  MotionZone,
+  PrivacyZone,
+  ProtectCamera,
+  RecordingMode,
+  SmartDetectType,
+} from './api/types.js';
+import type { CameraUpdate } from './camera-updates.js';
+import { updateCameras } from './camera-updates.js';
+import { EveMotionHistory } from './eve-history.js';
+import type { EventQuery, StoredEvent } from './event-store.js';
+import type { CameraEvent, CameraEventType } from './events.js';
+import type { MotionOutcome } from './metrics.js';
 import type { ProtectMotionPlatform } from './platform.js';
+import type { Schedule } from './schedules.js';
+import type { CameraConfig, ScheduleAction } from './settings.js';
+import {
+  DEFAULT_MOTION_THRESHOLD_WINDOW,
+  NIGHT_VISION_LABELS,
+  RECORDING_MODE_LABELS,
+  SMART_DETECT_LABELS,
+} from './settings.js';
+
+// Covers the whole frame, named so it can be recognised in updates from Protect
+const PRIVACY_ZONE: PrivacyZone = {
+  id: 0,
+  name: 'Homebridge Privacy',
+  color: '#000000',
+  points: [
+    [0, 0],
+    [1, 0],
+    [1, 1],
+    [0, 1],
+  ],
+};
+
+const LED_BLINK_RATE = 250; // any non-zero rate makes the status LED blink
+const RING_WINDOW = 2; // seconds, a ring arrives as both a camera update and an event with slightly different times
+
+type AudioDevice = 'speaker' | 'microphone';
+
+interface SmartDetectSensor {
+  label: string;
+  service: Service;
+  timeout: NodeJS.Timeout | null;
+  lastDetectTime: number;
+  detected: boolean;
+}
+
+interface ZoneSensor {
+  service: Service;
+  timeout: NodeJS.Timeout | null;
+  detected: boolean;
+}
+
+export type ZoneEventSource = 'motion' | 'smartDetect';
+
+export interface CameraState {
+  id: string;
+  name: string;
+  mac: string;
+  controller: string;
+  connected: boolean;
+  motionDetected: boolean;
+  motionEnabled: boolean;
+  ledEnabled: boolean;
+  quietHours: boolean;
+}
 
 export class CameraAccessory {
   private readonly motionSensor: Service;
-  private readonly motionSwitch: Service;
-  private readonly ledSwitch: Service;
+  private readonly motionSwitch: Service | null;
+  private readonly ledSwitch: Service | null;
+  private readonly smartDetectSensors: Map<SmartDetectType, SmartDetectSensor> = new Map();
+  private readonly zoneSensors: Map<string, ZoneSensor> = new Map(); // keyed by lower case zone name
+  private readonly doorbellService: Service | null;
+  private readonly recordingSwitches: Map<RecordingMode, Service> = new Map();
+  private readonly privacySwitch: Service | null;
+  private readonly nightVisionSwitches: Map<IrLedMode, Service> = new Map();
+  private readonly hdrSwitch: Service | null;
+  private readonly ledBlinkSwitch: Service | null;
+  private readonly volumeControls: Map<AudioDevice, Service> = new Map();
+  private readonly quietHoursSwitch: Service | null;
+  private readonly quietMotionSensor: Service | null;
+  private readonly eveHistory: EveMotionHistory | null;
+  private readonly canControl: boolean;
+  private readonly canChangeSettings: boolean;
 
   private motionTimeout: NodeJS.Timeout | null = null;
+  private quietMotionTimeout: NodeJS.Timeout | null = null;
+  private quietHoursAction: ScheduleAction | null = null;
+  private readonly pendingSchedules = new Set<string>(); // windows whose settings are being applied
+  private readonly failedSchedules = new Set<string>(); // windows whose settings failed, reported once
   private lastMotionTime = 0;
+  private motionStartTime = 0;
+  private motionResetTime = 0;
+  private motionCapped = false;
+  private recentMotionEvents: number[] = [];
+  private lastRingTime = 0;
+  private lastSmartDetectTime = 0;
   private motionDetected = false;
   private ledEnabled: boolean;
+  private recordingMode: RecordingMode | null;
+  private privacyZones: PrivacyZone[];
+  private readonly unsubscribeState: () => void;
 
   constructor(
     private readonly platform: ProtectMotionPlatform,
     private readonly accessory: PlatformAccessory,
     private readonly client: ProtectClient,
     private readonly motionDuration: number,
+    private readonly cameraConfig?: CameraConfig,
+    private readonly schedules: Schedule[] = [],
   ) {
     const camera = this.camera;
+    this.canControl = this.client.canControl('camera');
+    // API keys can only change the status LED and HDR
+    this.canChangeSettings = this.canControl && !this.client.usesApiKey;
     this.ledEnabled = camera.ledSettings?.isEnabled ?? true;
+    this.recordingMode = camera.recordingSettings?.mode ?? null;
+    this.privacyZones = camera.privacyZones ?? [];
 
     // Initialize motion enabled state from camera's actual settings
     const motionEnabled = camera.recordingSettings?.enableMotionDetection ?? true;
     this.isMotionEnabled = motionEnabled;
 
+    // Restored from the event history, so updates repeating old timestamps after a restart aren't treated as new
+    this.lastMotionTime = this.getLastEventTime('motion');
+    this.lastRingTime = this.getLastEventTime('ring');
+    this.lastSmartDetectTime = this.getLastEventTime('smartDetect');
+
     this.configureAccessoryInformation(camera);
     this.motionSensor = this.configureMotionSensor();
-    this.motionSwitch = this.configureMotionSwitch();
-    this.ledSwitch = this.configureLedSwitch();
+    this.eveHistory = this.platform.eveHistory ? this.configureEveHistory() : this.removeEveHistory();
+    this.motionSwitch =
+      this.cameraConfig?.motionSwitch === false
+        ? this.removeServiceById(this.platform.Service.Switch, 'motion-switch')
+        : this.configureMotionSwitch();
+    this.ledSwitch =
+      this.cameraConfig?.ledSwitch === false || camera.featureFlags?.hasLedStatus === false
+        ? this.removeServiceById(this.platform.Service.Switch, 'led-switch')
+        : this.configureLedSwitch();
+    this.configureSmartDetectSensors();
+    this.configureZoneSensors();
+    this.doorbellService = this.configureDoorbell();
+
+    // The Motion Enabled and Status LED switches stay as read-only state when the user can't change cameras,
+    // controls that only change settings are left out
+    const canControl = this.canChangeSettings;
+    this.configureRecordingSwitches(!!this.cameraConfig?.recordingSwitches && canControl);
+    this.privacySwitch =
+      this.cameraConfig?.privacySwitch === false || camera.featureFlags?.hasPrivacyMask === false || !canControl
+        ? this.removeServiceById(this.platform.Service.Switch, 'privacy-switch')
+        : this.configurePrivacySwitch();
+
+    // Hardware controls are opt-in, and only shown when the camera reports the hardware
+    const features = camera.featureFlags;
+    this.configureNightVisionSwitches(!!this.cameraConfig?.nightVisionSwitches && !!features?.hasLedIr && canControl);
+    this.hdrSwitch =
+      this.cameraConfig?.hdrSwitch && features?.hasHdr && this.canControl
+        ? this.configureHdrSwitch()
+        : this.removeServiceById(this.platform.Service.Switch, 'hdr-switch');
+    this.ledBlinkSwitch =
+      this.cameraConfig?.ledBlinkSwitch && features?.hasLedStatus && canControl
+        ? this.configureLedBlinkSwitch()
+        : this.removeServiceById(this.platform.Service.Switch, 'led-blink-switch');
+    this.configureVolumeControl('speaker', !!this.cameraConfig?.volumeControls && !!features?.hasSpeaker && canControl);
+    this.configureVolumeControl('microphone', !!this.cameraConfig?.volumeControls && !!features?.hasMic && canControl);
+    this.quietHoursSwitch =
+      schedules.length === 0
+        ? this.removeServiceById(this.platform.Service.Switch, 'quiet-hours')
+        : this.configureQuietHoursSwitch();
+    this.quietMotionSensor = schedules.some((schedule) => schedule.action === 'reroute')
+      ? this.configureQuietMotionSensor()
+      : this.removeServiceById(this.platform.Service.MotionSensor, 'quiet-motion');
 
     // Set initial values
     this.updateMotionSensorState(false);
     this.updateMotionSwitchState(motionEnabled);
     this.updateLedSwitchState(this.ledEnabled);
+    this.updateRecordingSwitchStates();
+    this.updatePrivacySwitchState();
+    this.updateHardwareControlStates();
+    this.handleConnectionStateChange(this.client.connectionState);
+    this.updateSchedules();
+
+    this.unsubscribeState = this.client.onStateChange((state) => this.handleConnectionStateChange(state));
   }
 
   private get camera(): ProtectCamera {
     return this.accessory.context.camera as ProtectCamera;
   }
 
+  public get state(): CameraState {
+    const { id, name, mac } = this.camera;
+    return {
+      id,
+      name,
+      mac,
+      controller: this.accessory.context.controllerAddress,
+      connected: this.client.isConnected,
+      motionDetected: this.motionDetected,
+      motionEnabled: this.isMotionEnabled,
+      ledEnabled: this.ledEnabled,
+      quietHours: this.quietHoursAction !== null,
+    };
+  }
+
+  // Groups and the security system change these on many cameras at once, and follow the same permissions
+  public get canChangeLed(): boolean {
+    return this.canControl;
+  }
+
+  public get canChangeMotionDetection(): boolean {
+    return this.canChangeSettings;
+  }
+
+  private get activeSchedules(): string[] {
+    return this.accessory.context.activeSchedules ?? [];
+  }
+
+  private set activeSchedules(names: string[]) {
+    this.accessory.context.activeSchedules = names;
+  }
+
+  // Motion is kept from the main sensors when disabled, or ignored or rerouted by quiet hours
+  private get isMotionSuppressed(): boolean {
+    return !this.isMotionEnabled || this.quietHoursAction === 'suppress' || this.quietHoursAction === 'reroute';
+  }
+
+  private get isLedBlinking(): boolean {
+    return (this.camera.ledSettings?.blinkRate ?? 0) > 0;
+  }
+
+  private getAudioSettings(device: AudioDevice): { enabled: boolean; volume: number } {
+    const camera = this.camera;
+    return device === 'speaker'
+      ? { enabled: camera.speakerSettings?.isEnabled ?? false, volume: camera.speakerSettings?.volume ?? 100 }
+      : { enabled: camera.isMicEnabled ?? false, volume: camera.micVolume ?? 100 };
+  }
+
+  private get isPrivacyEnabled(): boolean {
+    return this.privacyZones.some((zone) => zone.name === PRIVACY_ZONE.name);
+  }
+
+  private get savedPrivacyZones(): PrivacyZone[] | undefined {
+    return this.accessory.context.savedPrivacyZones;
+  }
+
+  private set savedPrivacyZones(zones: PrivacyZone[] | undefined) {
+    this.accessory.context.savedPrivacyZones = zones;
+  }
+
   private get isMotionEnabled(): boolean {
     return this.accessory.context.motionEnabled ?? true;
   }
@@ -50,6 +264,26 @@ export class CameraAccessory {
     this.accessory.context.motionEnabled = value;
   }
 
+  // Cameras report CONNECTED while Protect can reach them, older bootstraps may not report a state at all
+  private get isCameraConnected(): boolean {
+    return (this.camera.state ?? 'CONNECTED') === 'CONNECTED';
+  }
+
+  private get statusFault(): number {
+    return this.client.isConnected && this.isCameraConnected
+      ? this.platform.Characteristic.StatusFault.NO_FAULT
+      : this.platform.Characteristic.StatusFault.GENERAL_FAULT;
+  }
+
+  private get sensorServices(): Service[] {
+    return [
+      this.motionSensor,
+      ...[...this.smartDetectSensors.values()].map((sensor) => sensor.service),
+      ...[...this.zoneSensors.values()].map((sensor) => sensor.service),
+      ...(this.quietMotionSensor ? [this.quietMotionSensor] : []),
+    ];
+  }
+
   private configureAccessoryInformation(camera: ProtectCamera): void {
     const infoService = this.accessory.getService(this.platform.Service.AccessoryInformation);
     if (infoService) {
@@ -70,9 +304,17 @@ export class CameraAccessory {
 
     service.getCharacteristic(this.platform.Characteristic.StatusActive).onGet(() => this.isMotionEnabled);
 
+    service.getCharacteristic(this.platform.Characteristic.StatusFault).onGet(() => this.statusFault);
+
     return service;
   }
 
+  // Set every time, since the permissions are cached with the accessory and the user's role may have changed
+  private switchPerms(writable: boolean): Perms[] {
+    const { Perms } = this.platform.api.hap;
+    return writable ? [Perms.PAIRED_READ, Perms.PAIRED_WRITE, Perms.NOTIFY] : [Perms.PAIRED_READ, Perms.NOTIFY];
+  }
+
   private configureMotionSwitch(): Service {
     const service = this.getOrAddService(this.platform.Service.Switch, 'Motion Enabled', 'motion-switch');
 
@@ -81,8 +323,11 @@ export class CameraAccessory {
 
     service
       .getCharacteristic(this.platform.Characteristic.On)
+      .setProps({ perms: this.switchPerms(this.canChangeSettings) })
       .onGet(() => this.isMotionEnabled)
-      .onSet(this.setMotionEnabled.bind(this));
+      .onSet(async (value) => {
+        await this.setMotionEnabled(value as boolean);
+      });
 
     return service;
   }
@@ -95,14 +340,150 @@ export class CameraAccessory {
 
     service
       .getCharacteristic(this.platform.Characteristic.On)
+      .setProps({ perms: this.switchPerms(this.canControl) })
       .onGet(() => this.ledEnabled)
-      .onSet(this.setLedEnabled.bind(this));
+      .onSet(async (value) => {
+        await this.setLedEnabled(value as boolean);
+      });
+
+    return service;
+  }
+
+  private configureSmartDetectSensors(): void {
+    const camera = this.camera;
+    const useOccupancy = this.cameraConfig?.smartDetectSensor === 'occupancy';
+    const serviceType = useOccupancy ? this.platform.Service.OccupancySensor : this.platform.Service.MotionSensor;
+    const supportedTypes = camera.featureFlags?.smartDetectTypes;
+
+    for (const type of this.cameraConfig?.smartDetectTypes ?? []) {
+      const label = SMART_DETECT_LABELS[type];
+      if (!label) {
+        this.platform.log.warn(`Unknown smart detection type "${type}" configured for ${camera.name}`);
+        continue;
+      }
+      if (supportedTypes && !supportedTypes.includes(type)) {
+        this.platform.log.warn(`${camera.name} does not support ${label.toLowerCase()} detection, skipping sensor`);
+        continue;
+      }
+
+      const service = this.getOrAddService(serviceType, label, `smart-${type}`);
+
+      service.addOptionalCharacteristic(this.platform.Characteristic.ConfiguredName);
+      service.setCharacteristic(this.platform.Characteristic.ConfiguredName, label);
+
+      const sensor: SmartDetectSensor = { label, service, timeout: null, lastDetectTime: 0, detected: false };
+
+      if (useOccupancy) {
+        service
+          .getCharacteristic(this.platform.Characteristic.OccupancyDetected)
+          .onGet(() => this.toOccupancyValue(sensor.detected));
+      } else {
+        service.getCharacteristic(this.platform.Characteristic.MotionDetected).onGet(() => sensor.detected);
+      }
+
+      service.getCharacteristic(this.platform.Characteristic.StatusActive).onGet(() => this.isMotionEnabled);
+      service.getCharacteristic(this.platform.Characteristic.StatusFault).onGet(() => this.statusFault);
+
+      this.smartDetectSensors.set(type, sensor);
+      this.updateSmartDetectState(sensor, false);
+    }
+
+    // Drop sensors for types that are no longer configured or that switched sensor type
+    const staleServices = this.accessory.services.filter(
+      (service) =>
+        service.subtype?.startsWith('smart-') &&
+        ![...this.smartDetectSensors.values()].some((sensor) => sensor.service === service),
+    );
+    for (const service of staleServices) {
+      this.platform.debugLog(`Removing smart detection sensor ${service.displayName} from ${camera.name}`);
+      this.accessory.removeService(service);
+    }
+  }
+
+  private configureZoneSensors(): void {
+    const camera = this.camera;
+
+    for (const name of this.cameraConfig?.zoneSensors ?? []) {
+      const key = name.trim().toLowerCase();
+      if (!key || this.zoneSensors.has(key)) {
+        continue;
+      }
+
+      // Zones can be added or renamed in Protect later, so keep the sensor either way
+      if (!this.findZones(name).length) {
+        this.platform.log.warn(`${camera.name} has no motion or smart detection zone named "${name}"`);
+      }
+
+      const service = this.getOrAddService(this.platform.Service.MotionSensor, name, `zone-${key}`);
+
+      service.addOptionalCharacteristic(this.platform.Characteristic.ConfiguredName);
+      service.setCharacteristic(this.platform.Characteristic.ConfiguredName, name);
+
+      const sensor: ZoneSensor = { service, timeout: null, detected: false };
+
+      service.getCharacteristic(this.platform.Characteristic.MotionDetected).onGet(() => sensor.detected);
+      service.getCharacteristic(this.platform.Characteristic.StatusActive).onGet(() => this.isMotionEnabled);
+      service.getCharacteristic(this.platform.Characteristic.StatusFault).onGet(() => this.statusFault);
+
+      this.zoneSensors.set(key, sensor);
+      this.updateZoneState(sensor, false);
+    }
+
+    // Drop sensors for zones that are no longer configured
+    const staleServices = this.accessory.services.filter(
+      (service) =>
+        service.subtype?.startsWith('zone-') &&
+        ![...this.zoneSensors.values()].some((sensor) => sensor.service === service),
+    );
+    for (const service of staleServices) {
+      this.platform.debugLog(`Removing zone sensor ${service.displayName} from ${camera.name}`);
+      this.accessory.removeService(service);
+    }
+  }
+
+  private findZones(name: string): MotionZone[] {
+    const key = name.trim().toLowerCase();
+    return [...(this.camera.motionZones ?? []), ...(this.camera.smartDetectZones ?? [])].filter(
+      (zone) => zone.name.trim().toLowerCase() === key,
+    );
+  }
+
+  private configureDoorbell(): Service | null {
+    let service: Service | null = null;
+
+    if (this.camera.featureFlags?.isDoorbell) {
+      const serviceType =
+        this.cameraConfig?.doorbellService === 'switch'
+          ? this.platform.Service.StatelessProgrammableSwitch
+          : this.platform.Service.Doorbell;
+
+      service = this.getOrAddService(serviceType, 'Doorbell', 'doorbell');
+
+      service.addOptionalCharacteristic(this.platform.Characteristic.ConfiguredName);
+      service.setCharacteristic(this.platform.Characteristic.ConfiguredName, 'Doorbell');
+
+      // Rings are the only event Protect reports, so limit HomeKit to single presses
+      service.getCharacteristic(this.platform.Characteristic.ProgrammableSwitchEvent).setProps({
+        validValues: [this.platform.Characteristic.ProgrammableSwitchEvent.SINGLE_PRESS],
+      });
+    }
+
+    // Drop the doorbell service if the service type changed or the camera is no longer a doorbell
+    for (const stale of this.accessory.services.filter((svc) => svc.subtype === 'doorbell' && svc !== service)) {
+      this.accessory.removeService(stale);
+    }
 
     return service;
   }
 
   private getOrAddService(
-    serviceType: typeof this.platform.Service.MotionSensor | typeof this.platform.Service.Switch,
+    serviceType:
+      | typeof this.platform.Service.MotionSensor
+      | typeof this.platform.Service.OccupancySensor
+      | typeof this.platform.Service.Switch
+      | typeof this.platform.Service.Doorbell
+      | typeof this.platform.Service.StatelessProgrammableSwitch
+      | typeof this.platform.Service.Lightbulb,
     displayName: string,
     subtype: string,
   ): Service {
@@ -114,8 +495,186 @@ export class CameraAccessory {
     return this.accessory.addService(serviceType, displayName, subtype);
   }
 
-  private async setMotionEnabled(value: CharacteristicValue): Promise<void> {
-    const enabled = value as boolean;
+  private configureRecordingSwitches(enabled: boolean): void {
+    for (const [mode, label] of Object.entries(RECORDING_MODE_LABELS) as [RecordingMode, string][]) {
+      const subtype = `recording-${mode}`;
+
+      if (!enabled) {
+        this.removeServiceById(this.platform.Service.Switch, subtype);
+        continue;
+      }
+
+      const service = this.getOrAddService(this.platform.Service.Switch, label, subtype);
+
+      service.addOptionalCharacteristic(this.platform.Characteristic.ConfiguredName);
+      service.setCharacteristic(this.platform.Characteristic.ConfiguredName, label);
+
+      service
+        .getCharacteristic(this.platform.Characteristic.On)
+        .onGet(() => this.recordingMode === mode)
+        .onSet((value) => this.selectRecordingMode(mode, value));
+
+      this.recordingSwitches.set(mode, service);
+    }
+  }
+
+  private configurePrivacySwitch(): Service {
+    const service = this.getOrAddService(this.platform.Service.Switch, 'Privacy', 'privacy-switch');
+
+    service.addOptionalCharacteristic(this.platform.Characteristic.ConfiguredName);
+    service.setCharacteristic(this.platform.Characteristic.ConfiguredName, 'Privacy');
+
+    service
+      .getCharacteristic(this.platform.Characteristic.On)
+      .onGet(() => this.isPrivacyEnabled)
+      .onSet(this.setPrivacyEnabled.bind(this));
+
+    return service;
+  }
+
+  private configureNightVisionSwitches(enabled: boolean): void {
+    for (const [mode, label] of Object.entries(NIGHT_VISION_LABELS) as [IrLedMode, string][]) {
+      const subtype = `night-vision-${mode}`;
+
+      if (!enabled) {
+        this.removeServiceById(this.platform.Service.Switch, subtype);
+        continue;
+      }
+
+      const service = this.getOrAddService(this.platform.Service.Switch, label, subtype);
+
+      service.addOptionalCharacteristic(this.platform.Characteristic.ConfiguredName);
+      service.setCharacteristic(this.platform.Characteristic.ConfiguredName, label);
+
+      service
+        .getCharacteristic(this.platform.Characteristic.On)
+        .onGet(() => this.camera.ispSettings?.irLedMode === mode)
+        .onSet((value) => this.setNightVision(mode, value));
+
+      this.nightVisionSwitches.set(mode, service);
+    }
+  }
+
+  private configureHdrSwitch(): Service {
+    const service = this.getOrAddService(this.platform.Service.Switch, 'HDR', 'hdr-switch');
+
+    service.addOptionalCharacteristic(this.platform.Characteristic.ConfiguredName);
+    service.setCharacteristic(this.platform.Characteristic.ConfiguredName, 'HDR');
+
+    service
+      .getCharacteristic(this.platform.Characteristic.On)
+      .onGet(() => this.camera.hdrMode ?? false)
+      .onSet(async (value) => {
+        const hdrMode = value as boolean;
+        this.platform.debugLog(`Setting HDR ${hdrMode ? 'on' : 'off'} for ${this.camera.name}`);
+        await this.applyCameraSettings(this.client.updateCameraHdr(this.camera, hdrMode), { hdrMode });
+      });
+
+    return service;
+  }
+
+  private configureLedBlinkSwitch(): Service {
+    const service = this.getOrAddService(this.platform.Service.Switch, 'Status LED Blink', 'led-blink-switch');
+
+    service.addOptionalCharacteristic(this.platform.Characteristic.ConfiguredName);
+    service.setCharacteristic(this.platform.Characteristic.ConfiguredName, 'Status LED Blink');
+
+    service
+      .getCharacteristic(this.platform.Characteristic.On)
+      .onGet(() => this.isLedBlinking)
+      .onSet(async (value) => {
+        const blinkRate = value ? LED_BLINK_RATE : 0;
+        this.platform.debugLog(`Setting LED blinking ${value ? 'on' : 'off'} for ${this.camera.name}`);
+        await this.applyCameraSettings(this.client.updateCameraLedBlink(this.camera, blinkRate, this.ledEnabled), {
+          ledSettings: { isEnabled: this.ledEnabled, blinkRate },
+        });
+      });
+
+    return service;
+  }
+
+  // HomeKit has no standalone volume control, so a dimmable lightbulb stands in for one
+  private configureVolumeControl(device: AudioDevice, enabled: boolean): void {
+    const label = device === 'speaker' ? 'Speaker Volume' : 'Microphone Volume';
+    const subtype = `${device}-volume`;
+
+    if (!enabled) {
+      this.removeServiceById(this.platform.Service.Lightbulb, subtype);
+      return;
+    }
+
+    const service = this.getOrAddService(this.platform.Service.Lightbulb, label, subtype);
+
+    service.addOptionalCharacteristic(this.platform.Characteristic.ConfiguredName);
+    service.setCharacteristic(this.platform.Characteristic.ConfiguredName, label);
+
+    service
+      .getCharacteristic(this.platform.Characteristic.On)
+      .onGet(() => this.getAudioSettings(device).enabled)
+      .onSet((value) => this.setAudio(device, { enabled: value as boolean }));
+
+    service
+      .getCharacteristic(this.platform.Characteristic.Brightness)
+      .onGet(() => this.getAudioSettings(device).volume)
+      .onSet((value) => this.setAudio(device, { volume: value as number }));
+
+    this.volumeControls.set(device, service);
+  }
+
+  private configureEveHistory(): EveMotionHistory {
+    const eveHistory = new EveMotionHistory(this.platform.api, this.accessory, this.motionSensor);
+    if (this.lastMotionTime > 0) {
+      eveHistory.setLastActivation(this.lastMotionTime);
+    }
+    return eveHistory;
+  }
+
+  private removeEveHistory(): null {
+    EveMotionHistory.remove(this.accessory);
+    return null;
+  }
+
+  private configureQuietHoursSwitch(): Service {
+    const service = this.getOrAddService(this.platform.Service.Switch, 'Quiet Hours', 'quiet-hours');
+
+    service.addOptionalCharacteristic(this.platform.Characteristic.ConfiguredName);
+    service.setCharacteristic(this.platform.Characteristic.ConfiguredName, 'Quiet Hours');
+
+    // Reflects the schedules only, so automations can read it but not change it
+    service
+      .getCharacteristic(this.platform.Characteristic.On)
+      .setProps({ perms: [this.platform.api.hap.Perms.PAIRED_READ, this.platform.api.hap.Perms.NOTIFY] })
+      .onGet(() => this.quietHoursAction !== null);
+
+    return service;
+  }
+
+  private configureQuietMotionSensor(): Service {
+    const service = this.getOrAddService(this.platform.Service.MotionSensor, 'Quiet Hours Motion', 'quiet-motion');
+
+    service.addOptionalCharacteristic(this.platform.Characteristic.ConfiguredName);
+    service.setCharacteristic(this.platform.Characteristic.ConfiguredName, 'Quiet Hours Motion');
+    service.getCharacteristic(this.platform.Characteristic.StatusFault).onGet(() => this.statusFault);
+
+    return service;
+  }
+
+  private removeServiceById(
+    serviceType:
+      | typeof this.platform.Service.Switch
+      | typeof this.platform.Service.MotionSensor
+      | typeof this.platform.Service.Lightbulb,
+    subtype: string,
+  ): null {
+    const service = this.accessory.getServiceById(serviceType, subtype);
+    if (service) {
+      this.platform.debugLog(`Removing ${service.displayName} from ${this.camera.name}`);
+      this.accessory.removeService(service);
+    }
+    return null;
+  }
+
+  public async setMotionEnabled(enabled: boolean): Promise<boolean> {
     this.platform.debugLog(`Setting motion detection ${enabled ? 'on' : 'off'} for ${this.camera.name}`);
 
     const success = await this.client.updateCameraMotionDetection(this.camera, enabled);
@@ -123,41 +682,53 @@ export class CameraAccessory {
     if (success) {
       this.isMotionEnabled = enabled;
 
-      // Update StatusActive on motion sensor
-      this.motionSensor.updateCharacteristic(this.platform.Characteristic.StatusActive, enabled);
+      // Update StatusActive on motion sensors
+      this.updateStatusActive(enabled);
 
       // If motion is disabled and currently detecting, clear it
       if (!enabled && this.motionDetected) {
         this.clearMotion();
       }
+      if (!enabled) {
+        this.clearSmartDetections();
+        this.clearZoneDetections();
+      }
+
+      // Keep the switch in sync when the change didn't come from HomeKit
+      this.updateMotionSwitchState(enabled);
     } else {
       // Revert the switch state on failure
       setTimeout(() => {
-        this.motionSwitch.updateCharacteristic(this.platform.Characteristic.On, this.isMotionEnabled);
+        this.updateMotionSwitchState(this.isMotionEnabled);
       }, 100);
     }
+
+    return success;
   }
 
-  private async setLedEnabled(value: CharacteristicValue): Promise<void> {
-    const enabled = value as boolean;
+  public async setLedEnabled(enabled: boolean): Promise<boolean> {
     this.platform.debugLog(`Setting LED ${enabled ? 'on' : 'off'} for ${this.camera.name}`);
 
     const success = await this.client.updateCameraLed(this.camera, enabled);
 
     if (success) {
       this.ledEnabled = enabled;
+      this.updateLedSwitchState(enabled);
     } else {
       // API returned false - likely throttled or connection issue
       this.platform.log.warn(
         `Unable to update LED for ${this.camera.name}. ` +
-          `The Protect API may be throttled or unreachable. ` +
-          `If this persists, restart Homebridge.`,
+          (this.client.isConnected
+            ? 'The Protect API may be throttled or unreachable.'
+            : `The controller is ${this.client.connectionState}, try again once it is connected.`),
       );
       // Revert the switch state on failure
       setTimeout(() => {
-        this.ledSwitch.updateCharacteristic(this.platform.Characteristic.On, this.ledEnabled);
+        this.updateLedSwitchState(this.ledEnabled);
       }, 100);
     }
+
+    return success;
   }
 
   public handleMotionEvent(lastMotion: number | null): void {
@@ -171,15 +742,178 @@ export class CameraAccessory {
     }
 
     this.lastMotionTime = lastMotion;
+    this.countMotion('received');
 
+    // Published once the filters have run, so webhooks, MQTT and the event history agree with the sensor
+    const outcome = this.applyMotion(lastMotion);
+    this.countMotion(outcome);
+    this.publishEvent('motion', lastMotion, { suppressed: outcome === 'suppressed' });
+  }
+
+  private applyMotion(lastMotion: number): MotionOutcome {
     // Only trigger if motion is enabled
     if (!this.isMotionEnabled) {
       this.platform.debugLog(`Motion detected but disabled for ${this.camera.name}, ignoring`);
-      return;
+      return 'suppressed';
+    }
+
+    if (this.quietHoursAction === 'suppress') {
+      this.platform.debugLog(`Motion detected during quiet hours for ${this.camera.name}, ignoring`);
+      return 'suppressed';
+    }
+
+    if (this.quietHoursAction === 'reroute') {
+      this.platform.log.info(`Motion detected on ${this.camera.name} during quiet hours`);
+      this.triggerQuietMotion();
+      return 'suppressed';
     }
 
-    this.platform.log.info(`Motion detected on ${this.camera.name}`);
+    if (!this.passesMotionFilters(lastMotion)) {
+      return 'suppressed';
+    }
+
+    // Repeated updates only keep the sensor tripped, so they aren't worth an info line each
+    if (this.motionDetected) {
+      this.platform.debugLog(`Motion continues on ${this.camera.name}`);
+    } else {
+      this.platform.log.info(`Motion detected on ${this.camera.name}`);
+    }
     this.triggerMotion();
+    return 'triggered';
+  }
+
+  // Rerouted quiet hours motion counts as suppressed, since the main sensor stays untouched
+  private countMotion(outcome: MotionOutcome): void {
+    const metrics = this.platform.metrics;
+    if (!metrics) {
+      return;
+    }
+
+    metrics.setCameraName(this.camera.id, this.camera.name);
+    metrics.motionEvents.inc({
+      controller: this.accessory.context.controllerAddress,
+      camera_id: this.camera.id,
+      outcome,
+    });
+  }
+
+  private passesMotionFilters(lastMotion: number): boolean {
+    const name = this.camera.name;
+
+    if (this.motionCapped) {
+      this.platform.debugLog(`Motion on ${name} is still ongoing after reaching the maximum duration, ignoring`);
+      this.armMotionCapRelease();
+      return false;
+    }
+
+    // The cooldown and threshold only decide whether the sensor trips, not whether it stays tripped
+    if (this.motionDetected) {
+      return true;
+    }
+
+    const cooldown = this.cameraConfig?.motionCooldown ?? 0;
+    if (cooldown > 0 && Date.now() - this.motionResetTime < cooldown * 1000) {
+      this.platform.debugLog(`Motion on ${name} within the ${cooldown}s cooldown, ignoring`);
+      return false;
+    }
+
+    const threshold = this.cameraConfig?.motionThreshold ?? 1;
+    if (threshold > 1) {
+      const window = this.cameraConfig?.motionThresholdWindow ?? DEFAULT_MOTION_THRESHOLD_WINDOW;
+      this.recentMotionEvents = [
+        ...this.recentMotionEvents.filter((time) => lastMotion - time < window * 1000),
+        lastMotion,
+      ];
+
+      if (this.recentMotionEvents.length < threshold) {
+        this.platform.debugLog(
+          `Motion on ${name} below threshold (${this.recentMotionEvents.length} of ${threshold} events within ${window}s), ignoring`,
+        );
+        return false;
+      }
+      this.recentMotionEvents = [];
+    }
+
+    return true;
+  }
+
+  private triggerQuietMotion(): void {
+    if (this.quietMotionTimeout) {
+      clearTimeout(this.quietMotionTimeout);
+    }
+
+    this.quietMotionSensor?.updateCharacteristic(this.platform.Characteristic.MotionDetected, true);
+
+    this.quietMotionTimeout = setTimeout(() => {
+      this.quietMotionTimeout = null;
+      this.quietMotionSensor?.updateCharacteristic(this.platform.Characteristic.MotionDetected, false);
+    }, this.motionDuration * 1000);
+  }
+
+  public updateSchedules(now: Date = new Date()): void {
+    const active = this.schedules.filter((schedule) => schedule.isActive(now));
+    const activeNames = active.map((schedule) => schedule.name);
+
+    // Compared against the cached list, so windows that opened or closed during a restart are still handled
+    const previous = new Set(this.activeSchedules);
+    for (const schedule of this.schedules) {
+      const isActive = activeNames.includes(schedule.name);
+      if (isActive !== previous.has(schedule.name) && !this.pendingSchedules.has(schedule.name)) {
+        if (!this.failedSchedules.has(schedule.name)) {
+          this.platform.log.info(`${schedule.name} ${isActive ? 'started' : 'ended'} for ${this.camera.name}`);
+        }
+        void this.applyScheduleSettings(schedule, isActive);
+      }
+    }
+
+    // Suppressing wins over rerouting when schedules overlap
+    const actions = active.map((schedule) => schedule.action);
+    const action = (['suppress', 'reroute', 'none'] as const).find((candidate) => actions.includes(candidate)) ?? null;
+
+    if (action !== this.quietHoursAction) {
+      this.quietHoursAction = action;
+      this.quietHoursSwitch?.updateCharacteristic(this.platform.Characteristic.On, action !== null);
+      this.platform.publishCameraState(this.state);
+    }
+  }
+
+  // The window is only saved once its settings are applied, so a failed change is retried at the next check
+  private async applyScheduleSettings(schedule: Schedule, starting: boolean): Promise<void> {
+    const { name, ledEnabled, motionDetection } = schedule;
+    const updates: CameraUpdate[] = [];
+    if (ledEnabled !== undefined) {
+      updates.push(['status LED', () => this.setLedEnabled(starting ? ledEnabled : !ledEnabled)]);
+    }
+    if (motionDetection !== undefined) {
+      updates.push(['motion detection', () => this.setMotionEnabled(starting ? motionDetection : !motionDetection)]);
+    }
+
+    this.pendingSchedules.add(name);
+    try {
+      const failures = await updateCameras([this], () => updates);
+      if (failures.length > 0) {
+        if (!this.failedSchedules.has(name)) {
+          this.failedSchedules.add(name);
+          this.platform.log.warn(
+            `Unable to change the ${failures.join(' and ')} of ${this.camera.name} for ${name}, will keep retrying`,
+          );
+        }
+        return;
+      }
+    } finally {
+      this.pendingSchedules.delete(name);
+    }
+
+    this.failedSchedules.delete(name);
+    const others = this.activeSchedules.filter((active) => active !== name);
+    this.activeSchedules = starting ? [...others, name] : others;
+  }
+
+  public simulateMotion(): void {
+    this.platform.debugLog(`Simulating motion on ${this.camera.name}`);
+
+    // Goes through the same filtering as motion reported by Protect
+    this.handleMotionEvent(Math.max(Date.now(), this.lastMotionTime + 1));
   }
 
   private triggerMotion(): void {
@@ -189,12 +923,44 @@ export class CameraAccessory {
       this.motionTimeout = null;
     }
 
+    if (!this.motionDetected) {
+      this.motionStartTime = Date.now();
+    }
+
     // Set motion detected
     this.updateMotionSensorState(true);
 
-    // Set timeout to clear motion
+    // Set timeout to clear motion, or to cut it short once it has run for the maximum duration
+    const maxDuration = this.cameraConfig?.maxMotionDuration;
+    const remaining = maxDuration ? this.motionStartTime + maxDuration * 1000 - Date.now() : Infinity;
+    if (remaining <= this.motionDuration * 1000) {
+      this.motionTimeout = setTimeout(() => this.capMotion(), Math.max(remaining, 0));
+    } else {
+      this.motionTimeout = setTimeout(() => {
+        this.clearMotion();
+      }, this.motionDuration * 1000);
+    }
+  }
+
+  private capMotion(): void {
+    this.platform.log.info(
+      `Motion on ${this.camera.name} has continued for ${this.cameraConfig?.maxMotionDuration}s, resetting the sensor until it stops`,
+    );
+    this.clearMotion();
+    this.motionCapped = true;
+    this.armMotionCapRelease();
+  }
+
+  private armMotionCapRelease(): void {
+    if (this.motionTimeout) {
+      clearTimeout(this.motionTimeout);
+    }
+
+    // Motion counts as stopped once there has been none for a full motion duration
     this.motionTimeout = setTimeout(() => {
-      this.clearMotion();
+      this.motionTimeout = null;
+      this.motionCapped = false;
+      this.platform.debugLog(`Motion stopped on ${this.camera.name}`);
     }, this.motionDuration * 1000);
   }
 
@@ -203,35 +969,492 @@ export class CameraAccessory {
       clearTimeout(this.motionTimeout);
       this.motionTimeout = null;
     }
+    if (this.motionDetected) {
+      this.motionResetTime = Date.now();
+    }
+    this.motionCapped = false;
     this.updateMotionSensorState(false);
   }
 
   private updateMotionSensorState(detected: boolean): void {
+    if (detected !== this.motionDetected) {
+      this.eveHistory?.record(detected);
+    }
     this.motionDetected = detected;
     this.motionSensor.updateCharacteristic(this.platform.Characteristic.MotionDetected, detected);
+    this.platform.publishCameraState(this.state);
+  }
+
+  private async selectRecordingMode(mode: RecordingMode, value: CharacteristicValue): Promise<void> {
+    // The switches act as a selector, so turning off the active mode has nothing to switch to
+    if (!value) {
+      if (this.recordingMode === mode) {
+        setTimeout(() => this.updateRecordingSwitchStates(), 100);
+      }
+      return;
+    }
+
+    await this.setRecordingMode(mode);
+  }
+
+  public async setRecordingMode(mode: RecordingMode): Promise<boolean> {
+    this.platform.debugLog(`Setting recording mode to ${mode} for ${this.camera.name}`);
+
+    const success = await this.client.updateCameraRecordingMode(this.camera, mode);
+
+    if (success) {
+      this.recordingMode = mode;
+    }
+
+    // Turn the other switches off on success, or revert this one on failure
+    setTimeout(() => this.updateRecordingSwitchStates(), 100);
+
+    return success;
+  }
+
+  private async setPrivacyEnabled(value: CharacteristicValue): Promise<void> {
+    const enabled = value as boolean;
+    if (enabled === this.isPrivacyEnabled) {
+      return;
+    }
+
+    this.platform.debugLog(`Setting privacy mode ${enabled ? 'on' : 'off'} for ${this.camera.name}`);
+
+    // Restore the zones saved when privacy was turned on, falling back to whatever else is configured
+    const zones = enabled
+      ? [PRIVACY_ZONE]
+      : (this.savedPrivacyZones ?? this.privacyZones.filter((zone) => zone.name !== PRIVACY_ZONE.name));
+
+    const previousZones = this.privacyZones;
+    const success = await this.client.updateCameraPrivacyZones(this.camera, zones);
+
+    if (success) {
+      this.savedPrivacyZones = enabled ? previousZones : undefined;
+      this.privacyZones = zones;
+    } else {
+      // Revert the switch state on failure
+      setTimeout(() => {
+        this.updatePrivacySwitchState();
+      }, 100);
+    }
+  }
+
+  private async setNightVision(mode: IrLedMode, value: CharacteristicValue): Promise<void> {
+    // Like recording modes, these switches act as a selector
+    if (!value) {
+      if (this.camera.ispSettings?.irLedMode === mode) {
+        setTimeout(() => this.updateHardwareControlStates(), 100);
+      }
+      return;
+    }
+
+    this.platform.debugLog(`Setting night vision to ${mode} for ${this.camera.name}`);
+    await this.applyCameraSettings(this.client.updateCameraNightVision(this.camera, mode), {
+      ispSettings: { ...this.camera.ispSettings, irLedMode: mode },
+    });
+  }
+
+  private async setAudio(device: AudioDevice, change: { enabled?: boolean; volume?: number }): Promise<void> {
+    const { enabled, volume } = { ...this.getAudioSettings(device), ...change };
+    this.platform.debugLog(`Setting ${device} ${enabled ? `to ${volume}%` : 'off'} for ${this.camera.name}`);
+
+    if (device === 'speaker') {
+      const speakerSettings = { isEnabled: enabled, volume };
+      await this.applyCameraSettings(this.client.updateCameraSpeaker(this.camera, speakerSettings), {
+        speakerSettings,
+      });
+    } else {
+      const microphone = { isMicEnabled: enabled, micVolume: volume };
+      await this.applyCameraSettings(this.client.updateCameraMicrophone(this.camera, microphone), microphone);
+    }
+  }
+
+  private async applyCameraSettings(update: Promise<boolean>, settings: Partial<ProtectCamera>): Promise<void> {
+    if (await update) {
+      this.accessory.context.camera = { ...this.camera, ...settings };
+    }
+
+    // Sync the related controls on success, or revert this one on failure
+    setTimeout(() => this.updateHardwareControlStates(), 100);
+  }
+
+  public handleRingEvent(lastRing: number | null): void {
+    if (lastRing === null || !this.doorbellService) {
+      return;
+    }
+
+    // Check if this is a new ring, and not the same one reported again
+    if (lastRing < this.lastRingTime + RING_WINDOW * 1000) {
+      return;
+    }
+
+    this.lastRingTime = lastRing;
+    this.publishEvent('ring', lastRing, { suppressed: false });
+
+    this.platform.log.info(`Doorbell ring on ${this.camera.name}`);
+    this.doorbellService.updateCharacteristic(
+      this.platform.Characteristic.ProgrammableSwitchEvent,
+      this.platform.Characteristic.ProgrammableSwitchEvent.SINGLE_PRESS,
+    );
+  }
+
+  public handleSmartDetectEvent(types: SmartDetectType[], detectedAt: number | null): void {
+    if (detectedAt === null) {
+      return;
+    }
+
+    // Reported for every type, including those without a HomeKit sensor
+    if (detectedAt > this.lastSmartDetectTime) {
+      this.lastSmartDetectTime = detectedAt;
+      this.publishEvent('smartDetect', detectedAt, { smartDetectTypes: types });
+    }
+
+    for (const type of types) {
+      const sensor = this.smartDetectSensors.get(type);
+
+      // Check if this is a new detection for this type
+      if (!sensor || detectedAt <= sensor.lastDetectTime) {
+        continue;
+      }
+
+      sensor.lastDetectTime = detectedAt;
+
+      // Only trigger if motion is enabled and outside quiet hours
+      if (this.isMotionSuppressed) {
+        this.platform.debugLog(`${sensor.label} detected but motion suppressed for ${this.camera.name}, ignoring`);
+        continue;
+      }
+
+      this.platform.log.info(`${sensor.label} detected on ${this.camera.name}`);
+      this.triggerSmartDetect(sensor);
+    }
+  }
+
+  private triggerSmartDetect(sensor: SmartDetectSensor): void {
+    if (sensor.timeout) {
+      clearTimeout(sensor.timeout);
+    }
+
+    this.updateSmartDetectState(sensor, true);
+
+    sensor.timeout = setTimeout(() => {
+      sensor.timeout = null;
+      this.updateSmartDetectState(sensor, false);
+    }, this.motionDuration * 1000);
+  }
+
+  public handleZoneEvent(source: ZoneEventSource, zoneIds: number[]): void {
+    const zones = (source === 'motion' ? this.camera.motionZones : this.camera.smartDetectZones) ?? [];
+
+    for (const id of new Set(zoneIds)) {
+      const zone = zones.find((candidate) => candidate.id === id);
+      const sensor = zone ? this.zoneSensors.get(zone.name.trim().toLowerCase()) : undefined;
+      if (!zone || !sensor) {
+        continue;
+      }
+
+      // Only trigger if motion is enabled and outside quiet hours
+      if (this.isMotionSuppressed) {
+        this.platform.debugLog(`Motion in ${zone.name} but motion suppressed for ${this.camera.name}, ignoring`);
+        continue;
+      }
+
+      if (!sensor.detected) {
+        this.platform.log.info(`Motion detected in ${zone.name} on ${this.camera.name}`);
+      }
+      this.triggerZone(sensor);
+    }
+  }
+
+  public handleZonesUpdate(zones: Pick<Partial<ProtectCamera>, 'motionZones' | 'smartDetectZones'>): void {
+    this.accessory.context.camera = { ...this.camera, ...zones };
+  }
+
+  private triggerZone(sensor: ZoneSensor): void {
+    if (sensor.timeout) {
+      clearTimeout(sensor.timeout);
+    }
+
+    this.updateZoneState(sensor, true);
+
+    sensor.timeout = setTimeout(() => {
+      sensor.timeout = null;
+      this.updateZoneState(sensor, false);
+    }, this.motionDuration * 1000);
+  }
+
+  private clearZoneDetections(): void {
+    for (const sensor of this.zoneSensors.values()) {
+      if (sensor.timeout) {
+        clearTimeout(sensor.timeout);
+        sensor.timeout = null;
+      }
+      if (sensor.detected) {
+        this.updateZoneState(sensor, false);
+      }
+    }
+  }
+
+  private updateZoneState(sensor: ZoneSensor, detected: boolean): void {
+    sensor.detected = detected;
+    sensor.service.updateCharacteristic(this.platform.Characteristic.MotionDetected, detected);
+  }
+
+  private clearSmartDetections(): void {
+    for (const sensor of this.smartDetectSensors.values()) {
+      if (sensor.timeout) {
+        clearTimeout(sensor.timeout);
+        sensor.timeout = null;
+      }
+      if (sensor.detected) {
+        this.updateSmartDetectState(sensor, false);
+      }
+    }
+  }
+
+  private updateSmartDetectState(sensor: SmartDetectSensor, detected: boolean): void {
+    sensor.detected = detected;
+    if (this.cameraConfig?.smartDetectSensor === 'occupancy') {
+      sensor.service.updateCharacteristic(
+        this.platform.Characteristic.OccupancyDetected,
+        this.toOccupancyValue(detected),
+      );
+    } else {
+      sensor.service.updateCharacteristic(this.platform.Characteristic.MotionDetected, detected);
+    }
+  }
+
+  private toOccupancyValue(detected: boolean): number {
+    return detected
+      ? this.platform.Characteristic.OccupancyDetected.OCCUPANCY_DETECTED
+      : this.platform.Characteristic.OccupancyDetected.OCCUPANCY_NOT_DETECTED;
+  }
+
+  public updateCamera(camera: ProtectCamera): void {
+    if (camera.state !== undefined) {
+      this.handleStateUpdate(camera.state);
+    }
+    this.accessory.context.camera = camera;
+
+    this.configureAccessoryInformation(camera);
+    this.handleNameUpdate(camera.name);
+
+    if (camera.ledSettings) {
+      this.handleLedSettingsUpdate(camera.ledSettings);
+    }
+    if (camera.recordingSettings?.enableMotionDetection !== undefined) {
+      this.handleRecordingSettingsUpdate(camera.recordingSettings.enableMotionDetection);
+    }
+    if (camera.recordingSettings?.mode !== undefined) {
+      this.handleRecordingModeUpdate(camera.recordingSettings.mode);
+    }
+    if (camera.privacyZones !== undefined) {
+      this.handlePrivacyZonesUpdate(camera.privacyZones);
+    }
+    this.updateHardwareControlStates();
+  }
+
+  public handleNameUpdate(name: string): void {
+    if (!name || name === this.accessory.displayName) {
+      return;
+    }
+
+    this.platform.log.info(`Camera renamed: ${this.accessory.displayName} -> ${name}`);
+    this.accessory.context.camera = { ...this.camera, name };
+    this.accessory.updateDisplayName(name);
+
+    const infoService = this.accessory.getService(this.platform.Service.AccessoryInformation);
+    if (infoService) {
+      infoService.addOptionalCharacteristic(this.platform.Characteristic.ConfiguredName);
+      infoService
+        .setCharacteristic(this.platform.Characteristic.Name, name)
+        .setCharacteristic(this.platform.Characteristic.ConfiguredName, name);
+    }
+
+    this.platform.api.updatePlatformAccessories([this.accessory]);
+    this.platform.publishCameraState(this.state);
+  }
+
+  public dispose(): void {
+    this.unsubscribeState();
+    this.clearMotion();
+    this.clearSmartDetections();
+    this.clearZoneDetections();
+    if (this.quietMotionTimeout) {
+      clearTimeout(this.quietMotionTimeout);
+      this.quietMotionTimeout = null;
+    }
+  }
+
+  public getEvents(query: EventQuery = {}): StoredEvent[] {
+    return this.platform.getCameraEvents(this.camera.id, query);
+  }
+
+  private getLastEventTime(type: CameraEventType): number {
+    return this.getEvents({ type, limit: 1 })[0]?.timestamp ?? 0;
+  }
+
+  private publishEvent(type: CameraEventType, timestamp: number, details: Partial<CameraEvent> = {}): void {
+    const { id, name, mac } = this.camera;
+
+    this.platform.publishCameraEvent({
+      type,
+      camera: { id, name, mac },
+      controller: this.accessory.context.controllerAddress,
+      timestamp,
+      suppressed: this.isMotionSuppressed,
+      ...details,
+    });
+  }
+
+  private publishSettingEvent(name: string, value: boolean | string): void {
+    this.publishEvent('settings', Date.now(), { suppressed: false, setting: { name, value } });
+  }
+
+  private handleConnectionStateChange(state: ConnectionState): void {
+    this.platform.debugLog(`Controller for ${this.camera.name} is ${state}`);
+    this.updateStatusFault();
+  }
+
+  public handleStateUpdate(state: string): void {
+    if (state === this.camera.state) {
+      return;
+    }
+
+    const wasConnected = this.isCameraConnected;
+    this.accessory.context.camera = { ...this.camera, state };
+
+    if (wasConnected && !this.isCameraConnected) {
+      this.platform.log.warn(`${this.camera.name} is offline in UniFi Protect (${state.toLowerCase()})`);
+    } else if (!wasConnected && this.isCameraConnected) {
+      this.platform.log.info(`${this.camera.name} is back online`);
+    }
+
+    this.updateStatusFault();
+  }
+
+  private updateStatusFault(): void {
+    const statusFault = this.statusFault;
+    for (const service of this.sensorServices) {
+      service.updateCharacteristic(this.platform.Characteristic.StatusFault, statusFault);
+    }
   }
 
   public handleLedSettingsUpdate(ledSettings: LedSettings): void {
+    if (ledSettings.isEnabled !== this.ledEnabled) {
+      this.publishSettingEvent('statusLed', ledSettings.isEnabled);
+    }
+
     this.ledEnabled = ledSettings.isEnabled;
     this.updateLedSwitchState(ledSettings.isEnabled);
   }
 
   public handleRecordingSettingsUpdate(enableMotionDetection: boolean): void {
+    if (enableMotionDetection !== this.isMotionEnabled) {
+      this.publishSettingEvent('motionDetection', enableMotionDetection);
+    }
+
     this.isMotionEnabled = enableMotionDetection;
     this.updateMotionSwitchState(enableMotionDetection);
-    this.motionSensor.updateCharacteristic(this.platform.Characteristic.StatusActive, enableMotionDetection);
+    this.updateStatusActive(enableMotionDetection);
 
     // If motion is disabled and currently detecting, clear it
     if (!enableMotionDetection && this.motionDetected) {
       this.clearMotion();
     }
+    if (!enableMotionDetection) {
+      this.clearSmartDetections();
+      this.clearZoneDetections();
+    }
+  }
+
+  public handleRecordingModeUpdate(mode: RecordingMode): void {
+    if (mode !== this.recordingMode) {
+      this.publishSettingEvent('recordingMode', mode);
+    }
+
+    this.recordingMode = mode;
+    this.updateRecordingSwitchStates();
+  }
+
+  public handleHardwareSettingsUpdate(
+    settings: Pick<
+      Partial<ProtectCamera>,
+      'ispSettings' | 'hdrMode' | 'speakerSettings' | 'isMicEnabled' | 'micVolume' | 'ledSettings'
+    >,
+  ): void {
+    const camera = this.camera;
+
+    // Settings objects arrive with only the changed fields, so merge rather than replace them
+    this.accessory.context.camera = {
+      ...camera,
+      ...settings,
+      ispSettings: settings.ispSettings ? { ...camera.ispSettings, ...settings.ispSettings } : camera.ispSettings,
+      speakerSettings: settings.speakerSettings
+        ? { ...camera.speakerSettings, ...settings.speakerSettings }
+        : camera.speakerSettings,
+      ledSettings: settings.ledSettings ? { ...camera.ledSettings, ...settings.ledSettings } : camera.ledSettings,
+    };
+
+    this.updateHardwareControlStates();
+  }
+
+  public handlePrivacyZonesUpdate(privacyZones: PrivacyZone[]): void {
+    const wasPrivacyEnabled = this.isPrivacyEnabled;
+    this.privacyZones = privacyZones;
+
+    if (this.isPrivacyEnabled !== wasPrivacyEnabled) {
+      this.publishSettingEvent('privacy', this.isPrivacyEnabled);
+    }
+
+    // Privacy was turned off outside HomeKit, so the saved zones are no longer ours to restore
+    if (!this.isPrivacyEnabled) {
+      this.savedPrivacyZones = undefined;
+    }
+
+    this.updatePrivacySwitchState();
+  }
+
+  private updatePrivacySwitchState(): void {
+    this.privacySwitch?.updateCharacteristic(this.platform.Characteristic.On, this.isPrivacyEnabled);
+  }
+
+  private updateRecordingSwitchStates(): void {
+    for (const [mode, service] of this.recordingSwitches) {
+      service.updateCharacteristic(this.platform.Characteristic.On, this.recordingMode === mode);
+    }
+  }
+
+  private updateHardwareControlStates(): void {
+    const { Characteristic } = this.platform;
+
+    for (const [mode, service] of this.nightVisionSwitches) {
+      service.updateCharacteristic(Characteristic.On, this.camera.ispSettings?.irLedMode === mode);
+    }
+    this.hdrSwitch?.updateCharacteristic(Characteristic.On, this.camera.hdrMode ?? false);
+    this.ledBlinkSwitch?.updateCharacteristic(Characteristic.On, this.isLedBlinking);
+
+    for (const [device, service] of this.volumeControls) {
+      const { enabled, volume } = this.getAudioSettings(device);
+      service.updateCharacteristic(Characteristic.On, enabled);
+      service.updateCharacteristic(Characteristic.Brightness, volume);
+    }
+  }
+
+  private updateStatusActive(active: boolean): void {
+    this.motionSensor.updateCharacteristic(this.platform.Characteristic.StatusActive, active);
+    for (const sensor of [...this.smartDetectSensors.values(), ...this.zoneSensors.values()]) {
+      sensor.service.updateCharacteristic(this.platform.Characteristic.StatusActive, active);
+    }
   }
 
   private updateMotionSwitchState(enabled: boolean): void {
-    this.motionSwitch.updateCharacteristic(this.platform.Characteristic.On, enabled);
+    this.motionSwitch?.updateCharacteristic(this.platform.Characteristic.On, enabled);
+    this.platform.publishCameraState(this.state);
   }
 
   private updateLedSwitchState(enabled: boolean): void {
-    this.ledSwitch.updateCharacteristic(this.platform.Characteristic.On, enabled);
+    this.ledSwitch?.updateCharacteristic(this.platform.Characteristic.On, enabled);
+    this.platform.publishCameraState(this.state);
   }
 }
@@ -0,0 +1,189 @@
+import type { API, PlatformAccessory, Service } from 'homebridge';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { CameraAccessory, CameraState } from './camera-accessory.js';
+import { CameraGroupAccessory } from './camera-group-accessory.js';
+import type { ProtectMotionPlatform } from './platform.js';
+import type { CameraGroupConfig } from './settings.js';
+import { createMockAccessory, createMockAPI, createMockPlatform } from './test/mocks.js';
+
+describe('CameraGroupAccessory', () => {
+  let api: API;
+  let platform: ProtectMotionPlatform;
+  let accessory: PlatformAccessory;
+  let cameras: CameraAccessory[];
+
+  const createCamera = (id: string, name: string, controller: string): CameraAccessory => {
+    const state: CameraState = {
+      id,
+      name,
+      mac: id.toUpperCase(),
+      controller,
+      connected: true,
+      motionDetected: false,
+      motionEnabled: true,
+      ledEnabled: true,
+      quietHours: false,
+    };
+    return {
+      state,
+      canChangeLed: true,
+      canChangeMotionDetection: true,
+      setMotionEnabled: vi.fn(async (enabled: boolean) => {
+        state.motionEnabled = enabled;
+        return true;
+      }),
+      setLedEnabled: vi.fn(async (enabled: boolean) => {
+        state.ledEnabled = enabled;
+        return true;
+      }),
+    } as unknown as CameraAccessory;
+  };
+
+  const createAccessory = (config: Partial<CameraGroupConfig> = {}): CameraGroupAccessory =>
+    new CameraGroupAccessory(
+      platform,
+      accessory,
+      { name: 'Perimeter', cameras: ['Front Porch', 'camera-2'], ...config },
+      () => cameras,
+    );
+
+  const getService = (type: string, subtype: string): Service =>
+    accessory.getServiceById(type as never, subtype) as Service;
+
+  const lastValue = (service: Service, characteristic: unknown): unknown =>
+    vi
+      .mocked(service.updateCharacteristic)
+      .mock.calls.filter(([name]) => name === characteristic)
+      .at(-1)?.[1];
+
+  const setMotion = (group: CameraGroupAccessory, camera: CameraAccessory, detected: boolean): void => {
+    camera.state.motionDetected = detected;
+    group.handleCameraState(camera.state);
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    api = createMockAPI();
+    platform = createMockPlatform(api);
+    accessory = createMockAccessory('Perimeter', 'uuid-camera-group');
+    cameras = [
+      createCamera('camera-1', 'Front Porch', '192.168.1.1'),
+      createCamera('camera-2', 'Garage', '192.168.1.2'),
+      createCamera('camera-3', 'Kitchen', '192.168.1.1'),
+    ];
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should add sensors and switches for the group', () => {
+    createAccessory();
+
+    expect(getService('MotionSensor', 'group-motion')).toBeDefined();
+    expect(getService('OccupancySensor', 'group-occupancy')).toBeDefined();
+    expect(getService('Switch', 'motion-switch')).toBeDefined();
+    expect(getService('Switch', 'led-switch')).toBeDefined();
+  });
+
+  it('should leave out switches that are turned off', () => {
+    createAccessory({ motionSwitch: false, ledSwitch: false });
+
+    expect(getService('Switch', 'motion-switch')).toBeUndefined();
+    expect(getService('Switch', 'led-switch')).toBeUndefined();
+  });
+
+  it('should detect motion while any member across controllers is in motion', () => {
+    const group = createAccessory();
+    const motion = getService('MotionSensor', 'group-motion');
+
+    setMotion(group, cameras[0], true);
+    setMotion(group, cameras[1], true);
+    setMotion(group, cameras[0], false);
+    expect(lastValue(motion, 'MotionDetected')).toBe(true);
+
+    setMotion(group, cameras[1], false);
+    expect(lastValue(motion, 'MotionDetected')).toBe(false);
+  });
+
+  it('should ignore cameras outside the group', () => {
+    const group = createAccessory();
+
+    setMotion(group, cameras[2], true);
+
+    expect(lastValue(getService('MotionSensor', 'group-motion'), 'MotionDetected')).toBe(false);
+  });
+
+  it('should hold occupancy after the last motion stops', () => {
+    const group = createAccessory({ occupancyHoldTime: 60 });
+    const occupancy = getService('OccupancySensor', 'group-occupancy');
+    const { OccupancyDetected } = api.hap.Characteristic;
+
+    setMotion(group, cameras[0], true);
+    expect(lastValue(occupancy, OccupancyDetected)).toBe(OccupancyDetected.OCCUPANCY_DETECTED);
+
+    setMotion(group, cameras[0], false);
+    vi.advanceTimersByTime(59_000);
+    expect(lastValue(occupancy, OccupancyDetected)).toBe(OccupancyDetected.OCCUPANCY_DETECTED);
+
+    // Motion on another member restarts the hold
+    setMotion(group, cameras[1], true);
+    setMotion(group, cameras[1], false);
+    vi.advanceTimersByTime(59_000);
+    expect(lastValue(occupancy, OccupancyDetected)).toBe(OccupancyDetected.OCCUPANCY_DETECTED);
+
+    vi.advanceTimersByTime(1_000);
+    expect(lastValue(occupancy, OccupancyDetected)).toBe(OccupancyDetected.OCCUPANCY_NOT_DETECTED);
+  });
+
+  it('should fan switch changes out to every member', async () => {
+    createAccessory();
+    const ledSwitch = getService('Switch', 'led-switch');
+    const onSet = vi.mocked(ledSwitch.getCharacteristic('On' as never).onSet).mock.calls[0][0];
+
+    await onSet(false, undefined as never);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(cameras[0].setLedEnabled).toHaveBeenCalledWith(false);
+    expect(cameras[1].setLedEnabled).toHaveBeenCalledWith(false);
+    expect(cameras[2].setLedEnabled).not.toHaveBeenCalled();
+    expect(lastValue(ledSwitch, 'On')).toBe(false);
+  });
+
+  it('should report members that failed to update', async () => {
+    vi.mocked(cameras[1].setMotionEnabled).mockResolvedValue(false);
+    createAccessory();
+    const motionSwitch = getService('Switch', 'motion-switch');
+    const onSet = vi.mocked(motionSwitch.getCharacteristic('On' as never).onSet).mock.calls[0][0];
+
+    await onSet(false, undefined as never);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(platform.log.warn).toHaveBeenCalledWith(expect.stringContaining('failed to update: Garage'));
+    expect(lastValue(motionSwitch, 'On')).toBe(false);
+
+    // Turning it back on retries every member, including the one that failed
+    vi.mocked(cameras[1].setMotionEnabled).mockClear();
+    await onSet(true, undefined as never);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(cameras[1].setMotionEnabled).toHaveBeenCalledWith(true);
+  });
+
+  it("should make switches read-only while a member's account can't change them", () => {
+    Object.assign(cameras[1], { canChangeLed: false });
+    const group = createAccessory();
+    const ledOn = getService('Switch', 'led-switch').getCharacteristic('On' as never);
+    const motionOn = getService('Switch', 'motion-switch').getCharacteristic('On' as never);
+
+    expect(vi.mocked(ledOn.setProps).mock.calls.at(-1)).toEqual([{ perms: ['pr', 'ev'] }]);
+    expect(vi.mocked(motionOn.setProps).mock.calls.at(-1)).toEqual([{ perms: ['pr', 'pw', 'ev'] }]);
+
+    // Members are looked up again, so the switch follows cameras that reconnect with another account
+    Object.assign(cameras[1], { canChangeLed: true });
+    group.refresh();
+
+    expect(vi.mocked(ledOn.setProps).mock.calls.at(-1)).toEqual([{ perms: ['pr', 'pw', 'ev'] }]);
+  });
+});
@@ -0,0 +1,257 @@
+import type { Perms, PlatformAccessory, Service } from 'homebridge';
+
+import type { CameraAccessory, CameraState } from './camera-accessory.js';
+import { updateCameras } from './camera-updates.js';
+import type { ProtectMotionPlatform } from './platform.js';
+import type { CameraGroupConfig } from './settings.js';
+import { DEFAULT_OCCUPANCY_HOLD_TIME, matchesCamera } from './settings.js';
+
+type CameraProvider = () => CameraAccessory[];
+type CameraCheck = (camera: CameraAccessory) => boolean;
+
+export class CameraGroupAccessory {
+  private readonly motionSensor: Service;
+  private readonly occupancySensor: Service;
+  private readonly motionSwitch: Service | null;
+  private readonly ledSwitch: Service | null;
+  private readonly holdTime: number;
+  private readonly switchChecks = new Map<Service, CameraCheck>();
+  private readonly writableSwitches = new Map<Service, boolean>();
+  private motionDetected = false;
+  private occupied = false;
+  private occupancyTimeout: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly platform: ProtectMotionPlatform,
+    private readonly accessory: PlatformAccessory,
+    private readonly config: CameraGroupConfig,
+    private readonly getCameras: CameraProvider,
+  ) {
+    const { Service } = this.platform;
+    this.holdTime = config.occupancyHoldTime ?? DEFAULT_OCCUPANCY_HOLD_TIME;
+
+    this.configureAccessoryInformation();
+    this.motionSensor = this.configureMotionSensor();
+    this.occupancySensor = this.configureOccupancySensor();
+    this.motionSwitch =
+      config.motionSwitch !== false
+        ? this.configureSwitch(
+            'Motion Enabled',
+            'motion-switch',
+            'Motion detection',
+            (camera) => camera.motionEnabled,
+            (camera, on) => camera.setMotionEnabled(on),
+            (camera) => camera.canChangeMotionDetection,
+          )
+        : this.removeServiceById(Service.Switch, 'motion-switch');
+    this.ledSwitch =
+      config.ledSwitch !== false
+        ? this.configureSwitch(
+            'Status LED',
+            'led-switch',
+            'Status LED',
+            (camera) => camera.ledEnabled,
+            (camera, on) => camera.setLedEnabled(on),
+            (camera) => camera.canChangeLed,
+          )
+        : this.removeServiceById(Service.Switch, 'led-switch');
+
+    // Set initial values
+    this.occupancySensor.updateCharacteristic(this.platform.Characteristic.OccupancyDetected, this.occupancyValue);
+    this.refresh();
+  }
+
+  public get name(): string {
+    return this.config.name;
+  }
+
+  // Members are looked up on every use, so cameras that connect later or on other controllers are picked up
+  private get members(): CameraAccessory[] {
+    return this.getCameras().filter((camera) => this.isMember(camera.state));
+  }
+
+  public isMember(camera: Pick<CameraState, 'id' | 'mac' | 'name'>): boolean {
+    return this.config.cameras.some((key) => matchesCamera(key, camera));
+  }
+
+  private configureAccessoryInformation(): void {
+    const infoService = this.accessory.getService(this.platform.Service.AccessoryInformation);
+    if (infoService) {
+      infoService
+        .setCharacteristic(this.platform.Characteristic.Manufacturer, 'Ubiquiti')
+        .setCharacteristic(this.platform.Characteristic.Model, 'UniFi Protect Camera Group')
+        .setCharacteristic(this.platform.Characteristic.SerialNumber, this.accessory.UUID);
+    }
+  }
+
+  private getOrAddService(
+    serviceType:
+      | typeof this.platform.Service.MotionSensor
+      | typeof this.platform.Service.OccupancySensor
+      | typeof this.platform.Service.Switch,
+    displayName: string,
+    subtype: string,
+  ): Service {
+    const existingService = this.accessory.getServiceById(serviceType, subtype);
+    if (existingService) {
+      return existingService;
+    }
+
+    const service = this.accessory.addService(serviceType, displayName, subtype);
+    service.addOptionalCharacteristic(this.platform.Characteristic.ConfiguredName);
+    service.setCharacteristic(this.platform.Characteristic.ConfiguredName, displayName);
+    return service;
+  }
+
+  private removeServiceById(serviceType: typeof this.platform.Service.Switch, subtype: string): null {
+    const service = this.accessory.getServiceById(serviceType, subtype);
+    if (service) {
+      this.accessory.removeService(service);
+    }
+    return null;
+  }
+
+  private configureMotionSensor(): Service {
+    const service = this.getOrAddService(this.platform.Service.MotionSensor, 'Motion', 'group-motion');
+    service.getCharacteristic(this.platform.Characteristic.MotionDetected).onGet(() => this.motionDetected);
+    return service;
+  }
+
+  private configureOccupancySensor(): Service {
+    const service = this.getOrAddService(this.platform.Service.OccupancySensor, 'Occupancy', 'group-occupancy');
+    service.getCharacteristic(this.platform.Characteristic.OccupancyDetected).onGet(() => this.occupancyValue);
+    return service;
+  }
+
+  private configureSwitch(
+    displayName: string,
+    subtype: string,
+    setting: string,
+    read: (camera: CameraState) => boolean,
+    apply: (camera: CameraAccessory, on: boolean) => Promise<boolean>,
+    canChange: CameraCheck,
+  ): Service {
+    const service = this.getOrAddService(this.platform.Service.Switch, displayName, subtype);
+    this.switchChecks.set(service, canChange);
+
+    service
+      .getCharacteristic(this.platform.Characteristic.On)
+      .onGet(() => this.allMembers(read))
+      .onSet((value) => {
+        // Updating many cameras can take a while, so don't hold up HomeKit waiting for it
+        void this.applyToMembers(setting, (camera) => apply(camera, value as boolean));
+      });
+
+    return service;
+  }
+
+  // Like the camera switches, a group switch is read-only unless the account can change the setting on every member
+  private updateSwitchPerms(): void {
+    const { Perms } = this.platform.api.hap;
+    const members = this.members;
+
+    for (const [service, canChange] of this.switchChecks) {
+      const writable = members.every(canChange);
+      if (this.writableSwitches.get(service) === writable) {
+        continue;
+      }
+
+      this.writableSwitches.set(service, writable);
+      const perms: Perms[] = writable
+        ? [Perms.PAIRED_READ, Perms.PAIRED_WRITE, Perms.NOTIFY]
+        : [Perms.PAIRED_READ, Perms.NOTIFY];
+      service.getCharacteristic(this.platform.Characteristic.On).setProps({ perms });
+    }
+  }
+
+  // A group switch is on when it's on for every member, so turning it on always has something to do
+  private allMembers(read: (camera: CameraState) => boolean): boolean {
+    const members = this.members;
+    return members.length > 0 && members.every((camera) => read(camera.state));
+  }
+
+  private get occupancyValue(): number {
+    const { OccupancyDetected } = this.platform.Characteristic;
+    return this.occupied ? OccupancyDetected.OCCUPANCY_DETECTED : OccupancyDetected.OCCUPANCY_NOT_DETECTED;
+  }
+
+  private async applyToMembers(
+    setting: string,
+    apply: (camera: CameraAccessory) => Promise<boolean>,
+  ): Promise<string[]> {
+    const failures = await updateCameras(this.members, (camera) => [[camera.state.name, () => apply(camera)]]);
+
+    if (failures.length > 0) {
+      this.platform.log.warn(
+        `${setting} was only partly applied to ${this.name}, failed to update: ${failures.join(', ')}`,
+      );
+    }
+
+    // Members report their own changes, but make sure the switch ends up matching them after failures
+    this.refresh();
+    return failures;
+  }
+
+  public handleCameraState(state: CameraState): void {
+    if (this.isMember(state)) {
+      this.refresh();
+    }
+  }
+
+  public refresh(): void {
+    const { Characteristic } = this.platform;
+    const motionDetected = this.members.some((camera) => camera.state.motionDetected);
+
+    if (motionDetected !== this.motionDetected) {
+      this.motionDetected = motionDetected;
+      this.platform.debugLog(`Motion ${motionDetected ? 'detected' : 'stopped'} in group ${this.name}`);
+      this.updateOccupancy();
+    }
+
+    this.motionSensor.updateCharacteristic(Characteristic.MotionDetected, motionDetected);
+
+    this.motionSwitch?.updateCharacteristic(
+      Characteristic.On,
+      this.allMembers((camera) => camera.motionEnabled),
+    );
+    this.ledSwitch?.updateCharacteristic(
+      Characteristic.On,
+      this.allMembers((camera) => camera.ledEnabled),
+    );
+    this.updateSwitchPerms();
+  }
+
+  // Occupancy starts with motion and holds for a while after the last member stops, to bridge gaps between cameras
+  private updateOccupancy(): void {
+    if (this.occupancyTimeout) {
+      clearTimeout(this.occupancyTimeout);
+      this.occupancyTimeout = null;
+    }
+
+    if (this.motionDetected) {
+      this.setOccupied(true);
+      return;
+    }
+
+    this.occupancyTimeout = setTimeout(() => {
+      this.occupancyTimeout = null;
+      this.setOccupied(false);
+    }, this.holdTime * 1000);
+  }
+
+  private setOccupied(occupied: boolean): void {
+    if (occupied === this.occupied) {
+      return;
+    }
+
+    this.occupied = occupied;
+    this.occupancySensor.updateCharacteristic(this.platform.Characteristic.OccupancyDetected, this.occupancyValue);
+  }
+
+  public dispose(): void {
+    if (this.occupancyTimeout) {
+      clearTimeout(this.occupancyTimeout);
+      this.occupancyTimeout = null;
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+
+import type { CameraAccessory } from './camera-accessory.js';
+import { updateCameras } from './camera-updates.js';
+
+describe('updateCameras', () => {
+  it('should update cameras one at a time and return the failed labels', async () => {
+    const order: string[] = [];
+    const update = (label: string, success: boolean) => async (): Promise<boolean> => {
+      order.push(`start ${label}`);
+      await Promise.resolve();
+      order.push(`end ${label}`);
+      return success;
+    };
+    const front = { name: 'Front' } as unknown as CameraAccessory;
+    const back = { name: 'Back' } as unknown as CameraAccessory;
+
+    const failures = await updateCameras([front, back], (camera) => {
+      const { name } = camera as unknown as { name: string };
+      return [
+        [`${name} LED`, update(`${name} LED`, true)],
+        [`${name} motion`, update(`${name} motion`, name === 'Back')],
+      ];
+    });
+
+    expect(failures).toEqual(['Front motion']);
+    expect(order).toEqual([
+      'start Front LED',
+      'end Front LED',
+      'start Front motion',
+      'end Front motion',
+      'start Back LED',
+      'end Back LED',
+      'start Back motion',
+      'end Back motion',
+    ]);
+  });
+});
@@ -0,0 +1,22 @@
+import type { CameraAccessory } from './camera-accessory.js';
+
+// A label to report if the update fails, and the update itself
+export type CameraUpdate = [label: string, apply: () => Promise<boolean>];
+
+// Cameras are updated one at a time so a busy controller isn't flooded with requests. Returns the failed labels.
+export async function updateCameras(
+  cameras: CameraAccessory[],
+  updates: (camera: CameraAccessory) => CameraUpdate[],
+): Promise<string[]> {
+  const failures: string[] = [];
+
+  for (const camera of cameras) {
+    for (const [label, apply] of updates(camera)) {
+      if (!(await apply())) {
+        failures.push(label);
+      }
+    }
+  }
+
+  return failures;
+}
@@ -0,0 +1,126 @@
+import type { API, CharacteristicSetHandler, PlatformAccessory, Service } from 'homebridge';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { ProtectClient } from './api/client.js';
+import { ChimeAccessory } from './chime-accessory.js';
+import type { ProtectMotionPlatform } from './platform.js';
+import { createMockAccessory, createMockAPI, createMockChime, createMockPlatform } from './test/mocks.js';
+
+describe('ChimeAccessory', () => {
+  let api: API;
+  let platform: ProtectMotionPlatform;
+  let client: ProtectClient;
+  let accessory: PlatformAccessory;
+
+  const createAccessory = (chimeOverrides: Record<string, unknown> = {}): ChimeAccessory => {
+    accessory.context.device = createMockChime(chimeOverrides);
+    return new ChimeAccessory(platform, accessory, client);
+  };
+
+  const chimeSwitch = (): Service => accessory.getServiceById('Switch' as never, 'chime-switch') as Service;
+
+  const setHandler = (): CharacteristicSetHandler =>
+    vi.mocked(chimeSwitch().getCharacteristic('On' as never).onSet).mock.calls[0][0];
+
+  const getHandler = (): (() => unknown) =>
+    vi.mocked(chimeSwitch().getCharacteristic('On' as never).onGet).mock.calls[0][0] as () => unknown;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    api = createMockAPI();
+    platform = createMockPlatform(api);
+    client = {
+      playChime: vi.fn().mockResolvedValue(true),
+    } as unknown as ProtectClient;
+    accessory = createMockAccessory('Hallway Chime', 'uuid-1');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should create a switch that starts off', () => {
+    createAccessory();
+
+    expect(chimeSwitch()).toBeDefined();
+    expect(chimeSwitch().updateCharacteristic).toHaveBeenCalledWith('On', false);
+    expect(getHandler()()).toBe(false);
+  });
+
+  it('should play the chime when the switch is turned on', async () => {
+    createAccessory();
+
+    await setHandler()(true, {} as never);
+
+    expect(client.playChime).toHaveBeenCalledWith(expect.objectContaining({ id: 'chime-1', name: 'Hallway Chime' }));
+  });
+
+  it('should ignore the switch being turned off', async () => {
+    createAccessory();
+
+    await setHandler()(false, {} as never);
+
+    expect(client.playChime).not.toHaveBeenCalled();
+  });
+
+  it('should turn the switch back off after a second', async () => {
+    createAccessory();
+    vi.mocked(chimeSwitch().updateCharacteristic).mockClear();
+
+    await setHandler()(true, {} as never);
+    expect(getHandler()()).toBe(true);
+
+    vi.advanceTimersByTime(1_000);
+
+    expect(chimeSwitch().updateCharacteristic).toHaveBeenCalledWith('On', false);
+    expect(getHandler()()).toBe(false);
+  });
+
+  it('should restart the reset when the chime is played again', async () => {
+    createAccessory();
+    vi.mocked(chimeSwitch().updateCharacteristic).mockClear();
+
+    await setHandler()(true, {} as never);
+    vi.advanceTimersByTime(600);
+    await setHandler()(true, {} as never);
+    vi.advanceTimersByTime(600);
+
+    expect(chimeSwitch().updateCharacteristic).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(400);
+
+    expect(chimeSwitch().updateCharacteristic).toHaveBeenCalledTimes(1);
+    expect(getHandler()()).toBe(false);
+  });
+
+  it('should turn the switch back off when the chime fails to play', async () => {
+    vi.mocked(client.playChime).mockResolvedValue(false);
+    createAccessory();
+    vi.mocked(chimeSwitch().updateCharacteristic).mockClear();
+
+    await setHandler()(true, {} as never);
+    vi.advanceTimersByTime(1_000);
+
+    expect(chimeSwitch().updateCharacteristic).toHaveBeenCalledWith('On', false);
+  });
+
+  it('should play the renamed chime after an update', async () => {
+    const chime = createAccessory();
+
+    chime.handleUpdate({ name: 'Front Hall Chime' });
+    await setHandler()(true, {} as never);
+
+    expect(client.playChime).toHaveBeenCalledWith(expect.objectContaining({ name: 'Front Hall Chime' }));
+  });
+
+  it('should not reset the switch after being disposed', async () => {
+    const chime = createAccessory();
+    await setHandler()(true, {} as never);
+    vi.mocked(chimeSwitch().updateCharacteristic).mockClear();
+
+    chime.dispose();
+    vi.advanceTimersByTime(1_000);
+
+    expect(chimeSwitch().updateCharacteristic).not.toHaveBeenCalled();
+  });
+});
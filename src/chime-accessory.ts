@@ -0,0 +1,83 @@
+import type { CharacteristicValue, PlatformAccessory, Service } from 'homebridge';
+
+import type { ProtectClient } from './api/client.js';
+import type { ProtectChime } from './api/types.js';
+import type { ProtectMotionPlatform } from './platform.js';
+
+const CHIME_SWITCH_RESET = 1; // seconds
+
+export class ChimeAccessory {
+  private readonly chimeSwitch: Service;
+  private resetTimeout: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly platform: ProtectMotionPlatform,
+    private readonly accessory: PlatformAccessory,
+    private readonly client: ProtectClient,
+  ) {
+    this.configureAccessoryInformation(this.chime);
+    this.chimeSwitch = this.configureChimeSwitch();
+
+    // Set initial values
+    this.chimeSwitch.updateCharacteristic(this.platform.Characteristic.On, false);
+  }
+
+  private get chime(): ProtectChime {
+    return this.accessory.context.device as ProtectChime;
+  }
+
+  private configureAccessoryInformation(chime: ProtectChime): void {
+    const infoService = this.accessory.getService(this.platform.Service.AccessoryInformation);
+    if (infoService) {
+      infoService
+        .setCharacteristic(this.platform.Characteristic.Manufacturer, 'Ubiquiti')
+        .setCharacteristic(this.platform.Characteristic.Model, chime.type || 'UniFi Chime')
+        .setCharacteristic(this.platform.Characteristic.SerialNumber, chime.mac || chime.id);
+    }
+  }
+
+  private configureChimeSwitch(): Service {
+    let service = this.accessory.getServiceById(this.platform.Service.Switch, 'chime-switch');
+    if (!service) {
+      service = this.accessory.addService(this.platform.Service.Switch, 'Play Chime', 'chime-switch');
+      service.addOptionalCharacteristic(this.platform.Characteristic.ConfiguredName);
+      service.setCharacteristic(this.platform.Characteristic.ConfiguredName, 'Play Chime');
+    }
+
+    service
+      .getCharacteristic(this.platform.Characteristic.On)
+      .onGet(() => this.resetTimeout !== null)
+      .onSet(this.playChime.bind(this));
+
+    return service;
+  }
+
+  private async playChime(value: CharacteristicValue): Promise<void> {
+    if (!value) {
+      return;
+    }
+
+    this.platform.debugLog(`Playing chime ${this.chime.name}`);
+    await this.client.playChime(this.chime);
+
+    // The switch is momentary, so turn it back off whether or not the chime played
+    if (this.resetTimeout) {
+      clearTimeout(this.resetTimeout);
+    }
+    this.resetTimeout = setTimeout(() => {
+      this.resetTimeout = null;
+      this.chimeSwitch.updateCharacteristic(this.platform.Characteristic.On, false);
+    }, CHIME_SWITCH_RESET * 1000);
+  }
+
+  public handleUpdate(payload: Partial<ProtectChime>): void {
+    this.accessory.context.device = { ...this.chime, ...payload };
+  }
+
+  public dispose(): void {
+    if (this.resetTimeout) {
+      clearTimeout(this.resetTimeout);
+      this.resetTimeout = null;
+    }
+  }
+}
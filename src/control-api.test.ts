@@ -0,0 +1,193 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { CameraAccessory, CameraState } from './camera-accessory.js';
+import { ControlApiServer } from './control-api.js';
+import { PluginMetrics } from './metrics.js';
+import { createMockLogger } from './test/mocks.js';
+
+describe('ControlApiServer', () => {
+  let log: ReturnType<typeof createMockLogger>;
+  let camera: CameraAccessory;
+  let server: ControlApiServer;
+
+  const request = async (path: string, init: RequestInit = {}, token = 'secret'): Promise<Response> =>
+    fetch(`http://127.0.0.1:${server.port}${path}`, {
+      ...init,
+      headers: { Authorization: `Bearer ${token}`, ...init.headers },
+    });
+
+  beforeEach(async () => {
+    log = createMockLogger();
+
+    const state: CameraState = {
+      id: 'camera-1',
+      name: 'Front Porch',
+      mac: 'AABBCCDDEEFF',
+      controller: '192.168.1.1',
+      connected: true,
+      motionDetected: false,
+      motionEnabled: true,
+      ledEnabled: true,
+      quietHours: false,
+    };
+    camera = {
+      get state() {
+        return { ...state };
+      },
+      setLedEnabled: vi.fn(async (enabled: boolean) => {
+        state.ledEnabled = enabled;
+        return true;
+      }),
+      setMotionEnabled: vi.fn().mockResolvedValue(false),
+      simulateMotion: vi.fn(() => {
+        state.motionDetected = true;
+      }),
+      getEvents: vi.fn(() => [{ type: 'motion', timestamp: 1000, suppressed: false }]),
+    } as unknown as CameraAccessory;
+
+    server = new ControlApiServer(log, { enabled: true, port: 0, token: 'secret' }, () => [camera]);
+    await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('should reject requests without the bearer token', async () => {
+    const response = await request('/cameras', {}, 'wrong');
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should list cameras with their state', async () => {
+    const response = await request('/cameras');
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual([expect.objectContaining({ id: 'camera-1', ledEnabled: true })]);
+  });
+
+  it('should find cameras by name', async () => {
+    const response = await request('/cameras/front%20porch');
+
+    expect(await response.json()).toEqual(expect.objectContaining({ id: 'camera-1' }));
+    expect((await request('/cameras/garage')).status).toBe(404);
+  });
+
+  it('should toggle the LED', async () => {
+    const response = await request('/cameras/camera-1/led', {
+      method: 'PUT',
+      body: JSON.stringify({ enabled: false }),
+    });
+
+    expect(camera.setLedEnabled).toHaveBeenCalledWith(false);
+    expect(await response.json()).toEqual(expect.objectContaining({ ledEnabled: false }));
+  });
+
+  it('should report failed updates', async () => {
+    const response = await request('/cameras/camera-1/motion-enabled', {
+      method: 'PUT',
+      body: JSON.stringify({ enabled: false }),
+    });
+
+    expect(camera.setMotionEnabled).toHaveBeenCalledWith(false);
+    expect(response.status).toBe(502);
+  });
+
+  it('should validate the request body', async () => {
+    const response = await request('/cameras/camera-1/led', { method: 'PUT', body: '{"enabled":"yes"}' });
+
+    expect(response.status).toBe(400);
+    expect(camera.setLedEnabled).not.toHaveBeenCalled();
+  });
+
+  it('should trigger motion', async () => {
+    const response = await request('/cameras/camera-1/motion', { method: 'POST' });
+
+    expect(camera.simulateMotion).toHaveBeenCalled();
+    expect(await response.json()).toEqual(expect.objectContaining({ motionDetected: true }));
+  });
+
+  it('should list recent events', async () => {
+    const response = await request('/cameras/camera-1/events?type=motion&limit=5&since=500');
+
+    expect(camera.getEvents).toHaveBeenCalledWith({ type: 'motion', limit: 5, since: 500 });
+    expect(await response.json()).toEqual([{ type: 'motion', timestamp: 1000, suppressed: false }]);
+  });
+
+  it('should validate event queries', async () => {
+    const response = await request('/cameras/camera-1/events?type=doorbell');
+
+    expect(response.status).toBe(400);
+    expect(camera.getEvents).not.toHaveBeenCalled();
+  });
+
+  it('should reject paths with invalid percent-encoding', async () => {
+    const response = await request('/cameras/%E0');
+
+    expect(response.status).toBe(400);
+    await expect(response.json()).resolves.toEqual({ error: 'Invalid URL encoding' });
+    expect(log.error).not.toHaveBeenCalled();
+  });
+
+  it('should reject the wrong method', async () => {
+    const response = await request('/cameras/camera-1/motion');
+
+    expect(response.status).toBe(405);
+  });
+
+  it('should not serve metrics unless they are turned on', async () => {
+    const response = await request('/metrics');
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('ControlApiServer with metrics', () => {
+  let metrics: PluginMetrics;
+  let server: ControlApiServer;
+
+  beforeEach(async () => {
+    metrics = new PluginMetrics();
+    server = new ControlApiServer(
+      createMockLogger(),
+      { enabled: true, port: 0, token: 'secret', metrics: true },
+      () => [],
+      metrics,
+    );
+    await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('should serve metrics in the Prometheus text format', async () => {
+    metrics.reconnects.inc({ controller: '192.168.1.1' });
+
+    const response = await fetch(`http://127.0.0.1:${server.port}/metrics`, {
+      headers: { Authorization: 'Bearer secret' },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('text/plain; version=0.0.4');
+    expect(await response.text()).toContain('protect_reconnect_attempts_total{controller="192.168.1.1"} 1');
+  });
+
+  it('should require the bearer token', async () => {
+    const response = await fetch(`http://127.0.0.1:${server.port}/metrics`);
+
+    expect(response.status).toBe(401);
+  });
+});
+
+describe('ControlApiServer without a token', () => {
+  it('should refuse to start', async () => {
+    const log = createMockLogger();
+    const server = new ControlApiServer(log, { enabled: true, port: 0 }, () => []);
+
+    await server.start();
+
+    expect(server.port).toBeNull();
+    expect(log.error).toHaveBeenCalledWith('Control API is enabled but no token is configured, not starting it');
+  });
+});
@@ -0,0 +1,237 @@
+import { timingSafeEqual } from 'node:crypto';
+import type { IncomingMessage, Server, ServerResponse } from 'node:http';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+import type { Logging } from 'homebridge';
+
+import type { CameraAccessory } from './camera-accessory.js';
+import type { EventQuery } from './event-store.js';
+import type { CameraEventType } from './events.js';
+import { CAMERA_EVENT_TYPES } from './events.js';
+import type { PluginMetrics } from './metrics.js';
+import type { ControlApiConfig } from './settings.js';
+import { DEFAULT_CONTROL_API_PORT, matchesCamera } from './settings.js';
+
+const MAX_BODY_SIZE = 16 * 1024; // bytes
+const DEFAULT_EVENT_LIMIT = 100;
+
+type CameraProvider = () => CameraAccessory[];
+
+class HttpError extends Error {
+  constructor(
+    public readonly statusCode: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export class ControlApiServer {
+  private server: Server | null = null;
+
+  constructor(
+    private readonly log: Logging,
+    private readonly config: ControlApiConfig,
+    private readonly getCameras: CameraProvider,
+    private readonly metrics: PluginMetrics | null = null,
+  ) {}
+
+  public get port(): number | null {
+    return (this.server?.address() as AddressInfo | null)?.port ?? null;
+  }
+
+  public async start(): Promise<void> {
+    if (!this.config.token) {
+      this.log.error('Control API is enabled but no token is configured, not starting it');
+      return;
+    }
+
+    const server = createServer((req, res) => {
+      void this.handleRequest(req, res);
+    });
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(this.config.port ?? DEFAULT_CONTROL_API_PORT, () => {
+          server.off('error', reject);
+          resolve();
+        });
+      });
+    } catch (error) {
+      this.log.error(`Failed to start control API: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return;
+    }
+
+    this.server = server;
+    this.log.info(`Control API listening on port ${this.port}`);
+  }
+
+  public async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+
+    this.server = null;
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    try {
+      if (!this.isAuthorized(req)) {
+        throw new HttpError(401, 'Unauthorized');
+      }
+
+      // Prometheus expects its own text format rather than JSON
+      if (this.metrics && new URL(req.url ?? '/', 'http://localhost').pathname === '/metrics') {
+        this.assertMethod(req, 'GET');
+        res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4' });
+        res.end(this.metrics.render());
+        return;
+      }
+
+      const result = await this.route(req);
+      this.sendJson(res, 200, result);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        this.sendJson(res, error.statusCode, { error: error.message });
+      } else {
+        this.log.error('Control API request failed:', error);
+        this.sendJson(res, 500, { error: 'Internal error' });
+      }
+    }
+  }
+
+  private isAuthorized(req: IncomingMessage): boolean {
+    const header = req.headers.authorization ?? '';
+    const expected = Buffer.from(`Bearer ${this.config.token}`);
+    const actual = Buffer.from(header);
+
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+
+  private async route(req: IncomingMessage): Promise<unknown> {
+    const { pathname, searchParams } = new URL(req.url ?? '/', 'http://localhost');
+    const [resource, identifier, action, ...rest] = this.readPathSegments(pathname);
+
+    if (resource !== 'cameras' || rest.length > 0) {
+      throw new HttpError(404, 'Not found');
+    }
+
+    if (!identifier) {
+      this.assertMethod(req, 'GET');
+      return this.getCameras().map((camera) => camera.state);
+    }
+
+    const camera = this.findCamera(identifier);
+
+    switch (action) {
+      case undefined:
+        this.assertMethod(req, 'GET');
+        return camera.state;
+
+      case 'led':
+        this.assertMethod(req, 'PUT');
+        return this.applySetting(camera, await this.readEnabled(req), (enabled) => camera.setLedEnabled(enabled));
+
+      case 'motion-enabled':
+        this.assertMethod(req, 'PUT');
+        return this.applySetting(camera, await this.readEnabled(req), (enabled) => camera.setMotionEnabled(enabled));
+
+      case 'motion':
+        this.assertMethod(req, 'POST');
+        camera.simulateMotion();
+        return camera.state;
+
+      case 'events':
+        this.assertMethod(req, 'GET');
+        return camera.getEvents(this.readEventQuery(searchParams));
+
+      default:
+        throw new HttpError(404, 'Not found');
+    }
+  }
+
+  private readPathSegments(pathname: string): string[] {
+    try {
+      return pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    } catch {
+      throw new HttpError(400, 'Invalid URL encoding');
+    }
+  }
+
+  private assertMethod(req: IncomingMessage, method: string): void {
+    if (req.method !== method) {
+      throw new HttpError(405, 'Method not allowed');
+    }
+  }
+
+  private findCamera(identifier: string): CameraAccessory {
+    const camera = this.getCameras().find((accessory) => matchesCamera(identifier, accessory.state));
+    if (!camera) {
+      throw new HttpError(404, `Camera not found: ${identifier}`);
+    }
+    return camera;
+  }
+
+  private async applySetting(
+    camera: CameraAccessory,
+    enabled: boolean,
+    update: (enabled: boolean) => Promise<boolean>,
+  ): Promise<unknown> {
+    if (!(await update(enabled))) {
+      throw new HttpError(502, `Unable to update ${camera.state.name}, check the Homebridge logs`);
+    }
+    return camera.state;
+  }
+
+  private readEventQuery(params: URLSearchParams): EventQuery {
+    const type = params.get('type') ?? undefined;
+    if (type !== undefined && !(CAMERA_EVENT_TYPES as readonly string[]).includes(type)) {
+      throw new HttpError(400, `Unknown event type: ${type}`);
+    }
+
+    const limit = Number(params.get('limit') ?? DEFAULT_EVENT_LIMIT);
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new HttpError(400, 'limit must be a positive whole number');
+    }
+
+    const since = params.has('since') ? Number(params.get('since')) : undefined;
+    if (since !== undefined && !Number.isFinite(since)) {
+      throw new HttpError(400, 'since must be a timestamp in milliseconds');
+    }
+
+    return { type: type as CameraEventType | undefined, limit, since };
+  }
+
+  private async readEnabled(req: IncomingMessage): Promise<boolean> {
+    let body = '';
+    for await (const chunk of req) {
+      body += chunk;
+      if (body.length > MAX_BODY_SIZE) {
+        throw new HttpError(413, 'Request body too large');
+      }
+    }
+
+    let enabled: unknown;
+    try {
+      enabled = (JSON.parse(body) as { enabled?: unknown }).enabled;
+    } catch {
+      throw new HttpError(400, 'Request body must be JSON');
+    }
+
+    if (typeof enabled !== 'boolean') {
+      throw new HttpError(400, 'Request body must include "enabled": true or false');
+    }
+    return enabled;
+  }
+
+  private sendJson(res: ServerResponse, statusCode: number, body: unknown): void {
+    res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
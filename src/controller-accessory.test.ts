@@ -0,0 +1,113 @@
+import type { API, PlatformAccessory, Service } from 'homebridge';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { ConnectionState, ProtectClient } from './api/client.js';
+import type { ProtectNvr } from './api/types.js';
+import { ControllerAccessory } from './controller-accessory.js';
+import type { ProtectMotionPlatform } from './platform.js';
+import { createMockAccessory, createMockAPI, createMockPlatform } from './test/mocks.js';
+
+describe('ControllerAccessory', () => {
+  let api: API;
+  let platform: ProtectMotionPlatform;
+  let client: ProtectClient;
+  let accessory: PlatformAccessory;
+  let stateHandler: (state: ConnectionState) => void;
+
+  const nvr: ProtectNvr = {
+    id: 'nvr-1',
+    name: 'Home NVR',
+    type: 'UNVR',
+    mac: '001122334455',
+    isRecordingDisabled: false,
+    storageStats: { utilization: 42.5 },
+    systemInfo: {
+      cpu: { averageLoad: 0.5, temperature: 55 },
+      storage: { size: 1000, used: 425, devices: [{ model: 'WD Purple', healthy: true }] },
+    },
+  };
+
+  const createAccessory = (): ControllerAccessory => new ControllerAccessory(platform, accessory, client);
+
+  const getService = (type: string, subtype: string): Service =>
+    accessory.getServiceById(type as never, subtype) as Service;
+
+  // The last value set for one characteristic, as the services update several at once
+  const lastValue = (service: Service, characteristic: unknown): unknown =>
+    vi
+      .mocked(service.updateCharacteristic)
+      .mock.calls.filter(([name]) => name === characteristic)
+      .at(-1)?.[1];
+
+  const setConnected = (connected: boolean): void => {
+    Object.assign(client, { isConnected: connected });
+    stateHandler(connected ? 'connected' : 'reconnecting');
+  };
+
+  beforeEach(() => {
+    api = createMockAPI();
+    platform = createMockPlatform(api);
+    client = {
+      isConnected: true,
+      onStateChange: vi.fn((handler: (state: ConnectionState) => void) => {
+        stateHandler = handler;
+        return vi.fn();
+      }),
+    } as unknown as ProtectClient;
+    accessory = createMockAccessory('UniFi Protect 192.168.1.1', 'uuid-1');
+    accessory.context.controllerAddress = '192.168.1.1';
+  });
+
+  it('should report storage, temperature and recording from the NVR', () => {
+    createAccessory().updateNvr(nvr);
+
+    expect(getService('HumiditySensor', 'storage').updateCharacteristic).toHaveBeenCalledWith(
+      'CurrentRelativeHumidity',
+      42.5,
+    );
+    expect(getService('TemperatureSensor', 'cpu-temperature').updateCharacteristic).toHaveBeenCalledWith(
+      'CurrentTemperature',
+      55,
+    );
+    expect(lastValue(getService('ContactSensor', 'recording'), api.hap.Characteristic.ContactSensorState)).toBe(0);
+    expect(lastValue(getService('OccupancySensor', 'storage-full'), api.hap.Characteristic.OccupancyDetected)).toBe(0);
+  });
+
+  it('should open the connection contact and fault the readings while disconnected', () => {
+    createAccessory().updateNvr(nvr);
+
+    setConnected(false);
+
+    expect(lastValue(getService('ContactSensor', 'connection'), api.hap.Characteristic.ContactSensorState)).toBe(1);
+    expect(lastValue(getService('TemperatureSensor', 'cpu-temperature'), api.hap.Characteristic.StatusFault)).toBe(1);
+
+    setConnected(true);
+
+    expect(lastValue(getService('ContactSensor', 'connection'), api.hap.Characteristic.ContactSensorState)).toBe(0);
+  });
+
+  it('should warn once when storage fills up', () => {
+    const controllerAccessory = createAccessory();
+    controllerAccessory.updateNvr(nvr);
+
+    controllerAccessory.handleUpdate({ storageStats: { utilization: 96 } });
+    controllerAccessory.handleUpdate({ storageStats: { utilization: 97 } });
+
+    expect(platform.log.warn).toHaveBeenCalledTimes(1);
+    expect(platform.log.warn).toHaveBeenCalledWith('Storage on 192.168.1.1 is 96% full');
+    expect(lastValue(getService('OccupancySensor', 'storage-full'), api.hap.Characteristic.OccupancyDetected)).toBe(1);
+  });
+
+  it('should merge partial system info updates', () => {
+    const controllerAccessory = createAccessory();
+    controllerAccessory.updateNvr(nvr);
+
+    controllerAccessory.handleUpdate({
+      systemInfo: { storage: { size: 1000, used: 500, devices: [{ model: 'WD Purple', healthy: false }] } },
+    });
+
+    expect(accessory.context.nvr.systemInfo.cpu.temperature).toBe(55);
+    expect(platform.log.warn).toHaveBeenCalledWith('Recording is unavailable on 192.168.1.1');
+    expect(lastValue(getService('ContactSensor', 'recording'), api.hap.Characteristic.ContactSensorState)).toBe(1);
+  });
+});
@@ -0,0 +1,175 @@
+import type { PlatformAccessory, Service } from 'homebridge';
+
+import type { ConnectionState, ProtectClient } from './api/client.js';
+import type { ProtectNvr } from './api/types.js';
+import type { ProtectMotionPlatform } from './platform.js';
+
+const STORAGE_FULL_THRESHOLD = 95; // percent
+
+export class ControllerAccessory {
+  private readonly connectionSensor: Service;
+  private readonly recordingSensor: Service;
+  private readonly storageSensor: Service;
+  private readonly storageFullSensor: Service;
+  private readonly temperatureSensor: Service;
+  private readonly unsubscribeState: () => void;
+
+  constructor(
+    private readonly platform: ProtectMotionPlatform,
+    private readonly accessory: PlatformAccessory,
+    private readonly client: ProtectClient,
+  ) {
+    const { Service } = this.platform;
+
+    this.configureAccessoryInformation();
+    this.connectionSensor = this.getOrAddService(Service.ContactSensor, 'Connection', 'connection');
+    this.recordingSensor = this.getOrAddService(Service.ContactSensor, 'Recording', 'recording');
+    this.storageSensor = this.getOrAddService(Service.HumiditySensor, 'Storage Used', 'storage');
+    this.storageFullSensor = this.getOrAddService(Service.OccupancySensor, 'Storage Full', 'storage-full');
+    this.temperatureSensor = this.getOrAddService(Service.TemperatureSensor, 'CPU Temperature', 'cpu-temperature');
+
+    // Set initial values
+    this.updateState();
+
+    this.unsubscribeState = this.client.onStateChange((state) => this.handleConnectionStateChange(state));
+  }
+
+  private get nvr(): ProtectNvr | undefined {
+    return this.accessory.context.nvr as ProtectNvr | undefined;
+  }
+
+  private get controllerAddress(): string {
+    return this.accessory.context.controllerAddress;
+  }
+
+  // Percentage of the recording storage in use, preferring Protect's own figure
+  private get storageUsed(): number | null {
+    const nvr = this.nvr;
+    if (nvr?.storageStats?.utilization !== undefined) {
+      return nvr.storageStats.utilization;
+    }
+
+    const storage = nvr?.systemInfo?.storage;
+    return storage?.size ? (storage.used / storage.size) * 100 : null;
+  }
+
+  private get isRecordingAvailable(): boolean {
+    const nvr = this.nvr;
+    const devices = nvr?.systemInfo?.storage?.devices ?? [];
+    return this.client.isConnected && !nvr?.isRecordingDisabled && devices.every((device) => device.healthy);
+  }
+
+  private configureAccessoryInformation(): void {
+    const infoService = this.accessory.getService(this.platform.Service.AccessoryInformation);
+    if (infoService) {
+      infoService
+        .setCharacteristic(this.platform.Characteristic.Manufacturer, 'Ubiquiti')
+        .setCharacteristic(this.platform.Characteristic.Model, this.nvr?.type || 'UniFi Protect')
+        .setCharacteristic(this.platform.Characteristic.SerialNumber, this.nvr?.mac || this.controllerAddress);
+    }
+  }
+
+  private getOrAddService(
+    serviceType:
+      | typeof this.platform.Service.ContactSensor
+      | typeof this.platform.Service.HumiditySensor
+      | typeof this.platform.Service.OccupancySensor
+      | typeof this.platform.Service.TemperatureSensor,
+    displayName: string,
+    subtype: string,
+  ): Service {
+    const existingService = this.accessory.getServiceById(serviceType, subtype);
+    if (existingService) {
+      existingService.setCharacteristic(this.platform.Characteristic.Name, displayName);
+      return existingService;
+    }
+
+    const service = this.accessory.addService(serviceType, displayName, subtype);
+    service.addOptionalCharacteristic(this.platform.Characteristic.ConfiguredName);
+    service.setCharacteristic(this.platform.Characteristic.ConfiguredName, displayName);
+    return service;
+  }
+
+  public updateNvr(nvr: ProtectNvr): void {
+    this.handleUpdate(nvr);
+    this.configureAccessoryInformation();
+    this.platform.api.updatePlatformAccessories([this.accessory]);
+  }
+
+  public handleUpdate(payload: Partial<ProtectNvr>): void {
+    const nvr = this.nvr;
+    const wasStorageFull = (this.storageUsed ?? 0) >= STORAGE_FULL_THRESHOLD;
+    const wasRecordingAvailable = this.isRecordingAvailable;
+
+    // System info and storage stats arrive a section at a time, so merge rather than replace them
+    this.accessory.context.nvr = {
+      ...nvr,
+      ...payload,
+      systemInfo: payload.systemInfo ? { ...nvr?.systemInfo, ...payload.systemInfo } : nvr?.systemInfo,
+      storageStats: payload.storageStats ? { ...nvr?.storageStats, ...payload.storageStats } : nvr?.storageStats,
+    };
+
+    const storageUsed = this.storageUsed;
+    if (storageUsed !== null && storageUsed >= STORAGE_FULL_THRESHOLD && !wasStorageFull) {
+      this.platform.log.warn(`Storage on ${this.controllerAddress} is ${Math.round(storageUsed)}% full`);
+    }
+    if (wasRecordingAvailable && !this.isRecordingAvailable && this.client.isConnected) {
+      this.platform.log.warn(`Recording is unavailable on ${this.controllerAddress}`);
+    }
+
+    this.updateState();
+  }
+
+  private handleConnectionStateChange(state: ConnectionState): void {
+    this.platform.debugLog(`Controller status for ${this.controllerAddress} is ${state}`);
+    this.updateState();
+  }
+
+  private updateState(): void {
+    const { Characteristic } = this.platform;
+    const connected = this.client.isConnected;
+    const statusFault = connected ? Characteristic.StatusFault.NO_FAULT : Characteristic.StatusFault.GENERAL_FAULT;
+
+    // An open contact means there's a problem, so automations can treat these like a door alarm
+    this.connectionSensor.updateCharacteristic(
+      Characteristic.ContactSensorState,
+      connected
+        ? Characteristic.ContactSensorState.CONTACT_DETECTED
+        : Characteristic.ContactSensorState.CONTACT_NOT_DETECTED,
+    );
+    this.recordingSensor.updateCharacteristic(
+      Characteristic.ContactSensorState,
+      this.isRecordingAvailable
+        ? Characteristic.ContactSensorState.CONTACT_DETECTED
+        : Characteristic.ContactSensorState.CONTACT_NOT_DETECTED,
+    );
+
+    const storageUsed = this.storageUsed;
+    if (storageUsed !== null) {
+      this.storageSensor.updateCharacteristic(
+        Characteristic.CurrentRelativeHumidity,
+        Math.min(100, Math.max(0, storageUsed)),
+      );
+    }
+    this.storageFullSensor.updateCharacteristic(
+      Characteristic.OccupancyDetected,
+      storageUsed !== null && storageUsed >= STORAGE_FULL_THRESHOLD
+        ? Characteristic.OccupancyDetected.OCCUPANCY_DETECTED
+        : Characteristic.OccupancyDetected.OCCUPANCY_NOT_DETECTED,
+    );
+
+    const temperature = this.nvr?.systemInfo?.cpu?.temperature;
+    if (temperature !== undefined) {
+      this.temperatureSensor.updateCharacteristic(Characteristic.CurrentTemperature, temperature);
+    }
+
+    // Readings are stale while the controller can't be reached
+    for (const service of [this.recordingSensor, this.storageSensor, this.storageFullSensor, this.temperatureSensor]) {
+      service.updateCharacteristic(Characteristic.StatusFault, statusFault);
+    }
+  }
+
+  public dispose(): void {
+    this.unsubscribeState();
+  }
+}
@@ -0,0 +1,142 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { CredentialsError, resolveCredentials } from './credentials.js';
+
+describe('resolveCredentials', () => {
+  const address = '192.168.1.1';
+  let storagePath: string;
+
+  beforeEach(() => {
+    storagePath = mkdtempSync(join(tmpdir(), 'protect-credentials-'));
+  });
+
+  afterEach(() => {
+    rmSync(storagePath, { recursive: true, force: true });
+  });
+
+  const writeSecrets = (contents: string): void => writeFileSync(join(storagePath, 'protect.json'), contents);
+
+  it('should use the username and password from the config', () => {
+    expect(resolveCredentials({ address, username: 'admin', password: 'secret' }, storagePath, {})).toEqual({
+      username: 'admin',
+      password: 'secret',
+    });
+  });
+
+  it('should read the password from an environment variable', () => {
+    const credentials = resolveCredentials(
+      { address, username: 'admin', passwordEnv: 'PROTECT_PASSWORD' },
+      storagePath,
+      {
+        PROTECT_PASSWORD: 'from-env',
+      },
+    );
+
+    expect(credentials).toEqual({ username: 'admin', password: 'from-env' });
+  });
+
+  it('should prefer the password in the config over the environment', () => {
+    const credentials = resolveCredentials(
+      { address, username: 'admin', password: 'secret', passwordEnv: 'PROTECT_PASSWORD' },
+      storagePath,
+      { PROTECT_PASSWORD: 'from-env' },
+    );
+
+    expect(credentials).toEqual({ username: 'admin', password: 'secret' });
+  });
+
+  it('should report an environment variable that is not set', () => {
+    expect(() =>
+      resolveCredentials({ address, username: 'admin', passwordEnv: 'PROTECT_PASSWORD' }, storagePath, {}),
+    ).toThrow(
+      new CredentialsError(
+        `Controller configuration for ${address} missing password, environment variable PROTECT_PASSWORD isn't set`,
+      ),
+    );
+  });
+
+  it('should fall back to the secrets file when the environment variable is not set', () => {
+    writeSecrets(JSON.stringify({ password: 'from-file' }));
+
+    const credentials = resolveCredentials(
+      { address, username: 'admin', passwordEnv: 'PROTECT_PASSWORD', secretsFile: 'protect.json' },
+      storagePath,
+      {},
+    );
+
+    expect(credentials).toEqual({ username: 'admin', password: 'from-file' });
+  });
+
+  it('should read the login from a secrets file relative to the storage path', () => {
+    writeSecrets(JSON.stringify({ username: 'admin', password: 'from-file' }));
+
+    expect(resolveCredentials({ address, secretsFile: 'protect.json' }, storagePath, {})).toEqual({
+      username: 'admin',
+      password: 'from-file',
+    });
+  });
+
+  it('should let the config override the username in a secrets file', () => {
+    writeSecrets(JSON.stringify({ username: 'admin', password: 'from-file' }));
+
+    const credentials = resolveCredentials(
+      { address, username: 'homebridge', secretsFile: join(storagePath, 'protect.json') },
+      '/elsewhere',
+      {},
+    );
+
+    expect(credentials).toEqual({ username: 'homebridge', password: 'from-file' });
+  });
+
+  it('should report secrets files that are missing or not JSON', () => {
+    expect(() => resolveCredentials({ address, secretsFile: 'protect.json' }, storagePath, {})).toThrow(
+      `Unable to read the secrets file for ${address} at ${join(storagePath, 'protect.json')}: ENOENT`,
+    );
+
+    writeSecrets('password=secret');
+    expect(() => resolveCredentials({ address, secretsFile: 'protect.json' }, storagePath, {})).toThrow(
+      'it is not valid JSON',
+    );
+  });
+
+  it('should use an API key instead of the username and password', () => {
+    expect(
+      resolveCredentials({ address, username: 'admin', password: 'secret', apiKey: 'key' }, storagePath, {}),
+    ).toEqual({ apiKey: 'key' });
+    expect(
+      resolveCredentials({ address, apiKeyEnv: 'PROTECT_API_KEY' }, storagePath, { PROTECT_API_KEY: 'from-env' }),
+    ).toEqual({ apiKey: 'from-env' });
+
+    writeSecrets(JSON.stringify({ apiKey: 'from-file' }));
+    expect(resolveCredentials({ address, secretsFile: 'protect.json' }, storagePath, {})).toEqual({
+      apiKey: 'from-file',
+    });
+  });
+
+  it('should fall back to the password when the API key variable is not set', () => {
+    expect(
+      resolveCredentials(
+        { address, username: 'admin', password: 'secret', apiKeyEnv: 'PROTECT_API_KEY' },
+        storagePath,
+        {},
+      ),
+    ).toEqual({ username: 'admin', password: 'secret' });
+
+    expect(() => resolveCredentials({ address, apiKeyEnv: 'PROTECT_API_KEY' }, storagePath, {})).toThrow(
+      `Controller configuration for ${address} missing API key, environment variable PROTECT_API_KEY isn't set`,
+    );
+  });
+
+  it('should require a username and password', () => {
+    expect(() => resolveCredentials({ address, password: 'secret' }, storagePath, {})).toThrow(
+      `Controller configuration for ${address} missing username`,
+    );
+    expect(() => resolveCredentials({ address, username: 'admin' }, storagePath, {})).toThrow(
+      `Controller configuration for ${address} missing password`,
+    );
+  });
+});
@@ -0,0 +1,75 @@
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+
+import type { ControllerConfig } from './settings.js';
+
+export interface UserCredentials {
+  username: string;
+  password: string;
+}
+
+export interface ApiKeyCredentials {
+  apiKey: string;
+}
+
+export type ControllerCredentials = UserCredentials | ApiKeyCredentials;
+
+export class CredentialsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CredentialsError';
+  }
+}
+
+function readSecretsFile(path: string, address: string): Partial<UserCredentials & ApiKeyCredentials> {
+  let contents: unknown;
+  try {
+    contents = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    const reason = error instanceof SyntaxError ? 'it is not valid JSON' : (error as NodeJS.ErrnoException).code;
+    throw new CredentialsError(`Unable to read the secrets file for ${address} at ${path}: ${reason}`);
+  }
+
+  const { username, password, apiKey } = (contents ?? {}) as Record<string, unknown>;
+  return {
+    username: typeof username === 'string' ? username : undefined,
+    password: typeof password === 'string' ? password : undefined,
+    apiKey: typeof apiKey === 'string' ? apiKey : undefined,
+  };
+}
+
+// The password comes from the config, the environment variable named by passwordEnv, or the secrets file, in that
+// order. An API key found the same way is used instead of the username and password. Relative secrets file paths are
+// relative to the Homebridge storage directory.
+export function resolveCredentials(
+  controller: ControllerConfig,
+  storagePath: string,
+  env: NodeJS.ProcessEnv = process.env,
+): ControllerCredentials {
+  const { address } = controller;
+  const secrets = controller.secretsFile ? readSecretsFile(resolve(storagePath, controller.secretsFile), address) : {};
+
+  const apiKey = controller.apiKey || (controller.apiKeyEnv ? env[controller.apiKeyEnv] : undefined) || secrets.apiKey;
+  if (apiKey) {
+    return { apiKey };
+  }
+
+  // An unset variable falls through to the secrets file, and is only reported if nothing else has a password
+  const fromEnv = controller.passwordEnv ? env[controller.passwordEnv] : undefined;
+  const password = controller.password || fromEnv || secrets.password;
+
+  const username = controller.username || secrets.username;
+  if (controller.apiKeyEnv && !username && !password) {
+    throw new CredentialsError(
+      `Controller configuration for ${address} missing API key, environment variable ${controller.apiKeyEnv} isn't set`,
+    );
+  }
+  if (!username) {
+    throw new CredentialsError(`Controller configuration for ${address} missing username`);
+  }
+  if (!password) {
+    const reason = controller.passwordEnv ? `, environment variable ${controller.passwordEnv} isn't set` : '';
+    throw new CredentialsError(`Controller configuration for ${address} missing password${reason}`);
+  }
+  return { username, password };
+}
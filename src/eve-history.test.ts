@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+
+import { MotionHistoryLog } from './eve-history.js';
+
+const EPOCH_OFFSET = 978307200;
+
+const decode = (value: string): string => Buffer.from(value, 'base64').toString('hex');
+
+// Eve asks for entries starting at an address, as bytes 2-5 of the request
+const request = (address: number): string => {
+  const buffer = Buffer.alloc(6);
+  buffer.writeUInt32LE(address, 2);
+  return buffer.toString('base64');
+};
+
+describe('MotionHistoryLog', () => {
+  const start = (EPOCH_OFFSET + 1000) * 1000;
+
+  it('should report the reference time and next address in the status', () => {
+    const log = MotionHistoryLog.create(start);
+    log.addEntry(true, start + 30_000);
+    log.addEntry(false, start + 40_000);
+
+    const status = decode(log.status);
+
+    expect(status.slice(0, 8)).toBe('28000000'); // 40 seconds since the reference time
+    expect(status.slice(16, 24)).toBe('e8030000'); // reference time of 1000 seconds
+    expect(status.slice(24, 34)).toBe('0213011c01'); // motion sensor signature
+    expect(status.slice(34, 38)).toBe('0400'); // entries 1-3 are used
+  });
+
+  it('should send the reference entry followed by motion entries', () => {
+    const log = MotionHistoryLog.create(start);
+    log.addEntry(true, start + 30_000);
+    log.addEntry(false, start + 40_000);
+
+    log.requestEntries(request(1));
+    const entries = decode(log.readEntries());
+
+    // Reference entry, then address, seconds since the reference, motion type and status for each entry
+    expect(entries).toBe(
+      [
+        '15' + '01000000' + '0100000081' + 'e8030000' + '00000000000000',
+        '0b' + '02000000' + '1e000000' + '02' + '01',
+        '0b' + '03000000' + '28000000' + '02' + '00',
+      ].join(''),
+    );
+    expect(decode(log.readEntries())).toBe('00');
+  });
+
+  it('should send entries in batches', () => {
+    const log = MotionHistoryLog.create(start);
+    for (let index = 0; index < 20; index++) {
+      log.addEntry(index % 2 === 0, start + index * 1000);
+    }
+
+    log.requestEntries(request(1));
+
+    expect(decode(log.readEntries()).match(/0b[0-9a-f]{2}000000/g)).toHaveLength(10);
+    expect(decode(log.readEntries()).match(/0b[0-9a-f]{2}000000/g)).toHaveLength(10);
+  });
+
+  it('should drop the oldest entries once full', () => {
+    const log = MotionHistoryLog.create(start);
+    for (let index = 0; index < 1100; index++) {
+      log.addEntry(index % 2 === 0, start + index * 1000);
+    }
+
+    expect(log.state.entries).toHaveLength(1023);
+    expect(decode(log.status).slice(34, 38)).toBe('0004'); // full memory of 1024 entries
+  });
+});
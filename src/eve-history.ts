@@ -0,0 +1,238 @@
+import type { API, Characteristic, CharacteristicProps, PlatformAccessory, Service, WithUUID } from 'homebridge';
+
+const EPOCH_OFFSET = 978307200; // seconds between 1970 and 2001, where Eve's clock starts
+const MEMORY_SIZE = 1024; // entries, including the reference time
+const ENTRIES_PER_READ = 11;
+const MOTION_SIGNATURE = '0213011c01';
+const MOTION_ENTRY_TYPE = '02';
+
+const HISTORY_SERVICE_UUID = 'E863F007-079E-48FF-8F27-9C2605A29F52';
+
+export interface EveHistoryEntry {
+  time: number; // seconds since 1970
+  status: 0 | 1;
+}
+
+export interface EveHistoryData {
+  refTime: number; // seconds since 2001
+  firstAddress: number;
+  entries: EveHistoryEntry[];
+}
+
+const uint16 = (value: number): string => {
+  const buffer = Buffer.alloc(2);
+  buffer.writeUInt16LE(value);
+  return buffer.toString('hex');
+};
+
+const uint32 = (value: number): string => {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32LE(value >>> 0);
+  return buffer.toString('hex');
+};
+
+const toBase64 = (hex: string): string => Buffer.from(hex, 'hex').toString('base64');
+
+// Eve's history protocol, as worked out by the fakegato-history project, limited to motion sensors.
+// Entries live at consecutive addresses starting from 1, which holds the reference time.
+export class MotionHistoryLog {
+  private nextReadAddress: number | null = null;
+
+  constructor(private readonly data: EveHistoryData) {}
+
+  public static create(now: number = Date.now()): MotionHistoryLog {
+    return new MotionHistoryLog({ refTime: Math.floor(now / 1000) - EPOCH_OFFSET, firstAddress: 2, entries: [] });
+  }
+
+  public get state(): EveHistoryData {
+    return this.data;
+  }
+
+  public get initialTime(): number {
+    return this.data.refTime + EPOCH_OFFSET;
+  }
+
+  private get lastAddress(): number {
+    return this.data.firstAddress + this.data.entries.length - 1;
+  }
+
+  // Once old entries have been dropped, Eve expects the reference time in place of the oldest one
+  private get isWrapped(): boolean {
+    return this.data.firstAddress > 2;
+  }
+
+  private get firstReadableAddress(): number {
+    return this.isWrapped ? this.data.firstAddress : 1;
+  }
+
+  public addEntry(detected: boolean, now: number = Date.now()): void {
+    this.data.entries.push({ time: Math.floor(now / 1000), status: detected ? 1 : 0 });
+
+    if (this.data.entries.length >= MEMORY_SIZE) {
+      this.data.entries.shift();
+      this.data.firstAddress++;
+    }
+  }
+
+  public get status(): string {
+    const { refTime, entries } = this.data;
+    const lastTime = entries.at(-1)?.time ?? this.initialTime;
+
+    return toBase64(
+      uint32(lastTime - this.initialTime) +
+        '00000000' +
+        uint32(refTime) +
+        MOTION_SIGNATURE +
+        (this.isWrapped ? uint16(MEMORY_SIZE) : uint16(this.lastAddress + 1)) +
+        uint16(MEMORY_SIZE) +
+        uint32(this.isWrapped ? this.firstReadableAddress : 0) +
+        '000000000101',
+    );
+  }
+
+  // Eve writes the address it wants to read from, then reads a batch of entries at a time
+  public requestEntries(request: string): void {
+    const buffer = Buffer.from(request, 'base64');
+    const address = buffer.length >= 6 ? buffer.readUInt32LE(2) : 0;
+    this.nextReadAddress = Math.max(address, this.firstReadableAddress);
+  }
+
+  public readEntries(): string {
+    if (this.nextReadAddress === null || this.nextReadAddress > this.lastAddress) {
+      this.nextReadAddress = null;
+      return toBase64('00');
+    }
+
+    let stream = '';
+    for (let count = 0; count < ENTRIES_PER_READ && this.nextReadAddress <= this.lastAddress; count++) {
+      const address = this.nextReadAddress++;
+
+      if (address === this.firstReadableAddress) {
+        stream += '15' + uint32(address) + '0100000081' + uint32(this.data.refTime) + '00000000000000';
+      } else {
+        const entry = this.data.entries[address - this.data.firstAddress];
+        stream +=
+          '0b' +
+          uint32(address) +
+          uint32(entry.time - this.initialTime) +
+          MOTION_ENTRY_TYPE +
+          entry.status.toString(16).padStart(2, '0');
+      }
+    }
+    return toBase64(stream);
+  }
+}
+
+interface EveTypes {
+  LastActivation: WithUUID<new () => Characteristic>;
+  HistoryStatus: WithUUID<new () => Characteristic>;
+  HistoryEntries: WithUUID<new () => Characteristic>;
+  HistoryRequest: WithUUID<new () => Characteristic>;
+  SetTime: WithUUID<new () => Characteristic>;
+}
+
+const eveTypes = new WeakMap<API, EveTypes>();
+
+// HAP needs a class per custom characteristic, and they can only be made once the API is available
+function getEveTypes(api: API): EveTypes {
+  const existing = eveTypes.get(api);
+  if (existing) {
+    return existing;
+  }
+
+  const { Formats, Perms, Units } = api.hap;
+
+  const characteristic = (name: string, UUID: string, props: CharacteristicProps): WithUUID<new () => Characteristic> =>
+    class extends api.hap.Characteristic {
+      public static readonly UUID = UUID;
+
+      constructor() {
+        super(name, UUID, props);
+        this.value = this.getDefaultValue();
+      }
+    };
+
+  const data = (name: string, UUID: string, writable: boolean): WithUUID<new () => Characteristic> =>
+    characteristic(name, UUID, {
+      format: Formats.DATA,
+      perms: writable ? [Perms.PAIRED_WRITE, Perms.HIDDEN] : [Perms.PAIRED_READ, Perms.NOTIFY, Perms.HIDDEN],
+    });
+
+  const types: EveTypes = {
+    LastActivation: characteristic('Last Activation', 'E863F11A-079E-48FF-8F27-9C2605A29F52', {
+      format: Formats.UINT32,
+      unit: Units.SECONDS,
+      perms: [Perms.PAIRED_READ, Perms.NOTIFY],
+    }),
+    HistoryStatus: data('History Status', 'E863F116-079E-48FF-8F27-9C2605A29F52', false),
+    HistoryEntries: data('History Entries', 'E863F117-079E-48FF-8F27-9C2605A29F52', false),
+    HistoryRequest: data('History Request', 'E863F11C-079E-48FF-8F27-9C2605A29F52', true),
+    SetTime: data('Set Time', 'E863F121-079E-48FF-8F27-9C2605A29F52', true),
+  };
+
+  eveTypes.set(api, types);
+  return types;
+}
+
+export class EveMotionHistory {
+  private readonly log: MotionHistoryLog;
+  private readonly historyService: Service;
+  private readonly types: EveTypes;
+
+  constructor(
+    api: API,
+    accessory: PlatformAccessory,
+    private readonly motionSensor: Service,
+  ) {
+    this.types = getEveTypes(api);
+    const { LastActivation, HistoryStatus, HistoryEntries, HistoryRequest, SetTime } = this.types;
+
+    // Kept in the accessory cache, so Eve doesn't lose its history when Homebridge restarts
+    const saved = accessory.context.eveHistory as EveHistoryData | undefined;
+    this.log = saved ? new MotionHistoryLog(saved) : MotionHistoryLog.create();
+    accessory.context.eveHistory = this.log.state;
+
+    this.historyService =
+      accessory.services.find((service) => service.UUID === HISTORY_SERVICE_UUID) ??
+      accessory.addService(new api.hap.Service(`${accessory.displayName} History`, HISTORY_SERVICE_UUID));
+
+    // The history service has no standard characteristics, so add them explicitly rather than as optional ones
+    for (const type of [HistoryStatus, HistoryEntries, HistoryRequest, SetTime]) {
+      if (!this.historyService.characteristics.some((characteristic) => characteristic.UUID === type.UUID)) {
+        this.historyService.addCharacteristic(type);
+      }
+    }
+
+    this.historyService.getCharacteristic(HistoryStatus).onGet(() => this.log.status);
+    this.historyService.getCharacteristic(HistoryEntries).onGet(() => this.log.readEntries());
+    this.historyService.getCharacteristic(HistoryRequest).onSet((value) => this.log.requestEntries(value as string));
+    this.historyService.getCharacteristic(SetTime).onSet(() => undefined);
+
+    motionSensor.addOptionalCharacteristic(LastActivation);
+    motionSensor.getCharacteristic(LastActivation);
+  }
+
+  public setLastActivation(timestamp: number): void {
+    const seconds = Math.floor(timestamp / 1000) - this.log.initialTime;
+    if (seconds >= 0) {
+      this.motionSensor.updateCharacteristic(this.types.LastActivation, seconds);
+    }
+  }
+
+  public record(detected: boolean, now: number = Date.now()): void {
+    this.log.addEntry(detected, now);
+    this.historyService.updateCharacteristic(this.types.HistoryStatus, this.log.status);
+    if (detected) {
+      this.setLastActivation(now);
+    }
+  }
+
+  // Drop the history service left behind when Eve history is turned off
+  public static remove(accessory: PlatformAccessory): void {
+    const service = accessory.services.find((candidate) => candidate.UUID === HISTORY_SERVICE_UUID);
+    if (service) {
+      accessory.removeService(service);
+    }
+    delete accessory.context.eveHistory;
+  }
+}
@@ -0,0 +1,96 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import type { Logging } from 'homebridge';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { EventStore } from './event-store.js';
+import type { CameraEvent } from './events.js';
+import { createMockLogger } from './test/mocks.js';
+
+describe('EventStore', () => {
+  let log: Logging;
+  let directory: string;
+  let filePath: string;
+
+  const event = (overrides: Partial<CameraEvent> = {}): CameraEvent => ({
+    type: 'motion',
+    camera: { id: 'camera-1', name: 'Front Porch', mac: 'AABBCCDDEEFF' },
+    controller: '192.168.1.1',
+    timestamp: Date.now(),
+    suppressed: false,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    log = createMockLogger();
+    directory = mkdtempSync(join(tmpdir(), 'event-store-'));
+    filePath = join(directory, 'plugin', 'events.json');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should return events for a camera newest first', () => {
+    const store = new EventStore(log, filePath);
+    const now = Date.now();
+
+    store.record(event({ timestamp: now - 2000 }));
+    store.record(event({ type: 'ring', timestamp: now - 1000 }));
+    store.record(event({ camera: { id: 'camera-2', name: 'Garage', mac: '112233445566' }, timestamp: now }));
+
+    expect(store.getEvents('camera-1').map((stored) => stored.type)).toEqual(['ring', 'motion']);
+    expect(store.getEvents('camera-1', { type: 'motion' })).toEqual([
+      { type: 'motion', timestamp: now - 2000, suppressed: false },
+    ]);
+    expect(store.getEvents('camera-1', { since: now - 1000 })).toHaveLength(1);
+    expect(store.getEvents('camera-1', { limit: 1 })[0].type).toBe('ring');
+  });
+
+  it('should drop events past the retention limits', () => {
+    const store = new EventStore(log, filePath, { days: 1, maxEvents: 2 });
+    const now = Date.now();
+
+    store.record(event({ timestamp: now - 2 * 24 * 60 * 60 * 1000 }));
+    store.record(event({ timestamp: now - 3000 }));
+    store.record(event({ timestamp: now - 2000 }));
+    store.record(event({ timestamp: now - 1000 }));
+
+    expect(store.getEvents('camera-1').map((stored) => stored.timestamp)).toEqual([now - 1000, now - 2000]);
+  });
+
+  it('should save events in the background and load them again', async () => {
+    const store = new EventStore(log, filePath);
+    store.record(event({ type: 'smartDetect', smartDetectTypes: ['person'], timestamp: 1_000 + Date.now() }));
+
+    await vi.advanceTimersByTimeAsync(10_000);
+    await vi.waitFor(() => expect(JSON.parse(readFileSync(filePath, 'utf8')).cameras['camera-1']).toHaveLength(1));
+
+    const restored = new EventStore(log, filePath);
+    restored.load();
+    expect(restored.getEvents('camera-1')[0]).toEqual(expect.objectContaining({ smartDetectTypes: ['person'] }));
+  });
+
+  it('should write pending events immediately when flushed', () => {
+    const store = new EventStore(log, filePath);
+    store.record(event());
+
+    store.flush();
+
+    expect(JSON.parse(readFileSync(filePath, 'utf8')).cameras['camera-1']).toHaveLength(1);
+  });
+
+  it('should start a new history when the file is unreadable', () => {
+    writeFileSync(join(directory, 'events.json'), 'not json');
+    const store = new EventStore(log, join(directory, 'events.json'));
+
+    store.load();
+
+    expect(log.warn).toHaveBeenCalledWith(expect.stringContaining('Unable to read event history'));
+    expect(store.getEvents('camera-1')).toEqual([]);
+  });
+});
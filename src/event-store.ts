@@ -0,0 +1,141 @@
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { mkdir, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+import type { Logging } from 'homebridge';
+
+import type { CameraEvent, CameraEventType } from './events.js';
+import type { EventHistoryConfig } from './settings.js';
+import { DEFAULT_EVENT_HISTORY_DAYS, DEFAULT_EVENT_HISTORY_SIZE } from './settings.js';
+
+const SAVE_DELAY = 10; // seconds
+const DAY = 24 * 60 * 60 * 1000; // milliseconds
+
+// The camera and controller are implied by where an event is stored
+export type StoredEvent = Omit<CameraEvent, 'camera' | 'controller'>;
+
+export interface EventQuery {
+  type?: CameraEventType;
+  since?: number; // timestamp in milliseconds
+  limit?: number;
+}
+
+interface EventFile {
+  cameras?: Record<string, StoredEvent[]>;
+}
+
+export class EventStore {
+  private readonly events: Map<string, StoredEvent[]> = new Map();
+  private readonly maxAge: number;
+  private readonly maxEvents: number;
+  private saveTimer: NodeJS.Timeout | null = null;
+  private dirty = false;
+
+  constructor(
+    private readonly log: Logging,
+    private readonly filePath: string,
+    config: EventHistoryConfig = {},
+  ) {
+    this.maxAge = (config.days ?? DEFAULT_EVENT_HISTORY_DAYS) * DAY;
+    this.maxEvents = config.maxEvents ?? DEFAULT_EVENT_HISTORY_SIZE;
+  }
+
+  // Read synchronously, so cameras can pick up their history as they're set up
+  public load(): void {
+    let file: EventFile;
+    try {
+      file = JSON.parse(readFileSync(this.filePath, 'utf8')) as EventFile;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.log.warn(`Unable to read event history from ${this.filePath}, starting a new one`);
+      }
+      return;
+    }
+
+    for (const [cameraId, events] of Object.entries(file.cameras ?? {})) {
+      if (Array.isArray(events)) {
+        this.events.set(cameraId, this.prune(events));
+      }
+    }
+  }
+
+  public record(event: CameraEvent): void {
+    const { type, timestamp, suppressed, smartDetectTypes, setting } = event;
+    const stored: StoredEvent = {
+      type,
+      timestamp,
+      suppressed,
+      ...(smartDetectTypes && { smartDetectTypes }),
+      ...(setting && { setting }),
+    };
+
+    this.events.set(event.camera.id, this.prune([...(this.events.get(event.camera.id) ?? []), stored]));
+    this.scheduleSave();
+  }
+
+  // Newest first
+  public getEvents(cameraId: string, query: EventQuery = {}): StoredEvent[] {
+    const events = (this.events.get(cameraId) ?? []).filter(
+      (event) =>
+        (query.type === undefined || event.type === query.type) &&
+        (query.since === undefined || event.timestamp >= query.since),
+    );
+    return events.reverse().slice(0, query.limit);
+  }
+
+  public flush(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    if (!this.dirty) {
+      return;
+    }
+
+    // Homebridge doesn't wait for async work on shutdown, so this write has to be synchronous
+    try {
+      mkdirSync(dirname(this.filePath), { recursive: true });
+      writeFileSync(this.filePath, this.serialize());
+      this.dirty = false;
+    } catch (error) {
+      this.log.warn(`Unable to save event history to ${this.filePath}: ${(error as Error).message}`);
+    }
+  }
+
+  private scheduleSave(): void {
+    this.dirty = true;
+    if (this.saveTimer) {
+      return;
+    }
+
+    // Batch writes, as busy cameras can report several events a second
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      void this.save();
+    }, SAVE_DELAY * 1000);
+  }
+
+  private async save(): Promise<void> {
+    this.dirty = false;
+    const tempPath = `${this.filePath}.tmp`;
+
+    try {
+      await mkdir(dirname(this.filePath), { recursive: true });
+      await writeFile(tempPath, this.serialize());
+      await rename(tempPath, this.filePath);
+    } catch (error) {
+      this.dirty = true;
+      this.log.warn(`Unable to save event history to ${this.filePath}: ${(error as Error).message}`);
+    }
+  }
+
+  private serialize(): string {
+    const file: EventFile = { cameras: Object.fromEntries(this.events) };
+    return JSON.stringify(file);
+  }
+
+  private prune(events: StoredEvent[]): StoredEvent[] {
+    const cutoff = Date.now() - this.maxAge;
+    return events.filter((event) => event.timestamp >= cutoff).slice(-this.maxEvents);
+  }
+}
@@ -0,0 +1,22 @@
+import type { SmartDetectType } from './api/types.js';
+
+export const CAMERA_EVENT_TYPES = ['motion', 'smartDetect', 'ring', 'settings'] as const;
+
+export type CameraEventType = (typeof CAMERA_EVENT_TYPES)[number];
+
+export interface CameraEvent {
+  type: CameraEventType;
+  camera: {
+    id: string;
+    name: string;
+    mac: string;
+  };
+  controller: string;
+  timestamp: number;
+  suppressed: boolean; // kept from the main HomeKit sensors by the Motion Enabled switch or quiet hours
+  smartDetectTypes?: SmartDetectType[];
+  setting?: {
+    name: string;
+    value: boolean | string;
+  };
+}
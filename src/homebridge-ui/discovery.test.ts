@@ -0,0 +1,152 @@
+import type { AddressInfo, Server } from 'node:net';
+import { createServer } from 'node:net';
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { ProtectClient } from '../api/client.js';
+import { ProtectApiError } from '../api/errors.js';
+import { createMockCamera } from '../test/mocks.js';
+import type { CameraSelection } from './discovery.js';
+import { applyCameraSelections, discoverCameras } from './discovery.js';
+
+describe('discoverCameras', () => {
+  let server: Server;
+  let address: string;
+  let client: ProtectClient;
+
+  beforeEach(async () => {
+    server = createServer((socket) => socket.end());
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    address = `127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    client = {
+      connect: vi.fn().mockResolvedValue(true),
+      disconnect: vi.fn(),
+      cameras: [
+        createMockCamera({
+          featureFlags: { hasLedStatus: true, hasHdr: true, isDoorbell: true, smartDetectTypes: ['person'] },
+        }),
+      ],
+    } as unknown as ProtectClient;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should list cameras with their capabilities', async () => {
+    const cameras = await discoverCameras({ address, username: 'admin', password: 'secret' }, client);
+
+    expect(client.connect).toHaveBeenCalledWith(address, { username: 'admin', password: 'secret' });
+    expect(cameras).toEqual([
+      expect.objectContaining({
+        id: 'camera-1',
+        name: 'Test Camera',
+        connected: true,
+        capabilities: expect.objectContaining({ statusLed: true, hdr: true, doorbell: true, speaker: false }),
+      }),
+    ]);
+    expect(client.disconnect).toHaveBeenCalled();
+  });
+
+  it('should report rejected credentials', async () => {
+    vi.mocked(client.connect).mockRejectedValue(new ProtectApiError('Failed to login', 401));
+
+    await expect(discoverCameras({ address, username: 'admin', password: 'wrong' }, client)).rejects.toMatchObject({
+      reason: 'auth',
+      message: `${address} rejected the username or password`,
+    });
+    expect(client.disconnect).toHaveBeenCalled();
+  });
+
+  it('should report a rejected API key', async () => {
+    vi.mocked(client.connect).mockRejectedValue(new ProtectApiError('Failed to login', 401));
+
+    await expect(discoverCameras({ address, apiKey: 'wrong' }, client)).rejects.toMatchObject({
+      reason: 'auth',
+      message: `${address} rejected the API key`,
+    });
+    expect(client.connect).toHaveBeenCalledWith(address, { apiKey: 'wrong' });
+  });
+
+  it('should report controllers that cannot be reached', async () => {
+    await new Promise((resolve) => server.close(resolve));
+
+    await expect(discoverCameras({ address, username: 'admin', password: 'secret' }, client)).rejects.toMatchObject({
+      reason: 'network',
+      message: expect.stringContaining('ECONNREFUSED'),
+    });
+    expect(client.connect).not.toHaveBeenCalled();
+  });
+
+  it('should require credentials', async () => {
+    await expect(discoverCameras({ address, username: '', password: '' }, client)).rejects.toMatchObject({
+      reason: 'invalid',
+    });
+  });
+
+  it('should report passwords that cannot be read from the environment', async () => {
+    await expect(
+      discoverCameras({ address, username: 'admin', passwordEnv: 'PROTECT_DISCOVERY_PASSWORD' }, client),
+    ).rejects.toMatchObject({
+      reason: 'invalid',
+      message: `Controller configuration for ${address} missing password, environment variable PROTECT_DISCOVERY_PASSWORD isn't set`,
+    });
+    expect(client.connect).not.toHaveBeenCalled();
+  });
+});
+
+describe('applyCameraSelections', () => {
+  const controller = { address: '192.168.1.1', username: 'admin', password: 'secret' };
+  const select = (name: string, mac: string, selection: Partial<CameraSelection> = {}): CameraSelection => ({
+    camera: { id: `${name}-id`, name, mac },
+    expose: true,
+    ...selection,
+  });
+
+  it('should update matching cameras and keep settings the UI does not show', () => {
+    const config = applyCameraSelections(
+      {
+        platform: 'UniFi Protect Motion Trigger',
+        controllers: [{ ...controller, password: 'old', statusAccessory: false }],
+        cameras: [{ camera: 'front door', motionDuration: 30, hdrSwitch: true }],
+      },
+      controller,
+      [select('Front Door', 'AA:BB', { options: { hdrSwitch: false, motionSwitch: false }, smartDetectTypes: [] })],
+    );
+
+    expect(config.controllers).toEqual([{ ...controller, statusAccessory: false }]);
+    expect(config.cameras).toEqual([{ camera: 'front door', motionDuration: 30, motionSwitch: false }]);
+  });
+
+  it('should not save typed passwords for controllers that read theirs from elsewhere', () => {
+    const saved = { address: '192.168.1.1', username: 'admin', passwordEnv: 'PROTECT_PASSWORD' };
+
+    const updated = applyCameraSelections(
+      { platform: 'UniFi Protect Motion Trigger', controllers: [saved] },
+      controller,
+      [],
+    );
+    const added = applyCameraSelections(
+      { platform: 'UniFi Protect Motion Trigger' },
+      { ...controller, address: '192.168.1.2', secretsFile: 'protect.json' },
+      [],
+    );
+
+    expect(updated.controllers).toEqual([saved]);
+    expect(added.controllers).toEqual([{ address: '192.168.1.2', username: 'admin', secretsFile: 'protect.json' }]);
+  });
+
+  it('should add new cameras by MAC address, leaving out defaults', () => {
+    const config = applyCameraSelections({ platform: 'UniFi Protect Motion Trigger' }, controller, [
+      select('Garage', 'AA:BB', { options: { ledSwitch: true }, smartDetectTypes: ['vehicle'] }),
+      select('Shed', 'CC:DD', { expose: false }),
+    ]);
+
+    expect(config.controllers).toEqual([controller]);
+    expect(config.cameras).toEqual([
+      { camera: 'AA:BB', smartDetectTypes: ['vehicle'] },
+      { camera: 'CC:DD', hidden: true },
+    ]);
+  });
+});
@@ -0,0 +1,228 @@
+import { connect } from 'node:net';
+
+import type { ProtectClient } from '../api/client.js';
+import { ProtectApiError } from '../api/errors.js';
+import type { ProtectCamera, SmartDetectType } from '../api/types.js';
+import type { ControllerCredentials } from '../credentials.js';
+import { CredentialsError, resolveCredentials } from '../credentials.js';
+import type { CameraConfig, ControllerConfig, ProtectMotionPlatformConfig } from '../settings.js';
+import { matchesCamera } from '../settings.js';
+
+const CONNECT_TIMEOUT = 5; // seconds
+
+export type DiscoveryErrorReason = 'invalid' | 'network' | 'auth' | 'controller';
+
+export class DiscoveryError extends Error {
+  constructor(
+    message: string,
+    public readonly reason: DiscoveryErrorReason,
+  ) {
+    super(message);
+    this.name = 'DiscoveryError';
+  }
+}
+
+export interface CameraCapabilities {
+  statusLed: boolean;
+  privacyMask: boolean;
+  nightVision: boolean;
+  hdr: boolean;
+  speaker: boolean;
+  microphone: boolean;
+  doorbell: boolean;
+  smartDetectTypes: SmartDetectType[];
+}
+
+export interface DiscoveredCamera {
+  id: string;
+  name: string;
+  mac: string;
+  model: string;
+  connected: boolean;
+  capabilities: CameraCapabilities;
+}
+
+// Per-camera options the UI can set, everything else in a camera's config is left alone
+export const CAMERA_OPTION_DEFAULTS = {
+  motionSwitch: true,
+  ledSwitch: true,
+  privacySwitch: true,
+  recordingSwitches: false,
+  nightVisionSwitches: false,
+  hdrSwitch: false,
+  ledBlinkSwitch: false,
+  volumeControls: false,
+} satisfies Partial<CameraConfig>;
+
+export type CameraOption = keyof typeof CAMERA_OPTION_DEFAULTS;
+
+export interface CameraSelection {
+  camera: Pick<DiscoveredCamera, 'id' | 'mac' | 'name'>;
+  expose: boolean;
+  options?: Partial<Record<CameraOption, boolean>>;
+  smartDetectTypes?: SmartDetectType[];
+}
+
+function getCapabilities(camera: ProtectCamera): CameraCapabilities {
+  const features = camera.featureFlags;
+  return {
+    statusLed: !!features?.hasLedStatus,
+    privacyMask: features?.hasPrivacyMask !== false,
+    nightVision: !!features?.hasLedIr,
+    hdr: !!features?.hasHdr,
+    speaker: !!features?.hasSpeaker,
+    microphone: !!features?.hasMic,
+    doorbell: !!features?.isDoorbell,
+    smartDetectTypes: features?.smartDetectTypes ?? [],
+  };
+}
+
+// Logging in fails the same way whether the password is wrong or the controller can't be reached, so check
+// the controller answers first to tell the two apart
+function checkReachable(address: string): Promise<void> {
+  let url: URL;
+  try {
+    url = new URL(`https://${address}`);
+  } catch {
+    return Promise.reject(new DiscoveryError(`${address} isn't a valid controller address`, 'invalid'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const socket = connect({ host: url.hostname, port: Number(url.port || 443), timeout: CONNECT_TIMEOUT * 1000 });
+    const fail = (reason: string): void => {
+      socket.destroy();
+      reject(new DiscoveryError(`Unable to reach ${address}: ${reason}`, 'network'));
+    };
+
+    socket.once('connect', () => {
+      socket.end();
+      resolve();
+    });
+    socket.once('timeout', () => fail(`no response after ${CONNECT_TIMEOUT} seconds`));
+    socket.once('error', (error: NodeJS.ErrnoException) => fail(error.code ?? error.message));
+  });
+}
+
+export async function discoverCameras(
+  controller: ControllerConfig,
+  client: ProtectClient,
+  storagePath = '.',
+): Promise<DiscoveredCamera[]> {
+  const address = controller.address?.trim();
+  if (!address) {
+    throw new DiscoveryError('Enter the controller address, username and password', 'invalid');
+  }
+
+  // Saved controllers may keep their password in an environment variable or secrets file, or use an API key instead
+  let credentials: ControllerCredentials;
+  try {
+    credentials = resolveCredentials({ ...controller, address }, storagePath);
+  } catch (error) {
+    if (error instanceof CredentialsError) {
+      throw new DiscoveryError(
+        controller.passwordEnv || controller.apiKeyEnv || controller.secretsFile
+          ? error.message
+          : 'Enter the controller address, username and password',
+        'invalid',
+      );
+    }
+    throw error;
+  }
+
+  await checkReachable(address);
+
+  try {
+    await client.connect(address, credentials);
+
+    return client.cameras.map((camera) => ({
+      id: camera.id,
+      name: camera.name,
+      mac: camera.mac,
+      model: camera.type,
+      connected: camera.state === undefined || camera.state === 'CONNECTED',
+      capabilities: getCapabilities(camera),
+    }));
+  } catch (error) {
+    if (error instanceof ProtectApiError && error.isAuthError) {
+      const rejected = 'apiKey' in credentials ? 'API key' : 'username or password';
+      throw new DiscoveryError(`${address} rejected the ${rejected}`, 'auth');
+    }
+    throw new DiscoveryError(error instanceof Error ? error.message : `Unable to connect to ${address}`, 'controller');
+  } finally {
+    // Stops the client retrying in the background after a failed test
+    client.disconnect();
+  }
+}
+
+function applySelection(cameraConfig: CameraConfig, selection: CameraSelection): CameraConfig {
+  const updated: CameraConfig = { ...cameraConfig };
+  if (selection.expose) {
+    delete updated.hidden;
+  } else {
+    updated.hidden = true;
+  }
+
+  // Defaults are left out, so the config only records what's been changed
+  for (const [option, defaultValue] of Object.entries(CAMERA_OPTION_DEFAULTS) as [CameraOption, boolean][]) {
+    const value = selection.options?.[option];
+    if (value === undefined) {
+      continue;
+    }
+    if (value === defaultValue) {
+      delete updated[option];
+    } else {
+      updated[option] = value;
+    }
+  }
+
+  if (selection.smartDetectTypes !== undefined) {
+    if (selection.smartDetectTypes.length > 0) {
+      updated.smartDetectTypes = selection.smartDetectTypes;
+    } else {
+      delete updated.smartDetectTypes;
+    }
+  }
+
+  return updated;
+}
+
+// A password typed in the UI is only for testing when the controller reads its password from somewhere else or logs in
+// with an API key, so it never ends up in config.json
+function withoutTypedPassword(controller: ControllerConfig, existing?: ControllerConfig): ControllerConfig {
+  const merged = { ...existing, ...controller };
+  if (!merged.passwordEnv && !merged.secretsFile && !merged.apiKey && !merged.apiKeyEnv) {
+    return controller;
+  }
+  const { password: _password, ...rest } = controller;
+  return rest;
+}
+
+// Writes the UI's choices into the platform config, keeping any camera settings the UI doesn't show
+export function applyCameraSelections(
+  config: ProtectMotionPlatformConfig,
+  controller: ControllerConfig,
+  selections: CameraSelection[],
+): ProtectMotionPlatformConfig {
+  const controllers = [...(config.controllers ?? [])];
+  const controllerIndex = controllers.findIndex((existing) => existing.address === controller.address);
+  if (controllerIndex >= 0) {
+    const existing = controllers[controllerIndex];
+    controllers[controllerIndex] = { ...existing, ...withoutTypedPassword(controller, existing) };
+  } else {
+    controllers.push(withoutTypedPassword(controller));
+  }
+
+  const cameras = [...(config.cameras ?? [])];
+  for (const selection of selections) {
+    const index = cameras.findIndex((cameraConfig) => matchesCamera(cameraConfig.camera, selection.camera));
+    if (index >= 0) {
+      cameras[index] = applySelection(cameras[index], selection);
+    } else {
+      // MAC addresses survive the camera being renamed or re-adopted
+      cameras.push(applySelection({ camera: selection.camera.mac }, selection));
+    }
+  }
+
+  // Cameras left out are hidden rather than relying on exposeAllCameras, which also covers other controllers
+  return { ...config, controllers, cameras };
+}
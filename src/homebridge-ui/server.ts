@@ -0,0 +1,67 @@
+import { format } from 'node:util';
+
+import { HomebridgePluginUiServer, RequestError } from '@homebridge/plugin-ui-utils';
+import type { ProtectLogging } from 'unifi-protect';
+
+import { ProtectClient } from '../api/client.js';
+import type { CameraConfig, ControllerConfig, ProtectMotionPlatformConfig } from '../settings.js';
+import { findCameraConfig, PLATFORM_NAME } from '../settings.js';
+import type { CameraSelection } from './discovery.js';
+import { applyCameraSelections, discoverCameras, DiscoveryError } from './discovery.js';
+
+interface DiscoverRequest {
+  controller: ControllerConfig;
+  cameras?: CameraConfig[];
+}
+
+interface SaveRequest {
+  config: ProtectMotionPlatformConfig;
+  controller: ControllerConfig;
+  selections: CameraSelection[];
+}
+
+// The UI server runs outside Homebridge, so the client logs straight to the UI's log output
+function createLogger(): ProtectLogging {
+  const write =
+    (stream: NodeJS.WriteStream) =>
+    (message: string, ...parameters: unknown[]): void => {
+      stream.write(`[${PLATFORM_NAME}] ${format(message, ...parameters)}\n`);
+    };
+
+  return {
+    info: write(process.stdout),
+    warn: write(process.stderr),
+    error: write(process.stderr),
+    debug: () => undefined,
+  };
+}
+
+class ProtectMotionUiServer extends HomebridgePluginUiServer {
+  private readonly log = createLogger();
+
+  constructor() {
+    super();
+
+    this.onRequest('/cameras', (request: DiscoverRequest) => this.handleDiscover(request));
+    this.onRequest('/save', ({ config, controller, selections }: SaveRequest) =>
+      applyCameraSelections(config, controller, selections),
+    );
+
+    this.ready();
+  }
+
+  // Each camera comes back with its current config, so the UI can start from what's already set
+  private async handleDiscover({ controller, cameras }: DiscoverRequest): Promise<unknown> {
+    try {
+      const discovered = await discoverCameras(controller, new ProtectClient(this.log), this.homebridgeStoragePath);
+      return discovered.map((camera) => ({ ...camera, config: findCameraConfig(cameras, camera) ?? null }));
+    } catch (error) {
+      if (error instanceof DiscoveryError) {
+        throw new RequestError(error.message, { reason: error.reason });
+      }
+      throw error;
+    }
+  }
+}
+
+(() => new ProtectMotionUiServer())();
@@ -0,0 +1,411 @@
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+import type { API, PlatformAccessory, Service } from 'homebridge';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { ProtectClient } from './api/client.js';
+import { ProtectApiError } from './api/errors.js';
+import { discoverCameras } from './homebridge-ui/discovery.js';
+import { ProtectMotionPlatform } from './platform.js';
+import type { ControllerConfig } from './settings.js';
+import { createMockAPI, createMockCamera, createMockConfig, createMockLight, createMockLogger } from './test/mocks.js';
+import { ProtectSimulator } from './test/protect-simulator.js';
+
+// End to end tests against the simulated controller, with real HTTPS and websocket traffic in between
+describe('Protect simulator', () => {
+  let simulator: ProtectSimulator;
+
+  beforeEach(async () => {
+    simulator = await ProtectSimulator.start({
+      cameras: [
+        createMockCamera({
+          featureFlags: { hasLedStatus: true, isDoorbell: true, smartDetectTypes: ['person'] },
+          recordingSettings: { enableMotionDetection: true, mode: 'always' },
+        }),
+      ],
+    });
+  });
+
+  afterEach(async () => {
+    await simulator.stop();
+  });
+
+  describe('ProtectClient', () => {
+    let client: ProtectClient;
+
+    beforeEach(() => {
+      client = new ProtectClient(createMockLogger());
+    });
+
+    afterEach(() => {
+      client.disconnect();
+      vi.useRealTimers();
+    });
+
+    const connect = (): Promise<boolean> => {
+      const { address, username, password } = simulator.credentials;
+      return client.connect(address, { username, password });
+    };
+
+    it('should load devices from the bootstrap', async () => {
+      await connect();
+
+      expect(client.isConnected).toBe(true);
+      expect(client.cameras.map((camera) => camera.name)).toEqual(['Test Camera']);
+      expect(client.nvr?.name).toBe('Simulated NVR');
+      expect(simulator.connections).toBe(1);
+    });
+
+    it('should decode and dispatch update packets', async () => {
+      const updates = vi.fn();
+      client.on('camera', 'update', updates);
+      await connect();
+
+      simulator.emitMotion('camera-1', 1000);
+
+      await vi.waitFor(() =>
+        expect(updates).toHaveBeenCalledWith({
+          modelKey: 'camera',
+          action: 'update',
+          id: 'camera-1',
+          payload: { isMotionDetected: true, lastMotion: 1000 },
+        }),
+      );
+      expect(client.packetStats).toEqual({ unknown: 0, invalid: 0 });
+    });
+
+    it('should dispatch cameras being added and removed', async () => {
+      const adds = vi.fn();
+      const removes = vi.fn();
+      client.on('camera', 'add', adds);
+      client.on('camera', 'remove', removes);
+      await connect();
+
+      simulator.addDevice('camera', createMockCamera({ id: 'camera-2', name: 'Garage', mac: '11:22:33:44:55:66' }));
+      simulator.removeDevice('camera', 'camera-2');
+
+      await vi.waitFor(() => expect(removes).toHaveBeenCalledWith(expect.objectContaining({ id: 'camera-2' })));
+      expect(adds).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'camera-2', payload: expect.objectContaining({ name: 'Garage' }) }),
+      );
+    });
+
+    it('should write camera settings to the controller', async () => {
+      await connect();
+
+      await expect(client.updateCameraLed(client.cameras[0], false)).resolves.toBe(true);
+
+      expect(simulator.requests).toEqual([
+        { method: 'PATCH', path: '/proxy/protect/api/cameras/camera-1', body: { ledSettings: { isEnabled: false } } },
+      ]);
+      expect(simulator.device('camera', 'camera-1')?.ledSettings).toEqual({ isEnabled: false, blinkRate: 0 });
+    });
+
+    it('should fail to connect when the controller rejects the credentials', async () => {
+      simulator.rejectCredentials();
+
+      await expect(connect()).rejects.toBeInstanceOf(ProtectApiError);
+      expect(client.connectionState).toBe('reconnecting');
+      expect(simulator.connections).toBe(0);
+    });
+
+    it('should reconnect after the controller drops the connection', async () => {
+      vi.useFakeTimers({ shouldAdvanceTime: true });
+      const states: string[] = [];
+      client.onStateChange((state) => states.push(state));
+      const updates = vi.fn();
+      client.on('camera', 'update', updates);
+      await connect();
+
+      // Stays down through the health check, so the client has to log in again from scratch
+      simulator.rejectCredentials();
+      simulator.dropConnections();
+      await vi.advanceTimersByTimeAsync(180_000);
+      await vi.waitFor(() => expect(client.connectionState).toBe('reconnecting'));
+
+      simulator.rejectCredentials(false);
+      await vi.advanceTimersByTimeAsync(5_000);
+      await vi.waitFor(() => expect(client.connectionState).toBe('connected'));
+
+      simulator.emitMotion('camera-1', 2000);
+      await vi.waitFor(() => expect(updates).toHaveBeenCalled());
+      expect(states).toEqual(['connecting', 'connected', 'reconnecting', 'connected']);
+    });
+  });
+
+  describe('ProtectClient with an API key', () => {
+    let client: ProtectClient;
+
+    beforeEach(() => {
+      client = new ProtectClient(createMockLogger());
+    });
+
+    afterEach(() => {
+      client.disconnect();
+    });
+
+    const connect = (): Promise<boolean> => {
+      const { address, apiKey } = simulator.apiKeyCredentials;
+      return client.connect(address, { apiKey });
+    };
+
+    it('should load devices and subscribe to updates from the integration API', async () => {
+      const cameraUpdates = vi.fn();
+      const events = vi.fn();
+      client.on('camera', 'update', cameraUpdates);
+      client.on('event', 'add', events);
+      await connect();
+
+      expect(client.usesApiKey).toBe(true);
+      expect(client.cameras.map((camera) => camera.name)).toEqual(['Test Camera']);
+      expect(client.nvr?.name).toBe('Simulated NVR');
+      expect(simulator.connections).toBe(2);
+
+      simulator.emitEvent({ type: 'motion', camera: 'camera-1', start: 1000, end: null });
+
+      await vi.waitFor(() =>
+        expect(events).toHaveBeenCalledWith(
+          expect.objectContaining({ payload: expect.objectContaining({ type: 'motion', camera: 'camera-1' }) }),
+        ),
+      );
+      expect(cameraUpdates).toHaveBeenCalledWith({
+        modelKey: 'camera',
+        action: 'update',
+        id: 'camera-1',
+        payload: { lastMotion: 1000, isMotionDetected: true },
+      });
+      expect(client.packetStats).toEqual({ unknown: 0, invalid: 0 });
+    });
+
+    it('should only write the settings the integration API has', async () => {
+      await connect();
+
+      await expect(client.updateCameraLed(client.cameras[0], false)).resolves.toBe(true);
+      await expect(client.updateCameraHdr(client.cameras[0], true)).resolves.toBe(true);
+      await expect(client.updateCameraRecordingMode(client.cameras[0], 'never')).resolves.toBe(false);
+
+      expect(simulator.requests).toEqual([
+        {
+          method: 'PATCH',
+          path: '/proxy/protect/integration/v1/cameras/camera-1',
+          body: { ledSettings: { isEnabled: false } },
+        },
+        { method: 'PATCH', path: '/proxy/protect/integration/v1/cameras/camera-1', body: { hdrType: 'on' } },
+      ]);
+      expect(simulator.device('camera', 'camera-1')).toMatchObject({
+        hdrMode: true,
+        ledSettings: { isEnabled: false },
+      });
+      expect(client.canControl('chime')).toBe(false);
+    });
+
+    it('should fail to connect when the controller rejects the API key', async () => {
+      simulator.rejectCredentials();
+
+      const error = await connect().catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ProtectApiError);
+      expect((error as ProtectApiError).isAuthError).toBe(true);
+      expect(simulator.connections).toBe(0);
+    });
+  });
+
+  describe('ProtectMotionPlatform', () => {
+    let api: API;
+
+    beforeEach(async () => {
+      api = createMockAPI();
+      new ProtectMotionPlatform(createMockLogger(), createMockConfig({ controllers: [simulator.credentials] }), api);
+      (api as unknown as { emit: (event: string) => void }).emit('didFinishLaunching');
+
+      await vi.waitFor(() => expect(camera()).toBeDefined());
+    });
+
+    afterEach(() => {
+      (api as unknown as { emit: (event: string) => void }).emit('shutdown');
+      rmSync(api.user.storagePath(), { recursive: true, force: true });
+    });
+
+    const camera = (): PlatformAccessory | undefined =>
+      vi
+        .mocked(api.registerPlatformAccessories)
+        .mock.calls.flatMap(([, , accessories]) => accessories)
+        .find((accessory) => accessory.context.modelKey !== 'nvr');
+
+    const service = (type: string, subtype: string): Service =>
+      camera()!.getServiceById(type as never, subtype) as Service;
+
+    it('should report motion from the controller', async () => {
+      simulator.emitMotion('camera-1', Date.now());
+
+      await vi.waitFor(() =>
+        expect(service('MotionSensor', 'motion-sensor').updateCharacteristic).toHaveBeenCalledWith(
+          'MotionDetected',
+          true,
+        ),
+      );
+    });
+
+    it('should report doorbell rings from the controller', async () => {
+      simulator.emitRing('camera-1', Date.now());
+
+      await vi.waitFor(() =>
+        expect(service('Doorbell', 'doorbell').updateCharacteristic).toHaveBeenCalledWith(
+          api.hap.Characteristic.ProgrammableSwitchEvent,
+          api.hap.Characteristic.ProgrammableSwitchEvent.SINGLE_PRESS,
+        ),
+      );
+    });
+
+    it('should send HomeKit switch changes to the controller', async () => {
+      const ledSwitch = service('Switch', 'led-switch').getCharacteristic('On' as never);
+      const setLed = vi.mocked(ledSwitch.onSet).mock.calls[0][0] as (value: boolean) => Promise<void>;
+
+      await setLed(false);
+
+      expect(simulator.requests).toContainEqual(
+        expect.objectContaining({ method: 'PATCH', body: { ledSettings: { isEnabled: false } } }),
+      );
+    });
+
+    it('should add cameras adopted by the controller', async () => {
+      simulator.addDevice('camera', createMockCamera({ id: 'camera-2', name: 'Garage', mac: '11:22:33:44:55:66' }));
+
+      await vi.waitFor(() =>
+        expect(api.registerPlatformAccessories).toHaveBeenCalledWith(expect.any(String), expect.any(String), [
+          expect.objectContaining({ displayName: 'Garage' }),
+        ]),
+      );
+    });
+  });
+
+  describe('ProtectMotionPlatform with a view only user', () => {
+    let api: API;
+    let log: ReturnType<typeof createMockLogger>;
+
+    beforeEach(async () => {
+      await simulator.stop();
+      simulator = await ProtectSimulator.start({
+        cameras: [createMockCamera({ featureFlags: { hasLedStatus: true, hasPrivacyMask: true } })],
+        lights: [createMockLight()],
+        chimes: [{ id: 'chime-1', name: 'Hallway Chime', type: 'UP Chime', mac: '112233445599' }],
+        permissions: ['camera:read,readmedia:*', 'light:read:*', 'chime:read:*'],
+      });
+
+      api = createMockAPI();
+      log = createMockLogger();
+      new ProtectMotionPlatform(log, createMockConfig({ controllers: [simulator.credentials] }), api);
+      (api as unknown as { emit: (event: string) => void }).emit('didFinishLaunching');
+
+      await vi.waitFor(() => expect(accessory('camera')).toBeDefined());
+    });
+
+    afterEach(() => {
+      (api as unknown as { emit: (event: string) => void }).emit('shutdown');
+      rmSync(api.user.storagePath(), { recursive: true, force: true });
+    });
+
+    const accessory = (modelKey: string): PlatformAccessory | undefined =>
+      vi
+        .mocked(api.registerPlatformAccessories)
+        .mock.calls.flatMap(([, , accessories]) => accessories)
+        .find((candidate) => candidate.context.modelKey === modelKey);
+
+    it('should show camera switches as read-only and leave out settings controls', () => {
+      const camera = accessory('camera')!;
+      const ledSwitch = camera.getServiceById('Switch' as never, 'led-switch') as Service;
+
+      expect(ledSwitch.getCharacteristic('On' as never).setProps).toHaveBeenCalledWith({ perms: ['pr', 'ev'] });
+      expect(camera.getServiceById('Switch' as never, 'privacy-switch')).toBeUndefined();
+    });
+
+    it('should show lights as read-only and leave out chimes', () => {
+      const light = accessory('light')!.getServiceById('Lightbulb' as never, 'light') as Service;
+
+      expect(light.getCharacteristic('On' as never).setProps).toHaveBeenCalledWith({ perms: ['pr', 'ev'] });
+      expect(accessory('chime')).toBeUndefined();
+    });
+
+    it('should explain what is missing once at startup', () => {
+      const warnings = vi
+        .mocked(log.warn)
+        .mock.calls.filter(([message]) => String(message).includes('Full Management'));
+
+      expect(warnings).toEqual([[expect.stringContaining('camera switches are read-only')]]);
+      expect(warnings[0][0]).toContain('lights are read-only, chimes are left out');
+    });
+  });
+
+  describe('ProtectMotionPlatform with credentials outside the config', () => {
+    let api: API;
+
+    beforeEach(() => {
+      api = createMockAPI();
+      mkdirSync(api.user.storagePath(), { recursive: true });
+    });
+
+    afterEach(() => {
+      (api as unknown as { emit: (event: string) => void }).emit('shutdown');
+      rmSync(api.user.storagePath(), { recursive: true, force: true });
+      vi.unstubAllEnvs();
+    });
+
+    const launch = async (controller: Partial<ControllerConfig>): Promise<void> => {
+      const { address } = simulator.credentials;
+      new ProtectMotionPlatform(
+        createMockLogger(),
+        createMockConfig({ controllers: [{ address, ...controller }] }),
+        api,
+      );
+      (api as unknown as { emit: (event: string) => void }).emit('didFinishLaunching');
+
+      await vi.waitFor(() =>
+        expect(api.registerPlatformAccessories).toHaveBeenCalledWith(expect.any(String), expect.any(String), [
+          expect.objectContaining({ displayName: 'Test Camera' }),
+        ]),
+      );
+    };
+
+    it('should read the password from an environment variable', async () => {
+      vi.stubEnv('PROTECT_PASSWORD', simulator.credentials.password);
+
+      await launch({ username: simulator.credentials.username, passwordEnv: 'PROTECT_PASSWORD' });
+    });
+
+    it('should read the login from a secrets file', async () => {
+      const { username, password } = simulator.credentials;
+      writeFileSync(join(api.user.storagePath(), 'protect.json'), JSON.stringify({ username, password }));
+
+      await launch({ secretsFile: 'protect.json' });
+    });
+
+    it('should log in with an API key from an environment variable', async () => {
+      vi.stubEnv('PROTECT_API_KEY', simulator.apiKeyCredentials.apiKey);
+
+      await launch({ apiKeyEnv: 'PROTECT_API_KEY' });
+    });
+  });
+
+  describe('discoverCameras', () => {
+    it('should list the cameras on the controller', async () => {
+      const cameras = await discoverCameras(simulator.credentials, new ProtectClient(createMockLogger()));
+
+      expect(cameras).toEqual([
+        expect.objectContaining({
+          id: 'camera-1',
+          name: 'Test Camera',
+          capabilities: expect.objectContaining({ statusLed: true, doorbell: true, smartDetectTypes: ['person'] }),
+        }),
+      ]);
+    });
+
+    it('should report rejected credentials', async () => {
+      const credentials = { ...simulator.credentials, password: 'wrong' };
+
+      await expect(discoverCameras(credentials, new ProtectClient(createMockLogger()))).rejects.toMatchObject({
+        reason: 'auth',
+      });
+    });
+  });
+});
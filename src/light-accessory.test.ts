@@ -0,0 +1,100 @@
+import type { API, CharacteristicSetHandler, PlatformAccessory, Service } from 'homebridge';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { ProtectClient } from './api/client.js';
+import { LightAccessory } from './light-accessory.js';
+import type { ProtectMotionPlatform } from './platform.js';
+import { createMockAccessory, createMockAPI, createMockLight, createMockPlatform } from './test/mocks.js';
+
+describe('LightAccessory', () => {
+  let api: API;
+  let platform: ProtectMotionPlatform;
+  let client: ProtectClient;
+  let accessory: PlatformAccessory;
+
+  const createAccessory = (lightOverrides: Record<string, unknown> = {}): LightAccessory => {
+    accessory.context.device = createMockLight(lightOverrides);
+    return new LightAccessory(platform, accessory, client);
+  };
+
+  const lightbulb = (): Service => accessory.getServiceById('Lightbulb' as never, 'light') as Service;
+
+  const setHandler = (characteristic: string): CharacteristicSetHandler =>
+    vi.mocked(lightbulb().getCharacteristic(characteristic as never).onSet).mock.calls[0][0];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    api = createMockAPI();
+    platform = createMockPlatform(api);
+    client = {
+      updateLight: vi.fn().mockResolvedValue(true),
+      canControl: vi.fn(() => true),
+    } as unknown as ProtectClient;
+    accessory = createMockAccessory('Driveway Floodlight', 'uuid-1');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should create a lightbulb and motion sensor', () => {
+    createAccessory({ lightDeviceSettings: { ledLevel: 3 } });
+
+    expect(lightbulb().updateCharacteristic).toHaveBeenCalledWith('Brightness', 50);
+    expect(accessory.getServiceById('MotionSensor' as never, 'motion-sensor')).toBeDefined();
+  });
+
+  it('should show the light as read-only when the user cannot change it', () => {
+    vi.mocked(client.canControl).mockReturnValue(false);
+    createAccessory();
+
+    expect(lightbulb().getCharacteristic('On' as never).setProps).toHaveBeenCalledWith({ perms: ['pr', 'ev'] });
+    expect(lightbulb().getCharacteristic('Brightness' as never).setProps).toHaveBeenCalledWith({ perms: ['pr', 'ev'] });
+  });
+
+  it('should force the light on through the client', async () => {
+    createAccessory();
+
+    await setHandler('On')(true, {} as never);
+
+    expect(client.updateLight).toHaveBeenCalledWith(expect.objectContaining({ id: 'light-1' }), {
+      lightOnSettings: { isLedForceOn: true },
+    });
+  });
+
+  it('should map brightness to the nearest Protect level', async () => {
+    createAccessory();
+
+    await setHandler('Brightness')(40, {} as never);
+    await setHandler('Brightness')(1, {} as never);
+
+    expect(client.updateLight).toHaveBeenNthCalledWith(1, expect.anything(), {
+      lightDeviceSettings: { ledLevel: 2 },
+    });
+    expect(client.updateLight).toHaveBeenNthCalledWith(2, expect.anything(), {
+      lightDeviceSettings: { ledLevel: 1 },
+    });
+  });
+
+  it('should revert the light state when the update fails', async () => {
+    vi.mocked(client.updateLight).mockResolvedValue(false);
+    createAccessory();
+
+    await setHandler('On')(true, {} as never);
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(lightbulb().updateCharacteristic).toHaveBeenLastCalledWith('Brightness', 100);
+    expect(lightbulb().updateCharacteristic).toHaveBeenCalledWith('On', false);
+  });
+
+  it('should report motion from the event stream', () => {
+    const lightAccessory = createAccessory();
+
+    lightAccessory.handleUpdate({ isPirMotionDetected: true });
+
+    expect(
+      accessory.getServiceById('MotionSensor' as never, 'motion-sensor')!.updateCharacteristic,
+    ).toHaveBeenLastCalledWith('MotionDetected', true);
+    expect(platform.log.info).toHaveBeenCalledWith('Motion detected on Driveway Floodlight');
+  });
+});
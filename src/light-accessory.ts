@@ -0,0 +1,161 @@
+import type { CharacteristicValue, PlatformAccessory, Service } from 'homebridge';
+
+import type { ProtectClient } from './api/client.js';
+import type { ProtectLight } from './api/types.js';
+import type { ProtectMotionPlatform } from './platform.js';
+
+const MAX_LED_LEVEL = 6; // Protect lights use brightness levels 1-6
+
+export class LightAccessory {
+  private readonly lightbulb: Service;
+  private readonly motionSensor: Service;
+
+  constructor(
+    private readonly platform: ProtectMotionPlatform,
+    private readonly accessory: PlatformAccessory,
+    private readonly client: ProtectClient,
+  ) {
+    this.configureAccessoryInformation(this.light);
+    this.lightbulb = this.configureLightbulb();
+    this.motionSensor = this.configureMotionSensor();
+
+    // Set initial values
+    this.updateState();
+  }
+
+  private get light(): ProtectLight {
+    return this.accessory.context.device as ProtectLight;
+  }
+
+  private get brightness(): number {
+    const ledLevel = this.light.lightDeviceSettings?.ledLevel ?? MAX_LED_LEVEL;
+    return Math.round((ledLevel / MAX_LED_LEVEL) * 100);
+  }
+
+  private configureAccessoryInformation(light: ProtectLight): void {
+    const infoService = this.accessory.getService(this.platform.Service.AccessoryInformation);
+    if (infoService) {
+      infoService
+        .setCharacteristic(this.platform.Characteristic.Manufacturer, 'Ubiquiti')
+        .setCharacteristic(this.platform.Characteristic.Model, light.type || 'UniFi Light')
+        .setCharacteristic(this.platform.Characteristic.SerialNumber, light.mac || light.id);
+    }
+  }
+
+  private configureLightbulb(): Service {
+    const service = this.getOrAddService(this.platform.Service.Lightbulb, 'Light', 'light');
+
+    // Users that can't change lights still see whether they're on
+    const { Perms } = this.platform.api.hap;
+    const perms = this.client.canControl('light')
+      ? [Perms.PAIRED_READ, Perms.PAIRED_WRITE, Perms.NOTIFY]
+      : [Perms.PAIRED_READ, Perms.NOTIFY];
+
+    service
+      .getCharacteristic(this.platform.Characteristic.On)
+      .setProps({ perms })
+      .onGet(() => !!this.light.isLightOn)
+      .onSet(this.setLightOn.bind(this));
+
+    service
+      .getCharacteristic(this.platform.Characteristic.Brightness)
+      .setProps({ perms })
+      .onGet(() => this.brightness)
+      .onSet(this.setBrightness.bind(this));
+
+    return service;
+  }
+
+  private configureMotionSensor(): Service {
+    const service = this.getOrAddService(this.platform.Service.MotionSensor, 'Motion', 'motion-sensor');
+
+    service
+      .getCharacteristic(this.platform.Characteristic.MotionDetected)
+      .onGet(() => !!this.light.isPirMotionDetected);
+
+    return service;
+  }
+
+  private getOrAddService(
+    serviceType: typeof this.platform.Service.Lightbulb | typeof this.platform.Service.MotionSensor,
+    displayName: string,
+    subtype: string,
+  ): Service {
+    const existingService = this.accessory.getServiceById(serviceType, subtype);
+    if (existingService) {
+      existingService.setCharacteristic(this.platform.Characteristic.Name, displayName);
+      return existingService;
+    }
+
+    const service = this.accessory.addService(serviceType, displayName, subtype);
+    service.addOptionalCharacteristic(this.platform.Characteristic.ConfiguredName);
+    service.setCharacteristic(this.platform.Characteristic.ConfiguredName, displayName);
+    return service;
+  }
+
+  private async setLightOn(value: CharacteristicValue): Promise<void> {
+    const on = value as boolean;
+    this.platform.debugLog(`Turning ${this.light.name} ${on ? 'on' : 'off'}`);
+
+    const success = await this.client.updateLight(this.light, { lightOnSettings: { isLedForceOn: on } });
+
+    if (success) {
+      this.accessory.context.device = { ...this.light, isLightOn: on };
+    } else {
+      // Revert the light state on failure
+      setTimeout(() => {
+        this.updateState();
+      }, 100);
+    }
+  }
+
+  private async setBrightness(value: CharacteristicValue): Promise<void> {
+    const ledLevel = Math.max(1, Math.round(((value as number) / 100) * MAX_LED_LEVEL));
+    this.platform.debugLog(`Setting ${this.light.name} brightness level to ${ledLevel}`);
+
+    const success = await this.client.updateLight(this.light, { lightDeviceSettings: { ledLevel } });
+
+    if (success) {
+      this.accessory.context.device = {
+        ...this.light,
+        lightDeviceSettings: { ...this.light.lightDeviceSettings, ledLevel },
+      };
+    } else {
+      // Revert the brightness on failure
+      setTimeout(() => {
+        this.updateState();
+      }, 100);
+    }
+  }
+
+  public handleUpdate(payload: Partial<ProtectLight>): void {
+    const light = this.light;
+
+    this.accessory.context.device = {
+      ...light,
+      ...payload,
+      lightDeviceSettings: payload.lightDeviceSettings
+        ? { ...light.lightDeviceSettings, ...payload.lightDeviceSettings }
+        : light.lightDeviceSettings,
+    };
+
+    if (payload.isPirMotionDetected && !light.isPirMotionDetected) {
+      this.platform.log.info(`Motion detected on ${light.name}`);
+    }
+
+    this.updateState();
+  }
+
+  public dispose(): void {
+    // Lights hold no timers or subscriptions
+  }
+
+  private updateState(): void {
+    this.lightbulb.updateCharacteristic(this.platform.Characteristic.On, !!this.light.isLightOn);
+    this.lightbulb.updateCharacteristic(this.platform.Characteristic.Brightness, this.brightness);
+    this.motionSensor.updateCharacteristic(
+      this.platform.Characteristic.MotionDetected,
+      !!this.light.isPirMotionDetected,
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+
+import { Counter, Gauge, Histogram, PluginMetrics } from './metrics.js';
+
+describe('metrics', () => {
+  it('should render counters with help, type and labels', () => {
+    const counter = new Counter('test_total', 'A test counter');
+
+    counter.inc({ camera: 'Front Porch' });
+    counter.inc({ camera: 'Front Porch' }, 2);
+    counter.inc({ camera: 'Garage' });
+
+    expect(counter.render()).toEqual([
+      '# HELP test_total A test counter',
+      '# TYPE test_total counter',
+      'test_total{camera="Front Porch"} 3',
+      'test_total{camera="Garage"} 1',
+    ]);
+  });
+
+  it('should escape label values', () => {
+    const gauge = new Gauge('test_state', 'A test gauge');
+
+    gauge.set({ camera: 'Say "hi"\\\nthere' }, 1);
+
+    expect(gauge.render()).toContain('test_state{camera="Say \\"hi\\"\\\\\\nthere"} 1');
+  });
+
+  it('should render cumulative histogram buckets', () => {
+    const histogram = new Histogram('test_seconds', 'A test histogram', [0.1, 1]);
+
+    histogram.observe({ device: 'camera' }, 0.05);
+    histogram.observe({ device: 'camera' }, 0.5);
+    histogram.observe({ device: 'camera' }, 3);
+
+    expect(histogram.render().slice(2)).toEqual([
+      'test_seconds_bucket{device="camera",le="0.1"} 1',
+      'test_seconds_bucket{device="camera",le="1"} 2',
+      'test_seconds_bucket{device="camera",le="+Inf"} 3',
+      'test_seconds_sum{device="camera"} 3.55',
+      'test_seconds_count{device="camera"} 3',
+    ]);
+  });
+
+  it('should leave out metrics without any samples', () => {
+    const metrics = new PluginMetrics();
+    expect(metrics.render()).toBe('');
+
+    metrics.motionEvents.inc({ controller: '10.0.0.1', camera_id: 'camera-1', outcome: 'received' });
+
+    expect(metrics.render()).toBe(
+      [
+        '# HELP protect_motion_events_total Motion events by camera ID and outcome: received from Protect, triggered the HomeKit sensor, or suppressed',
+        '# TYPE protect_motion_events_total counter',
+        'protect_motion_events_total{controller="10.0.0.1",camera_id="camera-1",outcome="received"} 1',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('should keep a single name series for each camera', () => {
+    const metrics = new PluginMetrics();
+
+    metrics.setCameraName('camera-1', 'Garage');
+    metrics.setCameraName('camera-1', 'Driveway');
+
+    expect(metrics.render()).toContain('protect_camera_info{camera_id="camera-1",camera="Driveway"} 1');
+    expect(metrics.render()).not.toContain('Garage');
+  });
+});
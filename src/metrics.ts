@@ -0,0 +1,197 @@
+type Labels = Record<string, string>;
+
+// Protect calls mostly finish well under a second, slow ones are what's worth seeing
+const UPDATE_DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]; // seconds
+
+export type MotionOutcome = 'received' | 'triggered' | 'suppressed';
+
+const escapeLabel = (value: string): string =>
+  value.replaceAll('\\', '\\\\').replaceAll('"', '\\"').replaceAll('\n', '\\n');
+
+const formatLabels = (labels: Labels): string => {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+};
+
+abstract class Metric {
+  constructor(
+    public readonly name: string,
+    private readonly help: string,
+    private readonly type: 'counter' | 'gauge' | 'histogram',
+  ) {}
+
+  protected abstract samples(): string[];
+
+  public render(): string[] {
+    const samples = this.samples();
+    if (samples.length === 0) {
+      return [];
+    }
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`, ...samples];
+  }
+}
+
+export class Counter extends Metric {
+  private readonly values = new Map<string, number>();
+
+  constructor(name: string, help: string) {
+    super(name, help, 'counter');
+  }
+
+  public inc(labels: Labels, amount = 1): void {
+    const key = formatLabels(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + amount);
+  }
+
+  public get(labels: Labels): number {
+    return this.values.get(formatLabels(labels)) ?? 0;
+  }
+
+  protected samples(): string[] {
+    return [...this.values].map(([labels, value]) => `${this.name}${labels} ${value}`);
+  }
+}
+
+export class Gauge extends Metric {
+  private readonly values = new Map<string, number>();
+
+  constructor(name: string, help: string) {
+    super(name, help, 'gauge');
+  }
+
+  public set(labels: Labels, value: number): void {
+    this.values.set(formatLabels(labels), value);
+  }
+
+  public get(labels: Labels): number | undefined {
+    return this.values.get(formatLabels(labels));
+  }
+
+  public delete(labels: Labels): void {
+    this.values.delete(formatLabels(labels));
+  }
+
+  protected samples(): string[] {
+    return [...this.values].map(([labels, value]) => `${this.name}${labels} ${value}`);
+  }
+}
+
+interface HistogramSeries {
+  labels: Labels;
+  buckets: number[]; // observations at or below each bound, not cumulative
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends Metric {
+  private readonly series = new Map<string, HistogramSeries>();
+
+  constructor(
+    name: string,
+    help: string,
+    private readonly bounds: number[],
+  ) {
+    super(name, help, 'histogram');
+  }
+
+  public observe(labels: Labels, value: number): void {
+    const key = formatLabels(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+
+    const bucket = this.bounds.findIndex((bound) => value <= bound);
+    if (bucket > -1) {
+      series.buckets[bucket]++;
+    }
+    series.sum += value;
+    series.count++;
+  }
+
+  protected samples(): string[] {
+    return [...this.series.values()].flatMap(({ labels, buckets, sum, count }) => {
+      let cumulative = 0;
+      const lines = this.bounds.map((bound, index) => {
+        cumulative += buckets[index];
+        return `${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${cumulative}`;
+      });
+      return [
+        ...lines,
+        `${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+        `${this.name}_sum${formatLabels(labels)} ${sum}`,
+        `${this.name}_count${formatLabels(labels)} ${count}`,
+      ];
+    });
+  }
+}
+
+/**
+ * Counters and gauges for the plugin and its controllers, served in the Prometheus text format. Series only appear
+ * once they have a value, so a fresh start shows no cameras or packets rather than a wall of zeros.
+ */
+export class PluginMetrics {
+  public readonly motionEvents = new Counter(
+    'protect_motion_events_total',
+    'Motion events by camera ID and outcome: received from Protect, triggered the HomeKit sensor, or suppressed',
+  );
+  public readonly cameraInfo = new Gauge('protect_camera_info', 'Camera names by camera ID, always 1');
+  public readonly packets = new Counter('protect_packets_total', 'Websocket packets handled, by model key and action');
+  public readonly ignoredPackets = new Counter(
+    'protect_packets_ignored_total',
+    'Websocket packets ignored because they were unknown or invalid',
+  );
+  public readonly handlerErrors = new Counter(
+    'protect_packet_handler_errors_total',
+    'Errors thrown while handling websocket packets',
+  );
+  public readonly updateDuration = new Histogram(
+    'protect_device_update_duration_seconds',
+    'Time taken by device setting changes sent to Protect',
+    UPDATE_DURATION_BUCKETS,
+  );
+  public readonly updateFailures = new Counter(
+    'protect_device_update_failures_total',
+    'Device setting changes Protect rejected or that failed to send',
+  );
+  public readonly reconnects = new Counter('protect_reconnect_attempts_total', 'Attempts to reconnect to a controller');
+  public readonly connectionState = new Gauge(
+    'protect_controller_connection_state',
+    'Controller connection state, 1 for the current state and 0 for the others',
+  );
+  private readonly cameraNames = new Map<string, string>();
+
+  private get all(): Metric[] {
+    return [
+      this.motionEvents,
+      this.cameraInfo,
+      this.packets,
+      this.ignoredPackets,
+      this.handlerErrors,
+      this.updateDuration,
+      this.updateFailures,
+      this.reconnects,
+      this.connectionState,
+    ];
+  }
+
+  // Names have their own series, so renaming a camera in Protect doesn't split its counters
+  public setCameraName(id: string, name: string): void {
+    const previous = this.cameraNames.get(id);
+    if (previous === name) {
+      return;
+    }
+
+    if (previous !== undefined) {
+      this.cameraInfo.delete({ camera_id: id, camera: previous });
+    }
+    this.cameraNames.set(id, name);
+    this.cameraInfo.set({ camera_id: id, camera: name }, 1);
+  }
+
+  public render(): string {
+    const lines = this.all.flatMap((metric) => metric.render());
+    return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+  }
+}
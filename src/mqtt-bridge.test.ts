@@ -0,0 +1,150 @@
+import type { AddressInfo, Server } from 'node:net';
+import { createServer } from 'node:net';
+
+import { Aedes } from 'aedes';
+import type { MqttClient } from 'mqtt';
+import { connectAsync } from 'mqtt';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { CameraAccessory, CameraState } from './camera-accessory.js';
+import { MqttBridge } from './mqtt-bridge.js';
+import { createMockLogger } from './test/mocks.js';
+
+describe('MqttBridge', () => {
+  let broker: Aedes;
+  let server: Server;
+  let url: string;
+  let observer: MqttClient;
+  let messages: Map<string, string>;
+  let bridge: MqttBridge;
+  let camera: CameraAccessory;
+  let state: CameraState;
+  let log: ReturnType<typeof createMockLogger>;
+
+  const waitFor = (topic: string, payload: string): Promise<void> =>
+    vi.waitFor(() => expect(messages.get(topic)).toBe(payload), { timeout: 2_000 });
+
+  const startBridge = async (): Promise<void> => {
+    log = createMockLogger();
+    bridge = new MqttBridge(log, { enabled: true, url, topicPrefix: 'home/protect/' }, () => [camera]);
+    bridge.start();
+    await vi.waitFor(() => expect(bridge.isConnected).toBe(true), { timeout: 2_000 });
+  };
+
+  beforeEach(async () => {
+    broker = await Aedes.createBroker();
+    server = createServer(broker.handle);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `mqtt://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    messages = new Map();
+    observer = await connectAsync(url);
+    observer.on('message', (topic, payload) => messages.set(topic, payload.toString()));
+    await observer.subscribeAsync('home/protect/#');
+
+    state = {
+      id: 'camera-1',
+      name: 'Front Porch',
+      mac: 'AABBCCDDEEFF',
+      controller: '192.168.1.1',
+      connected: true,
+      motionDetected: false,
+      motionEnabled: true,
+      ledEnabled: true,
+      quietHours: false,
+    };
+    camera = {
+      get state() {
+        return { ...state };
+      },
+      setLedEnabled: vi.fn().mockResolvedValue(true),
+      setMotionEnabled: vi.fn().mockResolvedValue(false),
+    } as unknown as CameraAccessory;
+  });
+
+  afterEach(async () => {
+    await bridge.stop();
+    await observer.endAsync();
+    await new Promise<void>((resolve) => broker.close(() => resolve()));
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('should publish availability and retained camera state', async () => {
+    await startBridge();
+
+    bridge.publishCameraState(state);
+    bridge.publishControllerState('192.168.1.1', 'connected');
+
+    await waitFor('home/protect/availability', 'online');
+    await waitFor('home/protect/camera-1/motion', 'false');
+    await waitFor('home/protect/camera-1/led', 'true');
+    await waitFor('home/protect/camera-1/motionEnabled', 'true');
+    await waitFor('home/protect/controllers/192.168.1.1/state', 'connected');
+  });
+
+  it('should publish state collected before the broker connected', async () => {
+    bridge = new MqttBridge(createMockLogger(), { enabled: true, url, topicPrefix: 'home/protect' }, () => [camera]);
+    bridge.publishCameraState({ ...state, motionDetected: true });
+    bridge.start();
+
+    await waitFor('home/protect/camera-1/motion', 'true');
+  });
+
+  it('should publish smart detections as events', async () => {
+    await startBridge();
+
+    bridge.publishCameraEvent({
+      type: 'smartDetect',
+      camera: { id: 'camera-1', name: 'Front Porch', mac: 'AABBCCDDEEFF' },
+      controller: '192.168.1.1',
+      timestamp: 1000,
+      suppressed: false,
+      smartDetectTypes: ['person'],
+    });
+
+    await waitFor('home/protect/camera-1/smartDetect', '{"types":["person"],"timestamp":1000,"suppressed":false}');
+  });
+
+  it('should apply commands from the set topics', async () => {
+    await startBridge();
+
+    await observer.publishAsync('home/protect/camera-1/led/set', 'OFF');
+
+    await vi.waitFor(() => expect(camera.setLedEnabled).toHaveBeenCalledWith(false), { timeout: 2_000 });
+  });
+
+  it('should ignore retained commands', async () => {
+    await observer.publishAsync('home/protect/camera-1/led/set', 'OFF', { retain: true });
+
+    await startBridge();
+
+    await vi.waitFor(
+      () =>
+        expect(log.warn).toHaveBeenCalledWith(
+          'Ignoring retained MQTT command on home/protect/camera-1/led/set, publish commands without the retain flag',
+        ),
+      { timeout: 2_000 },
+    );
+    expect(camera.setLedEnabled).not.toHaveBeenCalled();
+  });
+
+  it('should republish the current state when a command fails', async () => {
+    await startBridge();
+    bridge.publishCameraState(state);
+    await waitFor('home/protect/camera-1/motionEnabled', 'true');
+    messages.clear();
+
+    await observer.publishAsync('home/protect/camera-1/motionEnabled/set', 'false');
+
+    await waitFor('home/protect/camera-1/motionEnabled', 'true');
+    expect(camera.setMotionEnabled).toHaveBeenCalledWith(false);
+  });
+
+  it('should publish offline when stopped', async () => {
+    await startBridge();
+
+    await bridge.stop();
+
+    await waitFor('home/protect/availability', 'offline');
+  });
+});
@@ -0,0 +1,190 @@
+import type { Logging } from 'homebridge';
+import type { MqttClient } from 'mqtt';
+import { connect } from 'mqtt';
+
+import type { ConnectionState } from './api/client.js';
+import type { CameraAccessory, CameraState } from './camera-accessory.js';
+import type { CameraEvent } from './events.js';
+import type { MqttConfig } from './settings.js';
+import { DEFAULT_MQTT_TOPIC_PREFIX } from './settings.js';
+
+const ONLINE = 'online';
+const OFFLINE = 'offline';
+
+type CameraProvider = () => CameraAccessory[];
+
+export class MqttBridge {
+  private client: MqttClient | null = null;
+  private readonly topicPrefix: string;
+  private readonly cameraStates: Map<string, CameraState> = new Map();
+  private readonly controllerStates: Map<string, ConnectionState> = new Map();
+
+  constructor(
+    private readonly log: Logging,
+    private readonly config: MqttConfig,
+    private readonly getCameras: CameraProvider,
+  ) {
+    this.topicPrefix = (config.topicPrefix || DEFAULT_MQTT_TOPIC_PREFIX).replace(/\/+$/, '');
+  }
+
+  public get isConnected(): boolean {
+    return this.client?.connected ?? false;
+  }
+
+  public start(): void {
+    if (!this.config.url) {
+      this.log.error('MQTT is enabled but no broker URL is configured, not starting it');
+      return;
+    }
+
+    // The client reconnects on its own, so connection errors are only logged
+    this.client = connect(this.config.url, {
+      username: this.config.username,
+      password: this.config.password,
+      will: { topic: this.topic('availability'), payload: Buffer.from(OFFLINE), qos: 1, retain: true },
+    });
+
+    this.client.on('connect', () => this.handleConnect());
+    this.client.on(
+      'message',
+      (topic, payload, packet) => void this.handleCommand(topic, payload.toString(), packet.retain),
+    );
+    this.client.on('offline', () =>
+      this.log.warn(`Lost connection to MQTT broker ${this.config.url}, reconnecting...`),
+    );
+    this.client.on('error', (error) => this.log.debug(`MQTT error: ${error.message}`));
+  }
+
+  public async stop(): Promise<void> {
+    const client = this.client;
+    if (!client) {
+      return;
+    }
+
+    this.client = null;
+    if (client.connected) {
+      await client.publishAsync(this.topic('availability'), OFFLINE, { qos: 1, retain: true }).catch(() => undefined);
+    }
+    await client.endAsync();
+  }
+
+  public publishCameraState(state: CameraState): void {
+    const previous = this.cameraStates.get(state.id);
+    this.cameraStates.set(state.id, state);
+
+    if (previous?.motionDetected !== state.motionDetected) {
+      this.publish(`${state.id}/motion`, String(state.motionDetected), true);
+    }
+    if (previous?.motionEnabled !== state.motionEnabled) {
+      this.publish(`${state.id}/motionEnabled`, String(state.motionEnabled), true);
+    }
+    if (previous?.ledEnabled !== state.ledEnabled) {
+      this.publish(`${state.id}/led`, String(state.ledEnabled), true);
+    }
+    if (previous?.quietHours !== state.quietHours) {
+      this.publish(`${state.id}/quietHours`, String(state.quietHours), true);
+    }
+    if (previous?.name !== state.name) {
+      this.publish(`${state.id}/name`, state.name, true);
+    }
+  }
+
+  public publishCameraEvent(event: CameraEvent): void {
+    // Motion and settings are covered by the retained state topics
+    if (event.type === 'smartDetect') {
+      this.publish(
+        `${event.camera.id}/smartDetect`,
+        JSON.stringify({ types: event.smartDetectTypes, timestamp: event.timestamp, suppressed: event.suppressed }),
+        false,
+      );
+    } else if (event.type === 'ring') {
+      this.publish(`${event.camera.id}/ring`, JSON.stringify({ timestamp: event.timestamp }), false);
+    }
+  }
+
+  public publishControllerState(address: string, state: ConnectionState): void {
+    this.controllerStates.set(address, state);
+    this.publish(`controllers/${address}/state`, state, true);
+  }
+
+  private handleConnect(): void {
+    this.log.info(`Connected to MQTT broker ${this.config.url}`);
+
+    this.client?.subscribe(this.topic('+/+/set'), { qos: 1 });
+    this.publish('availability', ONLINE, true);
+
+    // Retained messages may have been cleared while we were away, so publish everything again
+    for (const [address, state] of this.controllerStates) {
+      this.publish(`controllers/${address}/state`, state, true);
+    }
+    const states = [...this.cameraStates.values()];
+    this.cameraStates.clear();
+    for (const state of states) {
+      this.publishCameraState(state);
+    }
+  }
+
+  private async handleCommand(topic: string, payload: string, retained: boolean): Promise<void> {
+    // The broker replays retained commands on every subscribe, which would undo changes made since
+    if (retained) {
+      this.log.warn(`Ignoring retained MQTT command on ${topic}, publish commands without the retain flag`);
+      return;
+    }
+
+    const [cameraId, setting] = topic.slice(this.topicPrefix.length + 1).split('/');
+
+    const camera = this.getCameras().find((accessory) => accessory.state.id === cameraId);
+    if (!camera) {
+      this.log.warn(`Ignoring MQTT command for unknown camera: ${cameraId}`);
+      return;
+    }
+
+    const enabled = this.parseBoolean(payload);
+    if (enabled === null) {
+      this.log.warn(`Ignoring MQTT command with invalid payload on ${topic}: ${payload}`);
+      return;
+    }
+
+    let success: boolean;
+    if (setting === 'led') {
+      success = await camera.setLedEnabled(enabled);
+    } else if (setting === 'motionEnabled') {
+      success = await camera.setMotionEnabled(enabled);
+    } else {
+      this.log.warn(`Ignoring unknown MQTT command topic: ${topic}`);
+      return;
+    }
+
+    // Republish the unchanged state so subscribers don't keep the rejected value
+    if (!success) {
+      this.cameraStates.delete(cameraId);
+      this.publishCameraState(camera.state);
+    }
+  }
+
+  private parseBoolean(payload: string): boolean | null {
+    switch (payload.trim().toLowerCase()) {
+      case 'true':
+      case 'on':
+      case '1':
+        return true;
+      case 'false':
+      case 'off':
+      case '0':
+        return false;
+      default:
+        return null;
+    }
+  }
+
+  private publish(subtopic: string, payload: string, retain: boolean): void {
+    if (!this.client?.connected) {
+      return;
+    }
+    this.client.publish(this.topic(subtopic), payload, { qos: 1, retain });
+  }
+
+  private topic(subtopic: string): string {
+    return `${this.topicPrefix}/${subtopic}`;
+  }
+}
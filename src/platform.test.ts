@@ -0,0 +1,429 @@
+import { rmSync } from 'node:fs';
+
+import type { API, PlatformAccessory, Service } from 'homebridge';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { ProtectPacket } from './api/packets.js';
+import { parsePacket } from './api/packets.js';
+import { ProtectMotionPlatform } from './platform.js';
+import type { ProtectMotionPlatformConfig } from './settings.js';
+import { createMockAPI, createMockCamera, createMockConfig, createMockLogger, createMockSensor } from './test/mocks.js';
+
+const controller = vi.hoisted(() => ({
+  cameras: [] as Record<string, unknown>[],
+  sensors: [] as Record<string, unknown>[],
+  nvr: null as Record<string, unknown> | null,
+  packetHandlers: [] as { modelKey: string; action: string; handler: (packet: ProtectPacket) => void }[],
+}));
+
+vi.mock('./api/client.js', () => {
+  class ProtectClient {
+    public isConnected = true;
+    public connectionState = 'connected';
+    private readonly stateHandlers: ((state: string) => void)[] = [];
+
+    public get cameras(): Record<string, unknown>[] {
+      return controller.cameras;
+    }
+
+    public get sensors(): Record<string, unknown>[] {
+      return controller.sensors;
+    }
+
+    public get nvr(): Record<string, unknown> | null {
+      return controller.nvr;
+    }
+
+    public lights = [];
+    public chimes = [];
+    public canControl = vi.fn(() => true);
+
+    public onStateChange = vi.fn((handler: (state: string) => void) => {
+      this.stateHandlers.push(handler);
+      return vi.fn();
+    });
+
+    public on = vi.fn((modelKey: string, action: string, handler: (packet: ProtectPacket) => void) => {
+      controller.packetHandlers.push({ modelKey, action, handler });
+      return vi.fn();
+    });
+
+    public connect = vi.fn(async () => {
+      for (const handler of this.stateHandlers) {
+        handler('connected');
+      }
+      return true;
+    });
+
+    public refreshBootstrap = vi.fn().mockResolvedValue(true);
+    public disconnect = vi.fn();
+  }
+
+  return { ProtectClient };
+});
+
+describe('ProtectMotionPlatform', () => {
+  let api: API;
+
+  // Goes through the real parser, so test packets have to be valid ones
+  const emitPacket = (message: unknown): void => {
+    const result = parsePacket(message);
+    if (result.status !== 'valid') {
+      throw new Error(`Test packet is ${result.status}: ${result.reason}`);
+    }
+
+    for (const { modelKey, action, handler } of controller.packetHandlers) {
+      if (modelKey === result.packet.modelKey && action === result.packet.action) {
+        handler(result.packet);
+      }
+    }
+  };
+
+  const allRegisteredAccessories = (): PlatformAccessory[] =>
+    vi.mocked(api.registerPlatformAccessories).mock.calls.flatMap(([, , accessories]) => accessories);
+
+  // Leaves out the controller status accessory, which every controller gets by default
+  const registeredAccessories = (): PlatformAccessory[] =>
+    allRegisteredAccessories().filter((acc) => acc.context.modelKey !== 'nvr');
+
+  const launch = async (config: Partial<ProtectMotionPlatformConfig> = {}): Promise<void> => {
+    new ProtectMotionPlatform(createMockLogger(), createMockConfig(config), api);
+    (api as unknown as { emit: (event: string) => void }).emit('didFinishLaunching');
+    await vi.advanceTimersByTimeAsync(0);
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    api = createMockAPI();
+    controller.cameras = [createMockCamera()];
+    controller.sensors = [];
+    controller.nvr = null;
+    controller.packetHandlers = [];
+  });
+
+  afterEach(() => {
+    (api as unknown as { emit: (event: string) => void }).emit('shutdown');
+    rmSync(api.user.storagePath(), { recursive: true, force: true });
+    vi.useRealTimers();
+  });
+
+  it('should register an accessory for each camera in the bootstrap', async () => {
+    await launch();
+
+    expect(registeredAccessories().map((acc) => acc.displayName)).toEqual(['Test Camera']);
+  });
+
+  it('should add cameras adopted after startup', async () => {
+    await launch();
+
+    emitPacket({
+      header: { action: 'add', modelKey: 'camera', id: 'camera-2' },
+      payload: createMockCamera({ id: 'camera-2', name: 'Garage' }),
+    });
+
+    expect(registeredAccessories().map((acc) => acc.displayName)).toEqual(['Test Camera', 'Garage']);
+  });
+
+  it('should remove cameras deleted after startup', async () => {
+    await launch();
+
+    emitPacket({ header: { action: 'remove', modelKey: 'camera', id: 'camera-1' }, payload: {} });
+
+    expect(api.unregisterPlatformAccessories).toHaveBeenCalledWith(expect.any(String), expect.any(String), [
+      registeredAccessories()[0],
+    ]);
+  });
+
+  it('should rename accessories when the camera is renamed', async () => {
+    await launch();
+
+    emitPacket({ header: { action: 'update', modelKey: 'camera', id: 'camera-1' }, payload: { name: 'Front Door' } });
+
+    expect(registeredAccessories()[0].updateDisplayName).toHaveBeenCalledWith('Front Door');
+    expect(api.updatePlatformAccessories).toHaveBeenCalled();
+  });
+
+  it('should sync cameras on the scheduled bootstrap refresh', async () => {
+    await launch();
+
+    controller.cameras = [createMockCamera({ id: 'camera-2', name: 'Garage' })];
+    await vi.advanceTimersByTimeAsync(10 * 60 * 1000);
+
+    expect(registeredAccessories().map((acc) => acc.displayName)).toEqual(['Test Camera', 'Garage']);
+    expect(api.unregisterPlatformAccessories).toHaveBeenCalledWith(expect.any(String), expect.any(String), [
+      registeredAccessories()[0],
+    ]);
+  });
+
+  describe('controller status', () => {
+    const controllerAccessory = (): PlatformAccessory | undefined =>
+      allRegisteredAccessories().find((acc) => acc.context.modelKey === 'nvr');
+
+    const getService = (type: string, subtype: string): Service =>
+      controllerAccessory()!.getServiceById(type as never, subtype) as Service;
+
+    it('should add a status accessory for each controller', async () => {
+      controller.nvr = { id: 'nvr-1', name: 'Home NVR', type: 'UNVR', mac: '001122334455' };
+      await launch();
+
+      expect(controllerAccessory()?.displayName).toBe('UniFi Protect 192.168.1.1');
+      expect(getService('ContactSensor', 'connection').updateCharacteristic).toHaveBeenCalledWith(
+        api.hap.Characteristic.ContactSensorState,
+        0,
+      );
+    });
+
+    it('should not add a status accessory when turned off', async () => {
+      await launch({
+        controllers: [{ address: '192.168.1.1', username: 'user', password: 'pass', statusAccessory: false }],
+      });
+
+      expect(controllerAccessory()).toBeUndefined();
+    });
+
+    it('should apply NVR updates from the event stream', async () => {
+      controller.nvr = { id: 'nvr-1', name: 'Home NVR', type: 'UNVR', mac: '001122334455' };
+      await launch();
+
+      emitPacket({
+        header: { action: 'update', modelKey: 'nvr', id: 'nvr-1' },
+        payload: { systemInfo: { cpu: { averageLoad: 1, temperature: 61 } } },
+      });
+
+      expect(getService('TemperatureSensor', 'cpu-temperature').updateCharacteristic).toHaveBeenCalledWith(
+        'CurrentTemperature',
+        61,
+      );
+    });
+  });
+
+  describe('security system', () => {
+    const securityAccessory = (): PlatformAccessory | undefined =>
+      allRegisteredAccessories().find((acc) => acc.context.modelKey === 'securitySystem');
+
+    it('should only add the security system when enabled', async () => {
+      await launch();
+      expect(securityAccessory()).toBeUndefined();
+
+      await launch({ securitySystem: { enabled: true, name: 'Home Alarm' } });
+      expect(securityAccessory()?.displayName).toBe('Home Alarm');
+    });
+
+    it('should trigger the alarm when an armed camera detects motion', async () => {
+      await launch({ securitySystem: { enabled: true } });
+      const service = securityAccessory()!.services[0];
+      const targetState = service.getCharacteristic(api.hap.Characteristic.SecuritySystemTargetState);
+      await vi
+        .mocked(targetState.onSet)
+        .mock.calls[0][0](api.hap.Characteristic.SecuritySystemTargetState.AWAY_ARM, undefined as never);
+      await vi.advanceTimersByTimeAsync(0);
+
+      emitPacket({
+        header: { action: 'update', modelKey: 'camera', id: 'camera-1' },
+        payload: { lastMotion: Date.now() },
+      });
+
+      expect(service.updateCharacteristic).toHaveBeenCalledWith(
+        api.hap.Characteristic.SecuritySystemCurrentState,
+        api.hap.Characteristic.SecuritySystemCurrentState.ALARM_TRIGGERED,
+      );
+    });
+  });
+
+  describe('camera groups', () => {
+    const groupAccessories = (): PlatformAccessory[] =>
+      allRegisteredAccessories().filter((acc) => acc.context.modelKey === 'cameraGroup');
+
+    it('should add an accessory for each valid group', async () => {
+      await launch({
+        cameraGroups: [
+          { name: 'Perimeter', cameras: ['Test Camera'] },
+          { name: 'Indoor', cameras: [] },
+          { name: 'perimeter', cameras: ['camera-1'] },
+        ],
+      });
+
+      expect(groupAccessories().map((acc) => acc.displayName)).toEqual(['Perimeter']);
+    });
+
+    it('should report motion from member cameras', async () => {
+      await launch({ cameraGroups: [{ name: 'Perimeter', cameras: ['camera-1'] }] });
+      const motionSensor = groupAccessories()[0].getServiceById('MotionSensor' as never, 'group-motion') as Service;
+
+      emitPacket({
+        header: { action: 'update', modelKey: 'camera', id: 'camera-1' },
+        payload: { lastMotion: Date.now() },
+      });
+
+      expect(motionSensor.updateCharacteristic).toHaveBeenLastCalledWith('MotionDetected', true);
+    });
+
+    it('should stop reporting motion from cameras that are removed', async () => {
+      await launch({ cameraGroups: [{ name: 'Perimeter', cameras: ['camera-1'] }] });
+      const motionSensor = groupAccessories()[0].getServiceById('MotionSensor' as never, 'group-motion') as Service;
+      emitPacket({
+        header: { action: 'update', modelKey: 'camera', id: 'camera-1' },
+        payload: { lastMotion: Date.now() },
+      });
+
+      emitPacket({ header: { action: 'remove', modelKey: 'camera', id: 'camera-1' }, payload: {} });
+
+      expect(motionSensor.updateCharacteristic).toHaveBeenLastCalledWith('MotionDetected', false);
+    });
+  });
+
+  describe('zone sensors', () => {
+    const zone = (id: number, name: string): Record<string, unknown> => ({
+      id,
+      name,
+      color: '#ffffff',
+      points: [],
+      sensitivity: 50,
+    });
+
+    beforeEach(async () => {
+      controller.cameras = [
+        createMockCamera({
+          motionZones: [zone(0, 'Driveway'), zone(1, 'Sidewalk')],
+          smartDetectZones: [zone(1, 'Driveway')],
+        }),
+      ];
+      await launch({ cameras: [{ camera: 'camera-1', zoneSensors: ['Driveway', 'Sidewalk'] }] });
+    });
+
+    const zoneSensor = (name: string): Service =>
+      registeredAccessories()[0].getServiceById('MotionSensor' as never, `zone-${name}`) as Service;
+
+    it('should trigger the sensor for the zone in a motion event', () => {
+      emitPacket({
+        header: { action: 'add', modelKey: 'event', id: 'event-1' },
+        payload: { type: 'motion', camera: 'camera-1', start: 1000, metadata: { zonesStatus: { '1': { level: 60 } } } },
+      });
+
+      expect(zoneSensor('sidewalk').updateCharacteristic).toHaveBeenLastCalledWith('MotionDetected', true);
+      expect(zoneSensor('driveway').updateCharacteristic).not.toHaveBeenCalledWith('MotionDetected', true);
+    });
+
+    it('should resolve smart detection zones from event updates', () => {
+      emitPacket({
+        header: { action: 'add', modelKey: 'event', id: 'event-2' },
+        payload: { type: 'smartDetectZone', camera: 'camera-1', start: 1000, smartDetectTypes: ['vehicle'] },
+      });
+      emitPacket({
+        header: { action: 'update', modelKey: 'event', id: 'event-2' },
+        payload: { metadata: { detectedThumbnails: [{ type: 'vehicle', attributes: { zone: [1] } }] } },
+      });
+
+      expect(zoneSensor('driveway').updateCharacteristic).toHaveBeenLastCalledWith('MotionDetected', true);
+      expect(zoneSensor('sidewalk').updateCharacteristic).not.toHaveBeenCalledWith('MotionDetected', true);
+    });
+  });
+
+  describe('smart detection events', () => {
+    beforeEach(async () => {
+      await launch({ cameras: [{ camera: 'camera-1', smartDetectTypes: ['person'] }] });
+    });
+
+    const personDetections = (): number => {
+      const sensor = registeredAccessories()[0].getServiceById('MotionSensor' as never, 'smart-person') as Service;
+      return vi
+        .mocked(sensor.updateCharacteristic)
+        .mock.calls.filter(([name, value]) => name === 'MotionDetected' && (value as unknown) === true).length;
+    };
+
+    it('should not treat updates to an event as new detections', () => {
+      emitPacket({
+        header: { action: 'add', modelKey: 'event', id: 'event-3' },
+        payload: { type: 'smartDetectZone', camera: 'camera-1', start: 1000, smartDetectTypes: ['person'] },
+      });
+      vi.advanceTimersByTime(60_000);
+      emitPacket({
+        header: { action: 'update', modelKey: 'event', id: 'event-3' },
+        payload: { smartDetectTypes: ['person'], metadata: {} },
+      });
+
+      expect(personDetections()).toBe(1);
+    });
+
+    it('should ignore updates to events added before connecting', () => {
+      emitPacket({
+        header: { action: 'update', modelKey: 'event', id: 'event-4' },
+        payload: { camera: 'camera-1', smartDetectTypes: ['person'] },
+      });
+
+      expect(personDetections()).toBe(0);
+    });
+  });
+
+  describe('devices', () => {
+    beforeEach(() => {
+      controller.sensors = [createMockSensor()];
+    });
+
+    it('should register accessories for devices in the bootstrap', async () => {
+      await launch();
+
+      expect(registeredAccessories().map((acc) => acc.displayName)).toEqual(['Front Door Sensor', 'Test Camera']);
+      expect(registeredAccessories()[0].context.modelKey).toBe('sensor');
+    });
+
+    it('should not treat devices as stale cameras', async () => {
+      await launch();
+
+      await vi.advanceTimersByTimeAsync(10 * 60 * 1000);
+
+      expect(api.unregisterPlatformAccessories).not.toHaveBeenCalled();
+    });
+
+    it('should apply device updates from the event stream', async () => {
+      await launch();
+      const sensor = registeredAccessories()[0];
+
+      emitPacket({ header: { action: 'update', modelKey: 'sensor', id: 'sensor-1' }, payload: { isOpened: true } });
+
+      expect(sensor.context.device.isOpened).toBe(true);
+    });
+
+    it('should remove devices deleted after startup', async () => {
+      await launch();
+
+      emitPacket({ header: { action: 'remove', modelKey: 'sensor', id: 'sensor-1' }, payload: {} });
+
+      expect(api.unregisterPlatformAccessories).toHaveBeenCalledWith(expect.any(String), expect.any(String), [
+        registeredAccessories()[0],
+      ]);
+    });
+  });
+
+  describe('camera filters', () => {
+    beforeEach(() => {
+      controller.cameras = [
+        createMockCamera(),
+        createMockCamera({ id: 'camera-2', name: 'Garage', mac: '112233445566' }),
+      ];
+    });
+
+    it('should not expose hidden cameras', async () => {
+      await launch({ cameras: [{ camera: 'Garage', hidden: true }] });
+
+      expect(registeredAccessories().map((acc) => acc.displayName)).toEqual(['Test Camera']);
+    });
+
+    it('should only expose listed cameras when exposeAllCameras is off', async () => {
+      await launch({ exposeAllCameras: false, cameras: [{ camera: '11:22:33:44:55:66' }] });
+
+      expect(registeredAccessories().map((acc) => acc.displayName)).toEqual(['Garage']);
+    });
+
+    it('should not add hidden cameras adopted after startup', async () => {
+      await launch({ cameras: [{ camera: 'camera-3', hidden: true }] });
+
+      emitPacket({
+        header: { action: 'add', modelKey: 'camera', id: 'camera-3' },
+        payload: createMockCamera({ id: 'camera-3', name: 'Shed' }),
+      });
+
+      expect(registeredAccessories()).toHaveLength(2);
+    });
+  });
+});
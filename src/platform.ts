@@ -1,18 +1,84 @@
+import { join } from 'node:path';
+
 import type { API, DynamicPlatformPlugin, Logging, PlatformAccessory, PlatformConfig } from 'homebridge';
 
 import { ProtectClient } from './api/client.js';
 import { ProtectApiError } from './api/errors.js';
-import type { ProtectCamera, ProtectEventPacket } from './api/types.js';
+import type { ProtectCamera, ProtectDevice, ProtectEvent, ProtectEventMetadata } from './api/types.js';
+import type { CameraState } from './camera-accessory.js';
 import { CameraAccessory } from './camera-accessory.js';
-import type { ControllerConfig, ProtectMotionPlatformConfig } from './settings.js';
-import { DEFAULT_MOTION_DURATION, PLATFORM_NAME, PLUGIN_NAME } from './settings.js';
+import { CameraGroupAccessory } from './camera-group-accessory.js';
+import { ChimeAccessory } from './chime-accessory.js';
+import { ControlApiServer } from './control-api.js';
+import { ControllerAccessory } from './controller-accessory.js';
+import type { ControllerCredentials } from './credentials.js';
+import { CredentialsError, resolveCredentials } from './credentials.js';
+import type { EventQuery, StoredEvent } from './event-store.js';
+import { EventStore } from './event-store.js';
+import type { CameraEvent } from './events.js';
+import { LightAccessory } from './light-accessory.js';
+import { PluginMetrics } from './metrics.js';
+import { MqttBridge } from './mqtt-bridge.js';
+import { Schedule } from './schedules.js';
+import { SecuritySystemAccessory } from './security-system-accessory.js';
+import { SensorAccessory } from './sensor-accessory.js';
+import type {
+  CameraConfig,
+  CameraGroupConfig,
+  ControllerConfig,
+  ProtectMotionPlatformConfig,
+  SecuritySystemConfig,
+} from './settings.js';
+import { DEFAULT_MOTION_DURATION, findCameraConfig, PLATFORM_NAME, PLUGIN_NAME } from './settings.js';
+import { WebhookDispatcher } from './webhooks.js';
+
+const MAX_TRACKED_EVENTS = 100;
+const BOOTSTRAP_REFRESH_INTERVAL = 10 * 60; // seconds
+const SCHEDULE_CHECK_INTERVAL = 60; // seconds
+const DEVICE_MODEL_KEYS = ['sensor', 'light', 'chime'] as const;
+
+type DeviceModelKey = (typeof DEVICE_MODEL_KEYS)[number];
+
+interface DeviceAccessory {
+  handleUpdate(payload: Partial<ProtectDevice>): void;
+  dispose(): void;
+}
+
+// Protect reports zones in different places depending on the event type and firmware
+const getEventZoneIds = (metadata: ProtectEventMetadata | undefined): number[] => {
+  const ids = [
+    ...(metadata?.detectedAreas ?? []).flatMap((area) => area.areaIndexes ?? []),
+    ...(metadata?.detectedThumbnails ?? []).flatMap((thumbnail) => thumbnail.attributes?.zone ?? []),
+    ...Object.entries(metadata?.zonesStatus ?? {})
+      .filter(([, status]) => status.level > 0)
+      .map(([id]) => Number(id)),
+  ];
+  return [...new Set(ids)].filter((id) => Number.isInteger(id));
+};
 
 export class ProtectMotionPlatform implements DynamicPlatformPlugin {
   public readonly accessories: PlatformAccessory[] = [];
   private readonly configuredAccessories: Map<string, CameraAccessory> = new Map();
+  private readonly configuredDevices: Map<string, DeviceAccessory> = new Map();
   private readonly clients: Map<string, ProtectClient> = new Map();
+  private readonly configuredControllers: Set<string> = new Set();
+  private readonly controllerAccessories: Map<string, ControllerAccessory> = new Map();
+  private readonly trackedEvents: Map<string, { camera: string; type: string; start?: number }> = new Map();
+  private readonly cameraGroups: Map<string, CameraGroupAccessory> = new Map(); // keyed by accessory UUID
+  private securitySystem: SecuritySystemAccessory | null = null;
+  private bootstrapRefreshTimer: NodeJS.Timeout | null = null;
+  private scheduleTimer: NodeJS.Timeout | null = null;
+  private readonly webhooks: WebhookDispatcher;
+  private readonly eventStore: EventStore;
+  private readonly controlApi: ControlApiServer | null;
+  private readonly mqtt: MqttBridge | null;
+  private readonly cameraConfigs: CameraConfig[];
+  private readonly schedules: Schedule[];
+  private readonly exposeAllCameras: boolean;
   private readonly motionDuration: number;
   private readonly debug: boolean;
+  public readonly eveHistory: boolean;
+  public readonly metrics: PluginMetrics | null;
 
   public get Service(): typeof this.api.hap.Service {
     return this.api.hap.Service;
@@ -28,21 +94,83 @@ export class ProtectMotionPlatform implements DynamicPlatformPlugin {
     public readonly api: API,
   ) {
     const platformConfig = config as ProtectMotionPlatformConfig;
+    this.cameraConfigs = platformConfig.cameras ?? [];
+    this.exposeAllCameras = platformConfig.exposeAllCameras ?? true;
     this.motionDuration = platformConfig.motionDuration ?? DEFAULT_MOTION_DURATION;
     this.debug = platformConfig.debug ?? false;
+    this.eveHistory = platformConfig.eventHistory?.eveHistory ?? false;
+    this.schedules = (platformConfig.schedules ?? [])
+      .map((schedule) => Schedule.fromConfig(schedule, platformConfig.location, this.log, platformConfig.cameraGroups))
+      .filter((schedule): schedule is Schedule => schedule !== null);
+    this.webhooks = new WebhookDispatcher(this.log, platformConfig.webhooks ?? []);
+    this.eventStore = new EventStore(
+      this.log,
+      join(this.api.user.storagePath(), PLUGIN_NAME, 'events.json'),
+      platformConfig.eventHistory,
+    );
+    this.eventStore.load();
+    this.metrics = platformConfig.controlApi?.enabled && platformConfig.controlApi.metrics ? new PluginMetrics() : null;
+    this.controlApi = platformConfig.controlApi?.enabled
+      ? new ControlApiServer(
+          this.log,
+          platformConfig.controlApi,
+          () => [...this.configuredAccessories.values()],
+          this.metrics,
+        )
+      : null;
+    this.mqtt = platformConfig.mqtt?.enabled
+      ? new MqttBridge(this.log, platformConfig.mqtt, () => [...this.configuredAccessories.values()])
+      : null;
 
     this.log.info('Initializing platform:', PLATFORM_NAME);
 
     this.api.on('didFinishLaunching', () => {
       this.debugLog('Finished launching, discovering controllers...');
-      this.discoverControllers(platformConfig.controllers ?? []);
+      this.configureSecuritySystem(platformConfig.securitySystem);
+      this.configureCameraGroups(platformConfig.cameraGroups ?? []);
+      void this.discoverControllers(platformConfig.controllers ?? []).catch((error) => {
+        this.log.error('Error discovering controllers:', error);
+      });
+      void this.controlApi?.start();
+      this.mqtt?.start();
+
+      // Pick up cameras adopted or removed while an event was missed
+      this.bootstrapRefreshTimer = setInterval(() => {
+        void this.refreshBootstraps();
+      }, BOOTSTRAP_REFRESH_INTERVAL * 1000);
+
+      if (this.schedules.length > 0) {
+        this.scheduleTimer = setInterval(() => {
+          for (const cameraAccessory of this.configuredAccessories.values()) {
+            cameraAccessory.updateSchedules();
+          }
+        }, SCHEDULE_CHECK_INTERVAL * 1000);
+      }
     });
 
     this.api.on('shutdown', () => {
       this.log.info('Shutting down, closing API connections...');
+      if (this.bootstrapRefreshTimer) {
+        clearInterval(this.bootstrapRefreshTimer);
+        this.bootstrapRefreshTimer = null;
+      }
+      if (this.scheduleTimer) {
+        clearInterval(this.scheduleTimer);
+        this.scheduleTimer = null;
+      }
       for (const client of this.clients.values()) {
         client.disconnect();
       }
+      for (const device of this.configuredDevices.values()) {
+        device.dispose();
+      }
+      for (const group of this.cameraGroups.values()) {
+        group.dispose();
+      }
+      this.webhooks.dispose();
+      this.eventStore.flush();
+      void this.controlApi?.stop();
+      void this.mqtt?.stop();
     });
   }
 
@@ -51,62 +179,148 @@ export class ProtectMotionPlatform implements DynamicPlatformPlugin {
     this.accessories.push(accessory);
   }
 
+  private configureSecuritySystem(config: SecuritySystemConfig | undefined): void {
+    const uuid = this.api.hap.uuid.generate('security-system');
+    let accessory = this.accessories.find((acc) => acc.UUID === uuid);
+
+    if (!config?.enabled) {
+      if (accessory) {
+        this.log.info(`Removing security system: ${accessory.displayName}`);
+        this.unregisterAccessories([accessory]);
+      }
+      return;
+    }
+
+    if (!accessory) {
+      const name = config.name || 'Security System';
+      this.log.info(`Adding security system: ${name}`);
+      accessory = new this.api.platformAccessory(name, uuid);
+      this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+      this.accessories.push(accessory);
+    } else {
+      this.debugLog(`Restoring existing security system: ${accessory.displayName}`);
+    }
+
+    accessory.context.modelKey = 'securitySystem';
+
+    this.securitySystem = new SecuritySystemAccessory(this, accessory, config, () => [
+      ...this.configuredAccessories.values(),
+    ]);
+  }
+
+  private configureCameraGroups(configs: CameraGroupConfig[]): void {
+    const groups = new Map<string, CameraGroupConfig>();
+    for (const config of configs) {
+      if (!config.name || !config.cameras?.length) {
+        this.log.error('Camera group configuration needs a name and at least one camera');
+        continue;
+      }
+
+      // Keyed by name, so a group keeps its HomeKit automations when cameras are added to it
+      const uuid = this.api.hap.uuid.generate(`camera-group:${config.name.toLowerCase()}`);
+      if (groups.has(uuid)) {
+        this.log.warn(`Ignoring duplicate camera group: ${config.name}`);
+        continue;
+      }
+      groups.set(uuid, config);
+    }
+
+    const staleGroups = this.accessories.filter(
+      (acc) => acc.context.modelKey === 'cameraGroup' && !groups.has(acc.UUID),
+    );
+    if (staleGroups.length > 0) {
+      this.log.info(`Removing ${staleGroups.length} stale camera groups`);
+      this.unregisterAccessories(staleGroups);
+    }
+
+    for (const [uuid, config] of groups) {
+      let accessory = this.accessories.find((acc) => acc.UUID === uuid);
+
+      if (!accessory) {
+        this.log.info(`Adding camera group: ${config.name}`);
+        accessory = new this.api.platformAccessory(config.name, uuid);
+        this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+        this.accessories.push(accessory);
+      } else {
+        this.debugLog(`Restoring existing camera group: ${accessory.displayName}`);
+      }
+
+      accessory.context.modelKey = 'cameraGroup';
+
+      this.cameraGroups.set(
+        uuid,
+        new CameraGroupAccessory(this, accessory, config, () => [...this.configuredAccessories.values()]),
+      );
+    }
+  }
+
   private async discoverControllers(controllers: ControllerConfig[]): Promise<void> {
     if (!controllers || controllers.length === 0) {
       this.log.warn('No controllers configured. Please add a controller in the config.');
       return;
     }
 
+    // Drop status accessories for controllers that were removed or had theirs turned off
+    const statusAddresses = controllers
+      .filter((controller) => controller.address && controller.statusAccessory !== false)
+      .map((controller) => controller.address);
+    const staleControllers = this.accessories.filter(
+      (acc) => acc.context.modelKey === 'nvr' && !statusAddresses.includes(acc.context.controllerAddress),
+    );
+    if (staleControllers.length > 0) {
+      this.log.info(`Removing ${staleControllers.length} stale controller status accessories`);
+      this.unregisterAccessories(staleControllers);
+    }
+
     for (const controller of controllers) {
-      if (!this.validateControllerConfig(controller)) {
+      const credentials = this.validateControllerConfig(controller);
+      if (!credentials) {
         continue;
       }
 
-      await this.connectToController(controller);
+      await this.connectToController(controller, credentials);
     }
   }
 
-  private validateControllerConfig(controller: ControllerConfig): boolean {
+  private validateControllerConfig(controller: ControllerConfig): ControllerCredentials | null {
     if (!controller.address) {
       this.log.error('Controller configuration missing address');
-      return false;
+      return null;
     }
-    if (!controller.username) {
-      this.log.error('Controller configuration missing username');
-      return false;
-    }
-    if (!controller.password) {
-      this.log.error('Controller configuration missing password');
-      return false;
-    }
-    return true;
-  }
-
-  private async connectToController(controller: ControllerConfig): Promise<void> {
-    const client = new ProtectClient(this.log);
 
     try {
-      const success = await client.connect(controller.address, controller.username, controller.password);
-
-      if (!success) {
-        return;
+      return resolveCredentials(controller, this.api.user.storagePath());
+    } catch (error) {
+      if (error instanceof CredentialsError) {
+        this.log.error(error.message);
+        return null;
       }
+      throw error;
+    }
+  }
 
-      this.clients.set(controller.address, client);
+  private async connectToController(controller: ControllerConfig, credentials: ControllerCredentials): Promise<void> {
+    const client = new ProtectClient(this.log, this.metrics);
+    this.clients.set(controller.address, client);
 
-      const cameras = client.cameras;
-      if (cameras.length === 0) {
-        this.log.warn(`No cameras found on controller ${controller.address}`);
-        return;
+    // Set up before connecting, so HomeKit shows a controller that can't be reached at startup
+    if (controller.statusAccessory !== false) {
+      this.configureControllerAccessory(client, controller.address);
+    }
+
+    // Fires on the initial connection and again after every reconnect
+    client.onStateChange((state) => {
+      this.mqtt?.publishControllerState(controller.address, state);
+      if (state === 'connected') {
+        this.handleControllerConnected(client, controller.address);
       }
+    });
 
-      this.log.info(`Found ${cameras.length} cameras on ${controller.address}`);
-      this.configureCameras(client, cameras, controller.address);
+    // Subscribe to real-time events
+    this.subscribeToPackets(client, controller.address);
 
-      // Subscribe to real-time events
-      client.onMessage((packet: ProtectEventPacket) => {
-        this.handleProtectMessage(controller.address, packet);
-      });
+    try {
+      await client.connect(controller.address, credentials);
     } catch (error) {
       if (error instanceof ProtectApiError) {
         if (error.isAuthError) {
@@ -120,75 +334,317 @@ export class ProtectMotionPlatform implements DynamicPlatformPlugin {
     }
   }
 
-  private configureCameras(client: ProtectClient, cameras: ProtectCamera[], controllerAddress: string): void {
-    for (const camera of cameras) {
-      const uuid = this.api.hap.uuid.generate(`${controllerAddress}:${camera.id}`);
+  private configureControllerAccessory(client: ProtectClient, controllerAddress: string): void {
+    const uuid = this.api.hap.uuid.generate(`${controllerAddress}:nvr`);
 
-      let accessory = this.accessories.find((acc) => acc.UUID === uuid);
-      const isNew = !accessory;
+    let accessory = this.accessories.find((acc) => acc.UUID === uuid);
 
-      if (!accessory) {
-        this.log.info(`Adding new camera: ${camera.name}`);
-        accessory = new this.api.platformAccessory(camera.name, uuid);
-        this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
-        this.accessories.push(accessory);
+    if (!accessory) {
+      const name = `UniFi Protect ${controllerAddress}`;
+      this.log.info(`Adding controller status: ${name}`);
+      accessory = new this.api.platformAccessory(name, uuid);
+      this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+      this.accessories.push(accessory);
+    } else {
+      this.debugLog(`Restoring existing controller status: ${accessory.displayName}`);
+    }
+
+    accessory.context.modelKey = 'nvr';
+    accessory.context.controllerAddress = controllerAddress;
+
+    this.controllerAccessories.set(controllerAddress, new ControllerAccessory(this, accessory, client));
+  }
+
+  private handleControllerConnected(client: ProtectClient, controllerAddress: string): void {
+    const cameras = client.cameras;
+
+    const nvr = client.nvr;
+    if (nvr) {
+      this.controllerAccessories.get(controllerAddress)?.updateNvr(nvr);
+    }
+
+    if (this.configuredControllers.has(controllerAddress)) {
+      // Catch up on cameras and settings that changed while we were disconnected
+      this.configureCameras(client, cameras, controllerAddress);
+      this.configureDevices(client, controllerAddress);
+      return;
+    }
+
+    this.configuredControllers.add(controllerAddress);
+    this.reportPermissions(client, controllerAddress);
+    this.configureDevices(client, controllerAddress);
+
+    if (cameras.length === 0) {
+      this.log.warn(`No cameras found on controller ${controllerAddress}`);
+      return;
+    }
+
+    this.log.info(`Found ${cameras.length} cameras on ${controllerAddress}`);
+    this.configureCameras(client, cameras, controllerAddress);
+  }
+
+  // Reported once per controller, rather than as each switch fails to change
+  private reportPermissions(client: ProtectClient, controllerAddress: string): void {
+    const limits = [
+      client.canControl('camera')
+        ? null
+        : 'camera switches are read-only and recording, privacy and hardware controls are left out',
+      client.canControl('light') || client.lights.length === 0 ? null : 'lights are read-only',
+      client.canControl('chime') || client.chimes.length === 0 || client.usesApiKey ? null : 'chimes are left out',
+    ].filter((limit): limit is string => limit !== null);
+
+    if (client.usesApiKey) {
+      this.log.info(
+        `${controllerAddress} is connected with an API key, so camera settings other than the status LED and HDR ` +
+          "can't be changed and chimes are left out. Log in with a username and password to use them.",
+      );
+    }
+
+    if (limits.length > 0) {
+      this.log.warn(
+        `The user for ${controllerAddress} can only view some devices, so ${limits.join(', ')}. ` +
+          'Give it the Full Management role in UniFi Protect to control them, then restart Homebridge.',
+      );
+    }
+  }
+
+  private configureCameras(client: ProtectClient, cameras: ProtectCamera[], controllerAddress: string): void {
+    const exposedCameras = cameras.filter((camera) => this.isCameraExposed(camera));
+
+    for (const camera of exposedCameras) {
+      const cameraAccessory = this.configuredAccessories.get(camera.id);
+      if (cameraAccessory) {
+        cameraAccessory.updateCamera(camera);
       } else {
-        this.debugLog(`Restoring existing camera: ${camera.name}`);
+        this.configureCamera(client, camera, controllerAddress);
       }
+    }
+
+    this.removeStaleAccessories(
+      'camera',
+      exposedCameras.map((camera) => camera.id),
+      controllerAddress,
+    );
+  }
+
+  private isCameraExposed(camera: ProtectCamera): boolean {
+    const cameraConfig = findCameraConfig(this.cameraConfigs, camera);
+
+    if (cameraConfig?.hidden || (!cameraConfig && !this.exposeAllCameras)) {
+      this.debugLog(`Skipping hidden camera: ${camera.name}`);
+      return false;
+    }
+    return true;
+  }
+
+  private configureCamera(client: ProtectClient, camera: ProtectCamera, controllerAddress: string): void {
+    const uuid = this.api.hap.uuid.generate(`${controllerAddress}:${camera.id}`);
+
+    let accessory = this.accessories.find((acc) => acc.UUID === uuid);
+    const isNew = !accessory;
+
+    if (!accessory) {
+      this.log.info(`Adding new camera: ${camera.name}`);
+      accessory = new this.api.platformAccessory(camera.name, uuid);
+      this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+      this.accessories.push(accessory);
+    } else {
+      this.debugLog(`Restoring existing camera: ${camera.name}`);
+    }
 
-      accessory.context.camera = camera;
-      accessory.context.controllerAddress = controllerAddress;
+    accessory.context.camera = camera;
+    accessory.context.modelKey = 'camera';
+    accessory.context.controllerAddress = controllerAddress;
 
-      const cameraAccessory = new CameraAccessory(this, accessory, client, this.motionDuration);
+    const cameraConfig = findCameraConfig(this.cameraConfigs, camera);
+    const motionDuration = cameraConfig?.motionDuration ?? this.motionDuration;
+    const schedules = this.schedules.filter((schedule) => schedule.appliesTo(camera));
+    const cameraAccessory = new CameraAccessory(this, accessory, client, motionDuration, cameraConfig, schedules);
 
-      this.configuredAccessories.set(camera.id, cameraAccessory);
+    this.configuredAccessories.set(camera.id, cameraAccessory);
+    this.refreshCameraFollowers();
 
-      if (!isNew) {
-        this.api.updatePlatformAccessories([accessory]);
+    if (!isNew) {
+      // Pick up renames made in Protect while Homebridge was stopped
+      cameraAccessory.handleNameUpdate(camera.name);
+      this.api.updatePlatformAccessories([accessory]);
+    }
+  }
+
+  private configureDevices(client: ProtectClient, controllerAddress: string): void {
+    const devicesByModel: [DeviceModelKey, ProtectDevice[]][] = [
+      ['sensor', client.sensors],
+      ['light', client.lights],
+      // Chimes only have a switch to play them, so there's nothing to show without permission to do that
+      ['chime', client.canControl('chime') ? client.chimes : []],
+    ];
+
+    for (const [modelKey, devices] of devicesByModel) {
+      for (const device of devices) {
+        const deviceAccessory = this.configuredDevices.get(device.id);
+        if (deviceAccessory) {
+          deviceAccessory.handleUpdate(device);
+        } else {
+          this.configureDevice(client, modelKey, device, controllerAddress);
+        }
       }
+
+      this.removeStaleAccessories(
+        modelKey,
+        devices.map((device) => device.id),
+        controllerAddress,
+      );
+    }
+  }
+
+  private configureDevice(
+    client: ProtectClient,
+    modelKey: DeviceModelKey,
+    device: ProtectDevice,
+    controllerAddress: string,
+  ): void {
+    const uuid = this.api.hap.uuid.generate(`${controllerAddress}:${device.id}`);
+
+    let accessory = this.accessories.find((acc) => acc.UUID === uuid);
+
+    if (!accessory) {
+      this.log.info(`Adding new ${modelKey}: ${device.name}`);
+      accessory = new this.api.platformAccessory(device.name, uuid);
+      this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+      this.accessories.push(accessory);
+    } else {
+      this.debugLog(`Restoring existing ${modelKey}: ${device.name}`);
     }
 
-    this.removeStaleAccessories(cameras, controllerAddress);
+    accessory.context.device = device;
+    accessory.context.modelKey = modelKey;
+    accessory.context.controllerAddress = controllerAddress;
+
+    const deviceAccessory =
+      modelKey === 'sensor'
+        ? new SensorAccessory(this, accessory)
+        : modelKey === 'light'
+          ? new LightAccessory(this, accessory, client)
+          : new ChimeAccessory(this, accessory, client);
+
+    this.configuredDevices.set(device.id, deviceAccessory);
   }
 
-  private removeStaleAccessories(cameras: ProtectCamera[], controllerAddress: string): void {
-    const validUUIDs = new Set(
-      cameras.map((camera) => this.api.hap.uuid.generate(`${controllerAddress}:${camera.id}`)),
-    );
+  private async refreshBootstraps(): Promise<void> {
+    for (const [controllerAddress, client] of this.clients) {
+      if (!this.configuredControllers.has(controllerAddress) || !(await client.refreshBootstrap())) {
+        continue;
+      }
 
+      this.debugLog(`Refreshed bootstrap from ${controllerAddress}`);
+      const nvr = client.nvr;
+      if (nvr) {
+        this.controllerAccessories.get(controllerAddress)?.updateNvr(nvr);
+      }
+      this.configureCameras(client, client.cameras, controllerAddress);
+      this.configureDevices(client, controllerAddress);
+    }
+  }
+
+  private removeStaleAccessories(modelKey: string, ids: string[], controllerAddress: string): void {
+    const validUUIDs = new Set(ids.map((id) => this.api.hap.uuid.generate(`${controllerAddress}:${id}`)));
+
+    // Accessories cached before devices were supported are all cameras
     const accessoriesToRemove = this.accessories.filter(
-      (acc) => acc.context.controllerAddress === controllerAddress && !validUUIDs.has(acc.UUID),
+      (acc) =>
+        acc.context.controllerAddress === controllerAddress &&
+        (acc.context.modelKey ?? 'camera') === modelKey &&
+        !validUUIDs.has(acc.UUID),
     );
 
     if (accessoriesToRemove.length > 0) {
       this.log.info(`Removing ${accessoriesToRemove.length} stale accessories`);
-      this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, accessoriesToRemove);
-      for (const acc of accessoriesToRemove) {
-        const index = this.accessories.indexOf(acc);
-        if (index > -1) {
-          this.accessories.splice(index, 1);
-        }
-      }
+      this.unregisterAccessories(accessoriesToRemove);
     }
   }
 
-  private handleProtectMessage(_controllerAddress: string, packet: ProtectEventPacket): void {
-    if (!packet.action || !packet.payload) {
-      return;
+  private removeAccessory(controllerAddress: string, id: string): void {
+    const uuid = this.api.hap.uuid.generate(`${controllerAddress}:${id}`);
+    const accessory = this.accessories.find((acc) => acc.UUID === uuid);
+
+    if (accessory) {
+      this.log.info(`Removing ${accessory.context.modelKey ?? 'camera'}: ${accessory.displayName}`);
+      this.unregisterAccessories([accessory]);
     }
+  }
 
-    const { action, modelKey, id } = packet.action;
+  private unregisterAccessories(accessoriesToRemove: PlatformAccessory[]): void {
+    this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, accessoriesToRemove);
+    for (const acc of accessoriesToRemove) {
+      const cameraId = (acc.context.camera as ProtectCamera | undefined)?.id;
+      if (cameraId) {
+        this.configuredAccessories.get(cameraId)?.dispose();
+        this.configuredAccessories.delete(cameraId);
+        this.refreshCameraFollowers();
+      }
 
-    if (modelKey !== 'camera' || action !== 'update') {
-      return;
+      if (acc.context.modelKey === 'cameraGroup') {
+        this.cameraGroups.get(acc.UUID)?.dispose();
+        this.cameraGroups.delete(acc.UUID);
+      }
+
+      const deviceId = (acc.context.device as ProtectDevice | undefined)?.id;
+      if (deviceId) {
+        this.configuredDevices.get(deviceId)?.dispose();
+        this.configuredDevices.delete(deviceId);
+      }
+
+      if (acc.context.modelKey === 'nvr') {
+        this.controllerAccessories.get(acc.context.controllerAddress)?.dispose();
+        this.controllerAccessories.delete(acc.context.controllerAddress);
+      }
+
+      const index = this.accessories.indexOf(acc);
+      if (index > -1) {
+        this.accessories.splice(index, 1);
+      }
+    }
+  }
+
+  private subscribeToPackets(client: ProtectClient, controllerAddress: string): void {
+    client.on('camera', 'add', ({ payload }) => this.handleCameraAdded(controllerAddress, payload));
+    client.on('camera', 'update', ({ id, payload }) => this.handleCameraUpdate(id, payload));
+    client.on('camera', 'remove', ({ id }) => this.removeAccessory(controllerAddress, id));
+
+    client.on('event', 'add', ({ id, payload }) => this.handleEventMessage('add', id, payload));
+    client.on('event', 'update', ({ id, payload }) => this.handleEventMessage('update', id, payload));
+
+    client.on('nvr', 'update', ({ payload }) =>
+      this.controllerAccessories.get(controllerAddress)?.handleUpdate(payload),
+    );
+
+    for (const modelKey of DEVICE_MODEL_KEYS) {
+      client.on(modelKey, 'add', ({ payload }) => this.handleDeviceAdded(controllerAddress, modelKey, payload));
+      client.on(modelKey, 'update', ({ id, payload }) => {
+        this.debugLog(`Update on ${modelKey} ${id}`);
+        this.configuredDevices.get(id)?.handleUpdate(payload);
+      });
+      client.on(modelKey, 'remove', ({ id }) => this.removeAccessory(controllerAddress, id));
     }
+  }
 
+  private handleCameraUpdate(id: string, cameraPayload: Partial<ProtectCamera>): void {
     const cameraAccessory = this.configuredAccessories.get(id);
     if (!cameraAccessory) {
       return;
     }
 
-    const cameraPayload = packet.payload;
+    // Check for rename
+    if (cameraPayload.name !== undefined) {
+      this.debugLog(`Name updated on camera ${id}`);
+      cameraAccessory.handleNameUpdate(cameraPayload.name);
+    }
+
+    // Check for the camera going offline or coming back
+    if (cameraPayload.state !== undefined) {
+      this.debugLog(`State updated on camera ${id}: ${cameraPayload.state}`);
+      cameraAccessory.handleStateUpdate(cameraPayload.state);
+    }
 
     // Check for motion update
     if (cameraPayload.lastMotion !== undefined) {
@@ -196,8 +652,29 @@ export class ProtectMotionPlatform implements DynamicPlatformPlugin {
       cameraAccessory.handleMotionEvent(cameraPayload.lastMotion);
     }
 
-    // Check for LED settings update
-    if (cameraPayload.ledSettings !== undefined) {
+    // Check for doorbell ring
+    if (cameraPayload.lastRing !== undefined) {
+      this.debugLog(`Ring detected on camera ${id}`);
+      cameraAccessory.handleRingEvent(cameraPayload.lastRing);
+    }
+
+    // Check for smart detection update
+    if (cameraPayload.lastSmartDetect !== undefined && cameraPayload.smartDetectTypes !== undefined) {
+      this.debugLog(`Smart detection on camera ${id}: ${cameraPayload.smartDetectTypes.join(', ')}`);
+      cameraAccessory.handleSmartDetectEvent(cameraPayload.smartDetectTypes, cameraPayload.lastSmartDetect);
+    }
+
+    // Check for zone changes, so zone IDs in events resolve to the current names
+    if (cameraPayload.motionZones !== undefined || cameraPayload.smartDetectZones !== undefined) {
+      this.debugLog(`Zones updated on camera ${id}`);
+      cameraAccessory.handleZonesUpdate({
+        ...(cameraPayload.motionZones && { motionZones: cameraPayload.motionZones }),
+        ...(cameraPayload.smartDetectZones && { smartDetectZones: cameraPayload.smartDetectZones }),
+      });
+    }
+
+    // Check for LED settings update, ignoring packets that only change the blink rate
+    if (cameraPayload.ledSettings?.isEnabled !== undefined) {
       this.debugLog(`LED settings updated on camera ${id}`);
       cameraAccessory.handleLedSettingsUpdate(cameraPayload.ledSettings);
     }
@@ -207,6 +684,142 @@ export class ProtectMotionPlatform implements DynamicPlatformPlugin {
       this.debugLog(`Recording settings updated on camera ${id}`);
       cameraAccessory.handleRecordingSettingsUpdate(cameraPayload.recordingSettings.enableMotionDetection);
     }
+
+    // Check for privacy zones update
+    if (cameraPayload.privacyZones !== undefined) {
+      this.debugLog(`Privacy zones updated on camera ${id}`);
+      cameraAccessory.handlePrivacyZonesUpdate(cameraPayload.privacyZones);
+    }
+
+    // Check for recording mode update
+    if (cameraPayload.recordingSettings?.mode !== undefined) {
+      this.debugLog(`Recording mode updated on camera ${id}`);
+      cameraAccessory.handleRecordingModeUpdate(cameraPayload.recordingSettings.mode);
+    }
+
+    // Check for hardware settings updates (night vision, HDR, audio and LED blinking)
+    const { ispSettings, hdrMode, speakerSettings, isMicEnabled, micVolume, ledSettings } = cameraPayload;
+    if (
+      ispSettings?.irLedMode !== undefined ||
+      hdrMode !== undefined ||
+      speakerSettings !== undefined ||
+      isMicEnabled !== undefined ||
+      micVolume !== undefined ||
+      ledSettings?.blinkRate !== undefined
+    ) {
+      this.debugLog(`Hardware settings updated on camera ${id}`);
+      cameraAccessory.handleHardwareSettingsUpdate({
+        ...(ispSettings && { ispSettings }),
+        ...(hdrMode !== undefined && { hdrMode }),
+        ...(speakerSettings && { speakerSettings }),
+        ...(isMicEnabled !== undefined && { isMicEnabled }),
+        ...(micVolume !== undefined && { micVolume }),
+        ...(ledSettings && { ledSettings }),
+      });
+    }
+  }
+
+  private handleCameraAdded(controllerAddress: string, camera: ProtectCamera): void {
+    const client = this.clients.get(controllerAddress);
+    if (!client || !camera.id || this.configuredAccessories.has(camera.id) || !this.isCameraExposed(camera)) {
+      return;
+    }
+
+    this.configureCamera(client, camera, controllerAddress);
+  }
+
+  private handleDeviceAdded(controllerAddress: string, modelKey: DeviceModelKey, device: ProtectDevice): void {
+    const client = this.clients.get(controllerAddress);
+    if (client && !this.configuredDevices.has(device.id)) {
+      this.configureDevice(client, modelKey, device, controllerAddress);
+    }
+  }
+
+  private handleEventMessage(action: 'add' | 'update', eventId: string, event: Partial<ProtectEvent>): void {
+    if (event.type === 'ring') {
+      const cameraAccessory = event.camera ? this.configuredAccessories.get(event.camera) : undefined;
+      if (action === 'add' && cameraAccessory) {
+        this.debugLog(`Ring event ${eventId} on camera ${event.camera}`);
+        cameraAccessory.handleRingEvent(event.start ?? Date.now());
+      }
+      return;
+    }
+
+    if (event.type !== undefined && event.type !== 'smartDetectZone' && event.type !== 'motion') {
+      return;
+    }
+
+    if (action === 'add' && event.camera && event.type) {
+      this.trackedEvents.set(eventId, { camera: event.camera, type: event.type, start: event.start });
+
+      // Events normally end with an update, but don't let missed ones accumulate
+      if (this.trackedEvents.size > MAX_TRACKED_EVENTS) {
+        const oldest = this.trackedEvents.keys().next().value as string;
+        this.trackedEvents.delete(oldest);
+      }
+    }
+
+    // Event updates only carry the changed fields, so resolve the camera, type and start from the original add
+    const tracked = this.trackedEvents.get(eventId);
+    const cameraId = event.camera ?? tracked?.camera;
+    const type = event.type ?? tracked?.type;
+    const start = event.start ?? tracked?.start;
+    if (!cameraId) {
+      return;
+    }
+
+    if (event.end) {
+      this.trackedEvents.delete(eventId);
+    }
+
+    const cameraAccessory = this.configuredAccessories.get(cameraId);
+    if (!cameraAccessory) {
+      return;
+    }
+
+    const zoneIds = getEventZoneIds(event.metadata);
+    if (zoneIds.length && !event.end) {
+      this.debugLog(`Zones ${zoneIds.join(', ')} in event ${eventId} on camera ${cameraId}`);
+      cameraAccessory.handleZoneEvent(type === 'motion' ? 'motion' : 'smartDetect', zoneIds);
+    }
+
+    // Motion itself is reported through lastMotion on the camera. Without a start, an update for an event added
+    // before connecting can't be told apart from the detection it continues, so it's left out.
+    if (type === 'motion' || !event.smartDetectTypes?.length || start === undefined) {
+      return;
+    }
+
+    this.debugLog(`Smart detection event ${eventId} on camera ${cameraId}: ${event.smartDetectTypes.join(', ')}`);
+    cameraAccessory.handleSmartDetectEvent(event.smartDetectTypes, start);
+  }
+
+  public publishCameraEvent(event: CameraEvent): void {
+    this.debugLog(`${event.type} event on ${event.camera.name}${event.suppressed ? ' (suppressed)' : ''}`);
+    this.eventStore.record(event);
+    this.webhooks.dispatch(event);
+    this.mqtt?.publishCameraEvent(event);
+  }
+
+  public getCameraEvents(cameraId: string, query?: EventQuery): StoredEvent[] {
+    return this.eventStore.getEvents(cameraId, query);
+  }
+
+  public publishCameraState(state: CameraState): void {
+    this.mqtt?.publishCameraState(state);
+    if (state.motionDetected) {
+      this.securitySystem?.handleMotion(state);
+    }
+    for (const group of this.cameraGroups.values()) {
+      group.handleCameraState(state);
+    }
+  }
+
+  // Groups and the security system follow the cameras, which come and go as they're adopted, removed or hidden
+  private refreshCameraFollowers(): void {
+    for (const group of this.cameraGroups.values()) {
+      group.refresh();
+    }
+    this.securitySystem?.updatePermissions();
   }
 
   public debugLog(message: string, ...args: unknown[]): void {
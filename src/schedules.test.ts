@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+
+import { getSunTime, parseTimeSpec, Schedule } from './schedules.js';
+import type { ScheduleConfig } from './settings.js';
+import { createMockLogger } from './test/mocks.js';
+
+const LONDON = { latitude: 51.5074, longitude: -0.1278 };
+
+const createSchedule = (config: Partial<ScheduleConfig>): Schedule =>
+  Schedule.fromConfig({ name: 'Quiet Hours', start: '22:00', end: '07:00', ...config }, LONDON, createMockLogger())!;
+
+describe('schedules', () => {
+  describe('parseTimeSpec', () => {
+    it('should parse clock times', () => {
+      expect(parseTimeSpec('07:30')).toEqual({ type: 'time', minutes: 450 });
+      expect(parseTimeSpec('24:00')).toBeNull();
+    });
+
+    it('should parse sunrise and sunset with offsets', () => {
+      expect(parseTimeSpec('sunset')).toEqual({ type: 'sunset', offset: 0 });
+      expect(parseTimeSpec('Sunrise - 30')).toEqual({ type: 'sunrise', offset: -30 });
+      expect(parseTimeSpec('sunset+15')).toEqual({ type: 'sunset', offset: 15 });
+      expect(parseTimeSpec('dusk')).toBeNull();
+    });
+  });
+
+  describe('getSunTime', () => {
+    it('should calculate sunrise and sunset within a few minutes', () => {
+      const midsummer = new Date(2024, 5, 21);
+
+      const sunrise = getSunTime(midsummer, LONDON, 'sunrise')!;
+      const sunset = getSunTime(midsummer, LONDON, 'sunset')!;
+
+      expect(Math.abs(sunrise.getTime() - Date.UTC(2024, 5, 21, 3, 43))).toBeLessThan(3 * 60 * 1000);
+      expect(Math.abs(sunset.getTime() - Date.UTC(2024, 5, 21, 20, 21))).toBeLessThan(3 * 60 * 1000);
+    });
+
+    it('should return null when the sun never sets', () => {
+      expect(getSunTime(new Date(2024, 5, 21), { latitude: 78.2, longitude: 15.6 }, 'sunset')).toBeNull();
+    });
+  });
+
+  describe('Schedule', () => {
+    it('should reject invalid times and sun times without a location', () => {
+      const log = createMockLogger();
+
+      expect(Schedule.fromConfig({ name: 'Broken', start: 'late', end: '07:00' }, LONDON, log)).toBeNull();
+      expect(Schedule.fromConfig({ name: 'Night', start: 'sunset', end: 'sunrise' }, undefined, log)).toBeNull();
+      expect(log.error).toHaveBeenCalledTimes(2);
+    });
+
+    it('should handle windows that run past midnight', () => {
+      const schedule = createSchedule({});
+
+      expect(schedule.isActive(new Date(2024, 5, 21, 23, 0))).toBe(true);
+      expect(schedule.isActive(new Date(2024, 5, 22, 6, 59))).toBe(true);
+      expect(schedule.isActive(new Date(2024, 5, 22, 7, 0))).toBe(false);
+      expect(schedule.isActive(new Date(2024, 5, 22, 12, 0))).toBe(false);
+    });
+
+    it('should only start windows on the selected days', () => {
+      // June 21st 2024 is a Friday
+      const schedule = createSchedule({ days: ['fri'] });
+
+      expect(schedule.isActive(new Date(2024, 5, 21, 23, 0))).toBe(true);
+      expect(schedule.isActive(new Date(2024, 5, 22, 6, 0))).toBe(true);
+      expect(schedule.isActive(new Date(2024, 5, 22, 23, 0))).toBe(false);
+    });
+
+    it('should follow sunset and sunrise', () => {
+      const schedule = createSchedule({ start: 'sunset+30', end: 'sunrise' });
+      const sunset = getSunTime(new Date(2024, 5, 21), LONDON, 'sunset')!;
+
+      expect(schedule.isActive(new Date(sunset.getTime() + 29 * 60 * 1000))).toBe(false);
+      expect(schedule.isActive(new Date(sunset.getTime() + 31 * 60 * 1000))).toBe(true);
+    });
+
+    it('should match cameras by ID, MAC address or name', () => {
+      const schedule = createSchedule({ cameras: ['Front Porch'] });
+
+      expect(schedule.appliesTo({ id: 'camera-1', mac: 'AABBCCDDEEFF', name: 'front porch' })).toBe(true);
+      expect(schedule.appliesTo({ id: 'camera-2', mac: '112233445566', name: 'Garage' })).toBe(false);
+      expect(createSchedule({}).appliesTo({ id: 'camera-2', mac: '112233445566', name: 'Garage' })).toBe(true);
+    });
+
+    it('should match the cameras of a camera group', () => {
+      const schedule = Schedule.fromConfig(
+        { name: 'Quiet Hours', start: '22:00', end: '07:00', cameras: ['Outside'] },
+        LONDON,
+        createMockLogger(),
+        [{ name: 'Outside', cameras: ['Garage', 'AA:BB:CC:DD:EE:FF'] }],
+      )!;
+
+      expect(schedule.appliesTo({ id: 'camera-1', mac: 'AABBCCDDEEFF', name: 'Front Porch' })).toBe(true);
+      expect(schedule.appliesTo({ id: 'camera-2', mac: '112233445566', name: 'Garage' })).toBe(true);
+      expect(schedule.appliesTo({ id: 'camera-3', mac: '665544332211', name: 'Kitchen' })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,184 @@
+import type { Logging } from 'homebridge';
+
+import type { ProtectCamera } from './api/types.js';
+import type { CameraGroupConfig, LocationConfig, ScheduleAction, ScheduleConfig, Weekday } from './settings.js';
+import { matchesCamera } from './settings.js';
+
+const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const SUN_ZENITH = 90.833; // degrees, accounts for refraction and the size of the sun
+const DAY = 24 * 60 * 60 * 1000; // milliseconds
+
+type TimeSpec = { type: 'time'; minutes: number } | { type: 'sunrise' | 'sunset'; offset: number };
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number): number => (radians * 180) / Math.PI;
+const normalize = (value: number, max: number): number => ((value % max) + max) % max;
+
+export function parseTimeSpec(spec: string): TimeSpec | null {
+  const value = spec.trim().toLowerCase();
+
+  const time = /^(\d{1,2}):(\d{2})$/.exec(value);
+  if (time) {
+    const hours = Number(time[1]);
+    const minutes = Number(time[2]);
+    return hours < 24 && minutes < 60 ? { type: 'time', minutes: hours * 60 + minutes } : null;
+  }
+
+  const sun = /^(sunrise|sunset)\s*(?:([+-])\s*(\d+))?$/.exec(value);
+  if (sun) {
+    const offset = sun[3] ? Number(sun[3]) * (sun[2] === '-' ? -1 : 1) : 0;
+    return { type: sun[1] as 'sunrise' | 'sunset', offset };
+  }
+
+  return null;
+}
+
+// Sunrise/sunset algorithm from the Almanac for Computers, accurate to a couple of minutes
+export function getSunTime(date: Date, location: LocationConfig, event: 'sunrise' | 'sunset'): Date | null {
+  const { latitude, longitude } = location;
+  const localNoon = new Date(date.getFullYear(), date.getMonth(), date.getDate(), 12);
+  const dayOfYear = Math.round((localNoon.getTime() - new Date(date.getFullYear(), 0, 0, 12).getTime()) / DAY);
+
+  const longitudeHour = longitude / 15;
+  const approxTime = dayOfYear + ((event === 'sunrise' ? 6 : 18) - longitudeHour) / 24;
+
+  const meanAnomaly = 0.9856 * approxTime - 3.289;
+  const trueLongitude = normalize(
+    meanAnomaly + 1.916 * Math.sin(toRadians(meanAnomaly)) + 0.02 * Math.sin(toRadians(2 * meanAnomaly)) + 282.634,
+    360,
+  );
+
+  let rightAscension = normalize(toDegrees(Math.atan(0.91764 * Math.tan(toRadians(trueLongitude)))), 360);
+  rightAscension += Math.floor(trueLongitude / 90) * 90 - Math.floor(rightAscension / 90) * 90;
+  rightAscension /= 15;
+
+  const sinDeclination = 0.39782 * Math.sin(toRadians(trueLongitude));
+  const cosDeclination = Math.cos(Math.asin(sinDeclination));
+  const cosHourAngle =
+    (Math.cos(toRadians(SUN_ZENITH)) - sinDeclination * Math.sin(toRadians(latitude))) /
+    (cosDeclination * Math.cos(toRadians(latitude)));
+
+  // The sun never rises or never sets on this day
+  if (cosHourAngle > 1 || cosHourAngle < -1) {
+    return null;
+  }
+
+  const hourAngle =
+    (event === 'sunrise' ? 360 - toDegrees(Math.acos(cosHourAngle)) : toDegrees(Math.acos(cosHourAngle))) / 15;
+  const localMeanTime = hourAngle + rightAscension - 0.06571 * approxTime - 6.622;
+  const utcHours = normalize(localMeanTime - longitudeHour, 24);
+
+  // The UTC hour is only known modulo a day, so pick the instant closest to solar noon on that date
+  const utcMidnight = Date.UTC(date.getFullYear(), date.getMonth(), date.getDate());
+  const solarNoon = utcMidnight + (12 - longitudeHour) * 60 * 60 * 1000;
+  const result = utcMidnight + utcHours * 60 * 60 * 1000;
+  return new Date(result - Math.round((result - solarNoon) / DAY) * DAY);
+}
+
+export class Schedule {
+  private readonly start: TimeSpec;
+  private readonly end: TimeSpec;
+  private readonly cameras: string[];
+
+  private constructor(
+    private readonly config: ScheduleConfig,
+    private readonly location: LocationConfig | undefined,
+    groups: CameraGroupConfig[],
+  ) {
+    this.start = parseTimeSpec(config.start)!;
+    this.end = parseTimeSpec(config.end)!;
+
+    // Camera group names stand for the group's cameras, the name itself is kept in case a camera shares it
+    this.cameras = (config.cameras ?? []).flatMap((key) => [
+      key,
+      ...(groups.find((group) => group.name === key)?.cameras ?? []),
+    ]);
+  }
+
+  public static fromConfig(
+    config: ScheduleConfig,
+    location: LocationConfig | undefined,
+    log: Logging,
+    groups: CameraGroupConfig[] = [],
+  ): Schedule | null {
+    if (!config.name) {
+      log.error('Schedule configuration missing name');
+      return null;
+    }
+
+    const start = parseTimeSpec(config.start ?? '');
+    const end = parseTimeSpec(config.end ?? '');
+    if (!start || !end) {
+      log.error(`Schedule ${config.name} has an invalid start or end, use HH:MM, sunrise or sunset (e.g. sunset+30)`);
+      return null;
+    }
+
+    if ((start.type !== 'time' || end.type !== 'time') && !location) {
+      log.error(`Schedule ${config.name} uses sunrise or sunset, but no location is configured`);
+      return null;
+    }
+
+    return new Schedule(config, location, groups);
+  }
+
+  public get name(): string {
+    return this.config.name;
+  }
+
+  public get action(): ScheduleAction {
+    return this.config.action ?? 'suppress';
+  }
+
+  public get ledEnabled(): boolean | undefined {
+    return this.config.ledEnabled;
+  }
+
+  public get motionDetection(): boolean | undefined {
+    return this.config.motionDetection;
+  }
+
+  public appliesTo(camera: Pick<ProtectCamera, 'id' | 'mac' | 'name'>): boolean {
+    return !this.cameras.length || this.cameras.some((key) => matchesCamera(key, camera));
+  }
+
+  public isActive(now: Date = new Date()): boolean {
+    // Windows that end before they start run past midnight, so the one from yesterday may still be open
+    for (const daysAgo of [0, 1]) {
+      const day = new Date(now.getFullYear(), now.getMonth(), now.getDate() - daysAgo);
+      const window = this.getWindow(day);
+
+      if (window && now >= window.start && now < window.end) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private getWindow(day: Date): { start: Date; end: Date } | null {
+    if (this.config.days?.length && !this.config.days.includes(WEEKDAYS[day.getDay()])) {
+      return null;
+    }
+
+    const start = this.resolve(this.start, day);
+    let end = this.resolve(this.end, day);
+    if (!start || !end) {
+      return null;
+    }
+
+    if (end <= start) {
+      const nextDay = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1);
+      end = this.resolve(this.end, nextDay);
+    }
+
+    return end ? { start, end } : null;
+  }
+
+  private resolve(spec: TimeSpec, day: Date): Date | null {
+    if (spec.type === 'time') {
+      return new Date(day.getFullYear(), day.getMonth(), day.getDate(), 0, spec.minutes);
+    }
+
+    const sunTime = getSunTime(day, this.location!, spec.type);
+    return sunTime ? new Date(sunTime.getTime() + spec.offset * 60 * 1000) : null;
+  }
+}
@@ -0,0 +1,143 @@
+import type { API, PlatformAccessory, Service } from 'homebridge';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { CameraAccessory, CameraState } from './camera-accessory.js';
+import type { ProtectMotionPlatform } from './platform.js';
+import { SecuritySystemAccessory } from './security-system-accessory.js';
+import type { SecuritySystemConfig } from './settings.js';
+import { createMockAccessory, createMockAPI, createMockPlatform } from './test/mocks.js';
+
+describe('SecuritySystemAccessory', () => {
+  let api: API;
+  let platform: ProtectMotionPlatform;
+  let accessory: PlatformAccessory;
+  let cameras: CameraAccessory[];
+
+  const createCamera = (id: string, name: string): CameraAccessory =>
+    ({
+      state: { id, name, mac: id.toUpperCase() } as CameraState,
+      canChangeLed: true,
+      setMotionEnabled: vi.fn().mockResolvedValue(true),
+      setLedEnabled: vi.fn().mockResolvedValue(true),
+      setRecordingMode: vi.fn().mockResolvedValue(true),
+    }) as unknown as CameraAccessory;
+
+  const createAccessory = (config: SecuritySystemConfig): SecuritySystemAccessory =>
+    new SecuritySystemAccessory(platform, accessory, config, () => cameras);
+
+  const getService = (): Service => accessory.services[0];
+
+  const lastValue = (characteristic: unknown): unknown =>
+    vi
+      .mocked(getService().updateCharacteristic)
+      .mock.calls.filter(([name]) => name === characteristic)
+      .at(-1)?.[1];
+
+  beforeEach(() => {
+    api = createMockAPI();
+    platform = createMockPlatform(api);
+    accessory = createMockAccessory('Security System', 'uuid-security-system');
+    cameras = [createCamera('camera-1', 'Front Porch'), createCamera('camera-2', 'Garage')];
+  });
+
+  it('should start disarmed', () => {
+    createAccessory({ enabled: true });
+
+    expect(lastValue(api.hap.Characteristic.SecuritySystemCurrentState)).toBe(
+      api.hap.Characteristic.SecuritySystemCurrentState.DISARMED,
+    );
+  });
+
+  it('should apply the profile for the selected mode to every camera', async () => {
+    const securitySystem = createAccessory({
+      enabled: true,
+      profiles: [{ mode: 'away', motionDetection: true, ledEnabled: false, recordingMode: 'always' }],
+    });
+
+    const failures = await securitySystem.setMode('away');
+
+    expect(failures).toEqual([]);
+    for (const camera of cameras) {
+      expect(camera.setMotionEnabled).toHaveBeenCalledWith(true);
+      expect(camera.setLedEnabled).toHaveBeenCalledWith(false);
+      expect(camera.setRecordingMode).toHaveBeenCalledWith('always');
+    }
+    expect(lastValue(api.hap.Characteristic.SecuritySystemCurrentState)).toBe(
+      api.hap.Characteristic.SecuritySystemCurrentState.AWAY_ARM,
+    );
+  });
+
+  it('should stay armed and report cameras that failed to update', async () => {
+    vi.mocked(cameras[1].setRecordingMode).mockResolvedValue(false);
+    const securitySystem = createAccessory({ enabled: true, profiles: [{ mode: 'night', recordingMode: 'never' }] });
+
+    const failures = await securitySystem.setMode('night');
+
+    expect(failures).toEqual(['Garage (recording mode)']);
+    expect(platform.log.warn).toHaveBeenCalledWith(expect.stringContaining('Garage (recording mode)'));
+    expect(lastValue(api.hap.Characteristic.SecuritySystemCurrentState)).toBe(
+      api.hap.Characteristic.SecuritySystemCurrentState.NIGHT_ARM,
+    );
+    expect(lastValue(api.hap.Characteristic.StatusFault)).toBe(api.hap.Characteristic.StatusFault.GENERAL_FAULT);
+  });
+
+  it('should trigger the alarm on motion from an armed camera', async () => {
+    const securitySystem = createAccessory({ enabled: true, profiles: [{ mode: 'stay', alarmCameras: ['Garage'] }] });
+    await securitySystem.setMode('stay');
+
+    securitySystem.handleMotion(cameras[0].state);
+    expect(lastValue(api.hap.Characteristic.SecuritySystemCurrentState)).toBe(
+      api.hap.Characteristic.SecuritySystemCurrentState.STAY_ARM,
+    );
+
+    securitySystem.handleMotion(cameras[1].state);
+    expect(lastValue(api.hap.Characteristic.SecuritySystemCurrentState)).toBe(
+      api.hap.Characteristic.SecuritySystemCurrentState.ALARM_TRIGGERED,
+    );
+  });
+
+  it('should ignore motion while disarmed and clear the alarm when disarmed', async () => {
+    const securitySystem = createAccessory({ enabled: true });
+
+    securitySystem.handleMotion(cameras[0].state);
+    expect(accessory.context.alarmTriggered).toBeFalsy();
+
+    await securitySystem.setMode('away');
+    securitySystem.handleMotion(cameras[0].state);
+    await securitySystem.setMode('off');
+
+    expect(lastValue(api.hap.Characteristic.SecuritySystemCurrentState)).toBe(
+      api.hap.Characteristic.SecuritySystemCurrentState.DISARMED,
+    );
+  });
+
+  it('should set the mode from the HomeKit target state', async () => {
+    createAccessory({ enabled: true, profiles: [{ mode: 'away', ledEnabled: false }] });
+    const targetState = getService().getCharacteristic(api.hap.Characteristic.SecuritySystemTargetState);
+    const onSet = vi.mocked(targetState.onSet).mock.calls[0][0];
+
+    await onSet(api.hap.Characteristic.SecuritySystemTargetState.AWAY_ARM, undefined as never);
+
+    await vi.waitFor(() => expect(accessory.context.securityMode).toBe('away'));
+    expect(cameras[0].setLedEnabled).toHaveBeenCalledWith(false);
+  });
+
+  it("should make the mode read-only when the account can't control any camera", () => {
+    cameras = cameras.map((camera) => Object.assign(camera, { canChangeLed: false }));
+    const securitySystem = createAccessory({ enabled: true });
+    const targetState = getService().getCharacteristic(api.hap.Characteristic.SecuritySystemTargetState);
+
+    expect(vi.mocked(targetState.setProps).mock.calls.at(-1)).toEqual([{ perms: ['pr', 'ev'] }]);
+
+    Object.assign(cameras[0], { canChangeLed: true });
+    securitySystem.updatePermissions();
+
+    expect(vi.mocked(targetState.setProps).mock.calls.at(-1)).toEqual([{ perms: ['pr', 'pw', 'ev'] }]);
+  });
+
+  it('should reject profiles with an invalid mode', () => {
+    createAccessory({ enabled: true, profiles: [{ mode: 'vacation' as never }] });
+
+    expect(platform.log.error).toHaveBeenCalledWith(expect.stringContaining('vacation'));
+  });
+});
@@ -0,0 +1,186 @@
+import type { CharacteristicValue, Perms, PlatformAccessory, Service } from 'homebridge';
+
+import type { CameraAccessory, CameraState } from './camera-accessory.js';
+import type { CameraUpdate } from './camera-updates.js';
+import { updateCameras } from './camera-updates.js';
+import type { ProtectMotionPlatform } from './platform.js';
+import type { SecurityMode, SecurityProfileConfig, SecuritySystemConfig } from './settings.js';
+import { matchesCamera, SECURITY_MODE_LABELS } from './settings.js';
+
+type CameraProvider = () => CameraAccessory[];
+
+const isSecurityMode = (mode: unknown): mode is SecurityMode =>
+  typeof mode === 'string' && Object.keys(SECURITY_MODE_LABELS).includes(mode);
+
+export class SecuritySystemAccessory {
+  private readonly service: Service;
+  private readonly profiles: Map<SecurityMode, SecurityProfileConfig> = new Map();
+  private writable: boolean | null = null;
+
+  constructor(
+    private readonly platform: ProtectMotionPlatform,
+    private readonly accessory: PlatformAccessory,
+    config: SecuritySystemConfig,
+    private readonly getCameras: CameraProvider,
+  ) {
+    for (const profile of config.profiles ?? []) {
+      if (!isSecurityMode(profile.mode)) {
+        this.platform.log.error(`Security profile has an invalid mode: ${profile.mode}, use stay, away, night or off`);
+      } else if (this.profiles.has(profile.mode)) {
+        this.platform.log.warn(`Ignoring duplicate security profile for ${SECURITY_MODE_LABELS[profile.mode]}`);
+      } else {
+        this.profiles.set(profile.mode, profile);
+      }
+    }
+
+    this.configureAccessoryInformation();
+    this.service = this.configureSecuritySystem();
+
+    // Set initial values
+    this.updateState();
+    this.updatePermissions();
+  }
+
+  private get mode(): SecurityMode {
+    return this.accessory.context.securityMode ?? 'off';
+  }
+
+  private get isTriggered(): boolean {
+    return this.accessory.context.alarmTriggered ?? false;
+  }
+
+  private configureAccessoryInformation(): void {
+    const infoService = this.accessory.getService(this.platform.Service.AccessoryInformation);
+    if (infoService) {
+      infoService
+        .setCharacteristic(this.platform.Characteristic.Manufacturer, 'Ubiquiti')
+        .setCharacteristic(this.platform.Characteristic.Model, 'UniFi Protect Security System')
+        .setCharacteristic(this.platform.Characteristic.SerialNumber, this.accessory.UUID);
+    }
+  }
+
+  private configureSecuritySystem(): Service {
+    const { Characteristic } = this.platform;
+    const service =
+      this.accessory.getService(this.platform.Service.SecuritySystem) ??
+      this.accessory.addService(this.platform.Service.SecuritySystem, this.accessory.displayName);
+
+    service.getCharacteristic(Characteristic.SecuritySystemCurrentState).onGet(() => this.currentState);
+
+    service
+      .getCharacteristic(Characteristic.SecuritySystemTargetState)
+      .onGet(() => this.toTargetState(this.mode))
+      .onSet((value) => this.handleTargetState(value));
+
+    return service;
+  }
+
+  // Read-only when the account can't control any of the cameras, like their own switches for view only users
+  public updatePermissions(): void {
+    const { Perms } = this.platform.api.hap;
+    const cameras = this.getCameras();
+    const writable = cameras.length === 0 || cameras.some((camera) => camera.canChangeLed);
+    if (writable === this.writable) {
+      return;
+    }
+
+    this.writable = writable;
+    const perms: Perms[] = writable
+      ? [Perms.PAIRED_READ, Perms.PAIRED_WRITE, Perms.NOTIFY]
+      : [Perms.PAIRED_READ, Perms.NOTIFY];
+    this.service.getCharacteristic(this.platform.Characteristic.SecuritySystemTargetState).setProps({ perms });
+  }
+
+  private get currentState(): number {
+    const { SecuritySystemCurrentState: State } = this.platform.Characteristic;
+    if (this.isTriggered) {
+      return State.ALARM_TRIGGERED;
+    }
+    return { stay: State.STAY_ARM, away: State.AWAY_ARM, night: State.NIGHT_ARM, off: State.DISARMED }[this.mode];
+  }
+
+  private toTargetState(mode: SecurityMode): number {
+    const { SecuritySystemTargetState: State } = this.platform.Characteristic;
+    return { stay: State.STAY_ARM, away: State.AWAY_ARM, night: State.NIGHT_ARM, off: State.DISARM }[mode];
+  }
+
+  private handleTargetState(value: CharacteristicValue): void {
+    const mode = (Object.keys(SECURITY_MODE_LABELS) as SecurityMode[]).find(
+      (candidate) => this.toTargetState(candidate) === value,
+    );
+    if (!mode) {
+      return;
+    }
+
+    // Applying a profile can take a while with many cameras, so don't hold up HomeKit waiting for it
+    void this.setMode(mode);
+  }
+
+  public async setMode(mode: SecurityMode): Promise<string[]> {
+    const label = SECURITY_MODE_LABELS[mode];
+    this.platform.log.info(`Setting security mode to ${label}`);
+
+    this.accessory.context.securityMode = mode;
+    this.accessory.context.alarmTriggered = false;
+    this.service.updateCharacteristic(this.platform.Characteristic.SecuritySystemTargetState, this.toTargetState(mode));
+
+    const profile = this.profiles.get(mode);
+    const failures = profile ? await this.applyProfile(profile) : [];
+
+    // The mode stays set even when some cameras couldn't be updated, so report them rather than reverting
+    if (failures.length > 0) {
+      this.platform.log.warn(
+        `Security mode ${label} was only partly applied, failed to update: ${failures.join(', ')}`,
+      );
+    }
+
+    this.accessory.context.securityFailures = failures;
+    this.updateState();
+    return failures;
+  }
+
+  private applyProfile(profile: SecurityProfileConfig): Promise<string[]> {
+    return updateCameras(this.getCameras(), (camera) => {
+      const { name } = camera.state;
+      const changes: CameraUpdate[] = [];
+
+      if (profile.motionDetection !== undefined) {
+        changes.push([`${name} (motion detection)`, () => camera.setMotionEnabled(profile.motionDetection!)]);
+      }
+      if (profile.ledEnabled !== undefined) {
+        changes.push([`${name} (status LED)`, () => camera.setLedEnabled(profile.ledEnabled!)]);
+      }
+      if (profile.recordingMode !== undefined) {
+        changes.push([`${name} (recording mode)`, () => camera.setRecordingMode(profile.recordingMode!)]);
+      }
+
+      return changes;
+    });
+  }
+
+  public handleMotion(camera: Pick<CameraState, 'id' | 'mac' | 'name'>): void {
+    if (this.mode === 'off' || this.isTriggered || !this.isAlarmCamera(camera)) {
+      return;
+    }
+
+    this.platform.log.warn(`Security system triggered by motion on ${camera.name}`);
+    this.accessory.context.alarmTriggered = true;
+    this.updateState();
+  }
+
+  private isAlarmCamera(camera: Pick<CameraState, 'id' | 'mac' | 'name'>): boolean {
+    const alarmCameras = this.profiles.get(this.mode)?.alarmCameras;
+    return !alarmCameras?.length || alarmCameras.some((key) => matchesCamera(key, camera));
+  }
+
+  private updateState(): void {
+    const { Characteristic } = this.platform;
+    const failures: string[] = this.accessory.context.securityFailures ?? [];
+
+    this.service.updateCharacteristic(Characteristic.SecuritySystemCurrentState, this.currentState);
+    this.service.updateCharacteristic(
+      Characteristic.StatusFault,
+      failures.length > 0 ? Characteristic.StatusFault.GENERAL_FAULT : Characteristic.StatusFault.NO_FAULT,
+    );
+  }
+}
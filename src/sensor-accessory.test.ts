@@ -0,0 +1,90 @@
+import type { API, PlatformAccessory, Service } from 'homebridge';
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import type { ProtectMotionPlatform } from './platform.js';
+import { SensorAccessory } from './sensor-accessory.js';
+import { createMockAccessory, createMockAPI, createMockPlatform, createMockSensor } from './test/mocks.js';
+
+describe('SensorAccessory', () => {
+  let api: API;
+  let platform: ProtectMotionPlatform;
+  let accessory: PlatformAccessory;
+
+  const createAccessory = (sensorOverrides: Record<string, unknown> = {}): SensorAccessory => {
+    accessory.context.device = createMockSensor(sensorOverrides);
+    return new SensorAccessory(platform, accessory);
+  };
+
+  const getService = (type: string, subtype: string): Service =>
+    accessory.getServiceById(type as never, subtype) as Service;
+
+  beforeEach(() => {
+    api = createMockAPI();
+    platform = createMockPlatform(api);
+    accessory = createMockAccessory('Front Door Sensor', 'uuid-1');
+  });
+
+  it('should create a service for each enabled reading', () => {
+    createAccessory();
+
+    expect(getService('ContactSensor', 'contact-sensor')).toBeDefined();
+    expect(getService('MotionSensor', 'motion-sensor')).toBeDefined();
+    expect(getService('TemperatureSensor', 'temperature-sensor')).toBeDefined();
+    expect(getService('HumiditySensor', 'humidity-sensor')).toBeDefined();
+    expect(getService('LightSensor', 'light-sensor')).toBeDefined();
+    expect(getService('Battery', 'battery')).toBeDefined();
+    expect(getService('LeakSensor', 'leak-sensor')).toBeUndefined();
+  });
+
+  it('should remove services for readings disabled in Protect', () => {
+    createAccessory();
+    createAccessory({ mountType: 'leak', motionSettings: { isEnabled: false } });
+
+    expect(getService('ContactSensor', 'contact-sensor')).toBeUndefined();
+    expect(getService('MotionSensor', 'motion-sensor')).toBeUndefined();
+    expect(getService('LeakSensor', 'leak-sensor')).toBeDefined();
+  });
+
+  it('should set initial readings', () => {
+    createAccessory({ isOpened: true });
+
+    expect(getService('ContactSensor', 'contact-sensor').updateCharacteristic).toHaveBeenCalledWith(
+      api.hap.Characteristic.ContactSensorState,
+      api.hap.Characteristic.ContactSensorState.CONTACT_NOT_DETECTED,
+    );
+    expect(getService('TemperatureSensor', 'temperature-sensor').updateCharacteristic).toHaveBeenCalledWith(
+      'CurrentTemperature',
+      21.5,
+    );
+    expect(getService('Battery', 'battery').updateCharacteristic).toHaveBeenCalledWith('BatteryLevel', 90);
+  });
+
+  it('should apply updates from the event stream', () => {
+    const sensorAccessory = createAccessory();
+
+    sensorAccessory.handleUpdate({ isMotionDetected: true, stats: { humidity: { value: 60 } } });
+
+    expect(getService('MotionSensor', 'motion-sensor').updateCharacteristic).toHaveBeenLastCalledWith(
+      'MotionDetected',
+      true,
+    );
+    expect(getService('HumiditySensor', 'humidity-sensor').updateCharacteristic).toHaveBeenLastCalledWith(
+      'CurrentRelativeHumidity',
+      60,
+    );
+    // Other readings are kept when a single stat changes
+    expect(getService('TemperatureSensor', 'temperature-sensor').updateCharacteristic).toHaveBeenLastCalledWith(
+      'CurrentTemperature',
+      21.5,
+    );
+  });
+
+  it('should clamp the light level to the HomeKit minimum', () => {
+    createAccessory({ stats: { light: { value: 0 } } });
+
+    expect(getService('LightSensor', 'light-sensor').updateCharacteristic).toHaveBeenCalledWith(
+      'CurrentAmbientLightLevel',
+      0.0001,
+    );
+  });
+});
@@ -0,0 +1,173 @@
+import type { PlatformAccessory, Service } from 'homebridge';
+
+import type { ProtectSensor } from './api/types.js';
+import type { ProtectMotionPlatform } from './platform.js';
+
+const MIN_LIGHT_LEVEL = 0.0001; // lux, the lowest value HomeKit accepts
+
+export class SensorAccessory {
+  private readonly contactSensor: Service | null;
+  private readonly motionSensor: Service | null;
+  private readonly leakSensor: Service | null;
+  private readonly temperatureSensor: Service | null;
+  private readonly humiditySensor: Service | null;
+  private readonly lightSensor: Service | null;
+  private readonly battery: Service | null;
+
+  constructor(
+    private readonly platform: ProtectMotionPlatform,
+    private readonly accessory: PlatformAccessory,
+  ) {
+    const sensor = this.sensor;
+    const { Service } = this.platform;
+
+    this.configureAccessoryInformation(sensor);
+
+    const isContactMount =
+      sensor.mountType === 'door' || sensor.mountType === 'window' || sensor.mountType === 'garage';
+    const isLeakEnabled =
+      sensor.mountType === 'leak' ||
+      !!sensor.leakSettings?.isInternalEnabled ||
+      !!sensor.leakSettings?.isExternalEnabled;
+
+    this.contactSensor = this.configureService(isContactMount, Service.ContactSensor, 'Contact', 'contact-sensor');
+    this.motionSensor = this.configureService(
+      !!sensor.motionSettings?.isEnabled,
+      Service.MotionSensor,
+      'Motion',
+      'motion-sensor',
+    );
+    this.leakSensor = this.configureService(isLeakEnabled, Service.LeakSensor, 'Leak', 'leak-sensor');
+    this.temperatureSensor = this.configureService(
+      !!sensor.temperatureSettings?.isEnabled,
+      Service.TemperatureSensor,
+      'Temperature',
+      'temperature-sensor',
+    );
+    this.humiditySensor = this.configureService(
+      !!sensor.humiditySettings?.isEnabled,
+      Service.HumiditySensor,
+      'Humidity',
+      'humidity-sensor',
+    );
+    this.lightSensor = this.configureService(
+      !!sensor.lightSettings?.isEnabled,
+      Service.LightSensor,
+      'Light Level',
+      'light-sensor',
+    );
+    this.battery = this.configureService(!!sensor.batteryStatus, Service.Battery, 'Battery', 'battery');
+
+    this.battery?.setCharacteristic(
+      this.platform.Characteristic.ChargingState,
+      this.platform.Characteristic.ChargingState.NOT_CHARGEABLE,
+    );
+
+    // Set initial values
+    this.updateState();
+  }
+
+  private get sensor(): ProtectSensor {
+    return this.accessory.context.device as ProtectSensor;
+  }
+
+  private configureAccessoryInformation(sensor: ProtectSensor): void {
+    const infoService = this.accessory.getService(this.platform.Service.AccessoryInformation);
+    if (infoService) {
+      infoService
+        .setCharacteristic(this.platform.Characteristic.Manufacturer, 'Ubiquiti')
+        .setCharacteristic(this.platform.Characteristic.Model, sensor.type || 'UniFi Sensor')
+        .setCharacteristic(this.platform.Characteristic.SerialNumber, sensor.mac || sensor.id);
+    }
+  }
+
+  private configureService(
+    enabled: boolean,
+    serviceType: typeof this.platform.Service.MotionSensor,
+    displayName: string,
+    subtype: string,
+  ): Service | null {
+    const existingService = this.accessory.getServiceById(serviceType, subtype);
+
+    if (!enabled) {
+      if (existingService) {
+        this.platform.debugLog(`Removing ${displayName} from ${this.sensor.name}`);
+        this.accessory.removeService(existingService);
+      }
+      return null;
+    }
+
+    if (existingService) {
+      existingService.setCharacteristic(this.platform.Characteristic.Name, displayName);
+      return existingService;
+    }
+
+    const service = this.accessory.addService(serviceType, displayName, subtype);
+    service.addOptionalCharacteristic(this.platform.Characteristic.ConfiguredName);
+    service.setCharacteristic(this.platform.Characteristic.ConfiguredName, displayName);
+    return service;
+  }
+
+  public handleUpdate(payload: Partial<ProtectSensor>): void {
+    const sensor = this.sensor;
+
+    // Stats arrive one reading at a time, so merge rather than replace them
+    this.accessory.context.device = {
+      ...sensor,
+      ...payload,
+      stats: payload.stats ? { ...sensor.stats, ...payload.stats } : sensor.stats,
+    };
+
+    this.updateState();
+  }
+
+  public dispose(): void {
+    // Sensors hold no timers or subscriptions
+  }
+
+  private updateState(): void {
+    const { Characteristic } = this.platform;
+    const sensor = this.sensor;
+
+    this.contactSensor?.updateCharacteristic(
+      Characteristic.ContactSensorState,
+      sensor.isOpened
+        ? Characteristic.ContactSensorState.CONTACT_NOT_DETECTED
+        : Characteristic.ContactSensorState.CONTACT_DETECTED,
+    );
+
+    this.motionSensor?.updateCharacteristic(Characteristic.MotionDetected, !!sensor.isMotionDetected);
+
+    this.leakSensor?.updateCharacteristic(
+      Characteristic.LeakDetected,
+      sensor.leakDetectedAt ? Characteristic.LeakDetected.LEAK_DETECTED : Characteristic.LeakDetected.LEAK_NOT_DETECTED,
+    );
+
+    const temperature = sensor.stats?.temperature?.value;
+    if (temperature !== undefined && temperature !== null) {
+      this.temperatureSensor?.updateCharacteristic(Characteristic.CurrentTemperature, temperature);
+    }
+
+    const humidity = sensor.stats?.humidity?.value;
+    if (humidity !== undefined && humidity !== null) {
+      this.humiditySensor?.updateCharacteristic(Characteristic.CurrentRelativeHumidity, humidity);
+    }
+
+    const light = sensor.stats?.light?.value;
+    if (light !== undefined && light !== null) {
+      this.lightSensor?.updateCharacteristic(Characteristic.CurrentAmbientLightLevel, Math.max(light, MIN_LIGHT_LEVEL));
+    }
+
+    if (sensor.batteryStatus) {
+      if (sensor.batteryStatus.percentage !== null) {
+        this.battery?.updateCharacteristic(Characteristic.BatteryLevel, sensor.batteryStatus.percentage);
+      }
+      this.battery?.updateCharacteristic(
+        Characteristic.StatusLowBattery,
+        sensor.batteryStatus.isLow
+          ? Characteristic.StatusLowBattery.BATTERY_LEVEL_LOW
+          : Characteristic.StatusLowBattery.BATTERY_LEVEL_NORMAL,
+      );
+    }
+  }
+}
@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest';
 
-import { DEFAULT_MOTION_DURATION, PLATFORM_NAME, PLUGIN_NAME } from './settings.js';
+import { DEFAULT_MOTION_DURATION, findCameraConfig, PLATFORM_NAME, PLUGIN_NAME } from './settings.js';
 
 describe('settings', () => {
   it('should export correct plugin name', () => {
@@ -14,4 +14,28 @@ describe('settings', () => {
   it('should export default motion duration', () => {
     expect(DEFAULT_MOTION_DURATION).toBe(10);
   });
+
+  describe('findCameraConfig', () => {
+    const camera = { id: 'camera-1', mac: 'AABBCCDDEEFF', name: 'Front Porch' };
+
+    it('should match by camera ID', () => {
+      const config = { camera: 'camera-1' };
+      expect(findCameraConfig([config], camera)).toBe(config);
+    });
+
+    it('should match by MAC address regardless of formatting', () => {
+      const config = { camera: 'aa:bb:cc:dd:ee:ff' };
+      expect(findCameraConfig([config], camera)).toBe(config);
+    });
+
+    it('should match by name case-insensitively', () => {
+      const config = { camera: 'front porch' };
+      expect(findCameraConfig([config], camera)).toBe(config);
+    });
+
+    it('should return undefined when nothing matches', () => {
+      expect(findCameraConfig([{ camera: 'Garage' }, { camera: '' }], camera)).toBeUndefined();
+      expect(findCameraConfig(undefined, camera)).toBeUndefined();
+    });
+  });
 });
@@ -1,18 +1,192 @@
 import type { PlatformConfig } from 'homebridge';
 
+import type { IrLedMode, ProtectCamera, RecordingMode, SmartDetectType } from './api/types.js';
+import type { CameraEventType } from './events.js';
+
 export const PLUGIN_NAME = 'homebridge-unifi-protect-motion-trigger';
 export const PLATFORM_NAME = 'UniFi Protect Motion Trigger';
 
 export const DEFAULT_MOTION_DURATION = 10; // seconds
+export const DEFAULT_MOTION_THRESHOLD_WINDOW = 30; // seconds
+export const DEFAULT_CONTROL_API_PORT = 8585;
+export const DEFAULT_MQTT_TOPIC_PREFIX = 'protect';
+export const DEFAULT_EVENT_HISTORY_DAYS = 7;
+export const DEFAULT_EVENT_HISTORY_SIZE = 1000; // events per camera
+export const DEFAULT_OCCUPANCY_HOLD_TIME = 300; // seconds
+
+export const SECURITY_MODE_LABELS: Record<SecurityMode, string> = {
+  stay: 'Stay',
+  away: 'Away',
+  night: 'Night',
+  off: 'Off',
+};
+
+export const SMART_DETECT_LABELS: Record<SmartDetectType, string> = {
+  person: 'Person',
+  vehicle: 'Vehicle',
+  animal: 'Animal',
+  package: 'Package',
+  face: 'Face',
+  licensePlate: 'License Plate',
+};
+
+export const RECORDING_MODE_LABELS: Record<RecordingMode, string> = {
+  always: 'Record Always',
+  detections: 'Record Detections',
+  never: 'Record Never',
+};
+
+export const NIGHT_VISION_LABELS: Record<IrLedMode, string> = {
+  auto: 'Night Vision Auto',
+  on: 'Night Vision On',
+  off: 'Night Vision Off',
+};
+
+export type SmartDetectSensorType = 'motion' | 'occupancy';
+export type DoorbellServiceType = 'doorbell' | 'switch';
+export type ScheduleAction = 'suppress' | 'reroute' | 'none';
+export type Weekday = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat';
+export type SecurityMode = 'stay' | 'away' | 'night' | 'off';
 
 export interface ControllerConfig {
   address: string;
-  username: string;
-  password: string;
+  username?: string;
+  password?: string;
+  passwordEnv?: string; // name of an environment variable holding the password
+  apiKey?: string; // UniFi Protect API key, used instead of the username and password
+  apiKeyEnv?: string; // name of an environment variable holding the API key
+  secretsFile?: string; // JSON file with the username and password, or the API key
+  statusAccessory?: boolean; // expose the controller's connection, storage and temperature
+}
+
+export interface CameraConfig {
+  camera: string; // camera ID, MAC address or name
+  hidden?: boolean;
+  motionDuration?: number;
+  motionCooldown?: number; // seconds after a reset during which new motion is ignored
+  motionThreshold?: number; // motion events needed within motionThresholdWindow to trip the sensor
+  motionThresholdWindow?: number; // seconds
+  maxMotionDuration?: number; // seconds of continuous motion before the sensor is reset
+  motionSwitch?: boolean;
+  ledSwitch?: boolean;
+  recordingSwitches?: boolean;
+  privacySwitch?: boolean;
+  nightVisionSwitches?: boolean;
+  hdrSwitch?: boolean;
+  ledBlinkSwitch?: boolean;
+  volumeControls?: boolean; // speaker and microphone volume as lightbulbs
+  smartDetectTypes?: SmartDetectType[];
+  smartDetectSensor?: SmartDetectSensorType;
+  zoneSensors?: string[]; // motion or smart detection zone names
+  doorbellService?: DoorbellServiceType;
+}
+
+export interface WebhookHeader {
+  name: string;
+  value: string;
+}
+
+export interface WebhookConfig {
+  url: string;
+  cameras?: string[]; // camera IDs, MAC addresses or names, all cameras when empty
+  events?: CameraEventType[]; // all events when empty
+  headers?: WebhookHeader[];
+}
+
+export interface ControlApiConfig {
+  enabled?: boolean;
+  port?: number;
+  token?: string;
+  metrics?: boolean; // serve Prometheus metrics on /metrics
+}
+
+export interface MqttConfig {
+  enabled?: boolean;
+  url?: string; // e.g. mqtt://192.168.1.10:1883
+  username?: string;
+  password?: string;
+  topicPrefix?: string;
+}
+
+export interface ScheduleConfig {
+  name: string;
+  cameras?: string[]; // camera IDs, MAC addresses, names or camera group names, all cameras when empty
+  days?: Weekday[]; // days the window starts on, every day when empty
+  start: string; // HH:MM, or sunrise/sunset with an optional offset in minutes, e.g. sunset-30
+  end: string;
+  action?: ScheduleAction;
+  ledEnabled?: boolean; // applied when the window starts and reversed when it ends
+  motionDetection?: boolean;
+}
+
+export interface EventHistoryConfig {
+  days?: number; // events older than this are dropped
+  maxEvents?: number; // per camera
+  eveHistory?: boolean; // motion history and last activation for the Eve app
+}
+
+export interface SecurityProfileConfig {
+  mode: SecurityMode;
+  motionDetection?: boolean; // settings are left alone when not set
+  ledEnabled?: boolean;
+  recordingMode?: RecordingMode;
+  alarmCameras?: string[]; // camera IDs, MAC addresses or names whose motion triggers the alarm, all when empty
+}
+
+export interface SecuritySystemConfig {
+  enabled?: boolean;
+  name?: string;
+  profiles?: SecurityProfileConfig[];
+}
+
+export interface CameraGroupConfig {
+  name: string;
+  cameras: string[]; // camera IDs, MAC addresses or names, from any controller
+  occupancyHoldTime?: number; // seconds the occupancy sensor stays on after the last motion
+  motionSwitch?: boolean;
+  ledSwitch?: boolean;
+}
+
+export interface LocationConfig {
+  latitude: number;
+  longitude: number;
 }
 
 export interface ProtectMotionPlatformConfig extends PlatformConfig {
   controllers?: ControllerConfig[];
+  cameras?: CameraConfig[];
+  webhooks?: WebhookConfig[];
+  controlApi?: ControlApiConfig;
+  mqtt?: MqttConfig;
+  schedules?: ScheduleConfig[];
+  location?: LocationConfig;
+  securitySystem?: SecuritySystemConfig;
+  cameraGroups?: CameraGroupConfig[];
+  eventHistory?: EventHistoryConfig;
+  exposeAllCameras?: boolean;
   motionDuration?: number;
   debug?: boolean;
 }
+
+const normalizeMac = (mac: string): string => mac.replace(/[^0-9a-f]/gi, '').toLowerCase();
+
+export function matchesCamera(
+  identifier: string | undefined,
+  camera: Pick<ProtectCamera, 'id' | 'mac' | 'name'>,
+): boolean {
+  const key = identifier?.trim();
+  if (!key) {
+    return false;
+  }
+  if (key === camera.id || key.toLowerCase() === camera.name?.toLowerCase()) {
+    return true;
+  }
+  return !!camera.mac && normalizeMac(key) === normalizeMac(camera.mac);
+}
+
+export function findCameraConfig(
+  cameras: CameraConfig[] | undefined,
+  camera: Pick<ProtectCamera, 'id' | 'mac' | 'name'>,
+): CameraConfig | undefined {
+  return cameras?.find((entry) => matchesCamera(entry.camera, camera));
+}
@@ -0,0 +1,162 @@
+// Websocket packets as unifi-protect decodes them, with IDs and addresses replaced and most fields the plugin never
+// reads trimmed
+
+export const cameraMotionUpdate = {
+  header: { action: 'update', newUpdateId: 'a1b2c3d4-0001', modelKey: 'camera', id: '65f1c0de00a1b2c3d4e5f601' },
+  payload: { isMotionDetected: true, lastMotion: 1718000000123 },
+};
+
+export const cameraSmartDetectUpdate = {
+  header: { action: 'update', newUpdateId: 'a1b2c3d4-0002', modelKey: 'camera', id: '65f1c0de00a1b2c3d4e5f601' },
+  payload: { isSmartDetected: true, lastSmartDetect: 1718000000456, smartDetectTypes: ['person', 'vehicle'] },
+};
+
+export const cameraSettingsUpdate = {
+  header: { action: 'update', newUpdateId: 'a1b2c3d4-0003', modelKey: 'camera', id: '65f1c0de00a1b2c3d4e5f601' },
+  payload: {
+    ledSettings: { isEnabled: false, blinkRate: 0, welcomeLed: true, floodLed: false },
+    recordingSettings: { enableMotionDetection: true, mode: 'detections', prePaddingSecs: 2, postPaddingSecs: 2 },
+    ispSettings: { irLedMode: 'auto', irLedLevel: 255, hdrMode: 'normal' },
+  },
+};
+
+export const cameraDisconnected = {
+  header: { action: 'update', newUpdateId: 'a1b2c3d4-0004', modelKey: 'camera', id: '65f1c0de00a1b2c3d4e5f601' },
+  payload: { state: 'DISCONNECTED', isConnected: false, lastDisconnect: 1718000001000 },
+};
+
+export const cameraAdded = {
+  header: { action: 'add', newUpdateId: 'a1b2c3d4-0005', modelKey: 'camera', id: '65f1c0de00a1b2c3d4e5f602' },
+  payload: {
+    id: '65f1c0de00a1b2c3d4e5f602',
+    name: 'Garage',
+    type: 'UVC G5 Bullet',
+    mac: 'F4E2C6000002',
+    host: '192.168.1.52',
+    state: 'CONNECTED',
+    modelKey: 'camera',
+    lastMotion: null,
+    lastRing: null,
+    featureFlags: { hasLedStatus: true, hasHdr: true, hasMic: true, hasSpeaker: false, smartDetectTypes: ['person'] },
+    ledSettings: { isEnabled: true, blinkRate: 0 },
+    recordingSettings: { enableMotionDetection: true, mode: 'always' },
+  },
+};
+
+export const cameraRemoved = {
+  header: { action: 'remove', newUpdateId: 'a1b2c3d4-0006', modelKey: 'camera', id: '65f1c0de00a1b2c3d4e5f602' },
+};
+
+export const smartDetectEventAdded = {
+  header: {
+    action: 'add',
+    newUpdateId: 'a1b2c3d4-0007',
+    modelKey: 'event',
+    id: '6660a1b2c3d4e5f600000001',
+    recordModel: 'camera',
+    recordId: '65f1c0de00a1b2c3d4e5f601',
+  },
+  payload: {
+    id: '6660a1b2c3d4e5f600000001',
+    modelKey: 'event',
+    type: 'smartDetectZone',
+    start: 1718000000456,
+    end: null,
+    score: 0,
+    smartDetectTypes: ['person'],
+    smartDetectEvents: [],
+    camera: '65f1c0de00a1b2c3d4e5f601',
+    partition: null,
+    user: null,
+    metadata: { detectedAreas: [{ areaIndexes: [1], smartDetectObject: 'person' }] },
+  },
+};
+
+export const smartDetectEventUpdated = {
+  header: { action: 'update', newUpdateId: 'a1b2c3d4-0008', modelKey: 'event', id: '6660a1b2c3d4e5f600000001' },
+  payload: {
+    end: 1718000004000,
+    score: 87,
+    metadata: { detectedThumbnails: [{ type: 'person', clockBestWall: 1718000001200, attributes: { zone: [1] } }] },
+  },
+};
+
+export const ringEventAdded = {
+  header: { action: 'add', newUpdateId: 'a1b2c3d4-0009', modelKey: 'event', id: '6660a1b2c3d4e5f600000002' },
+  payload: {
+    id: '6660a1b2c3d4e5f600000002',
+    modelKey: 'event',
+    type: 'ring',
+    start: 1718000010000,
+    end: 1718000010000,
+    camera: '65f1c0de00a1b2c3d4e5f603',
+    metadata: {},
+  },
+};
+
+export const accessEventAdded = {
+  header: { action: 'add', newUpdateId: 'a1b2c3d4-0010', modelKey: 'event', id: '6660a1b2c3d4e5f600000003' },
+  payload: {
+    id: '6660a1b2c3d4e5f600000003',
+    modelKey: 'event',
+    type: 'access',
+    start: 1718000020000,
+    end: 1718000020000,
+    camera: null,
+    user: '6551000000000000000000aa',
+    metadata: { clientPlatform: { text: 'web' } },
+  },
+};
+
+export const nvrStatsUpdate = {
+  header: { action: 'update', newUpdateId: 'a1b2c3d4-0011', modelKey: 'nvr', id: '64e0000000000000000000ff' },
+  payload: {
+    systemInfo: { cpu: { averageLoad: 12.5, temperature: 58 }, memory: { available: 2048, free: 512, total: 8192 } },
+    storageStats: { utilization: 71.2, capacity: 8123 },
+  },
+};
+
+export const sensorOpened = {
+  header: { action: 'update', newUpdateId: 'a1b2c3d4-0012', modelKey: 'sensor', id: '6570000000000000000000b1' },
+  payload: { isOpened: true, openStatusChangedAt: 1718000030000 },
+};
+
+export const lightTurnedOn = {
+  header: { action: 'update', newUpdateId: 'a1b2c3d4-0013', modelKey: 'light', id: '6580000000000000000000c1' },
+  payload: { isLightOn: true, isPirMotionDetected: true, lastMotion: 1718000040000 },
+};
+
+export const chimeVolumeUpdate = {
+  header: { action: 'update', newUpdateId: 'a1b2c3d4-0014', modelKey: 'chime', id: '6590000000000000000000d1' },
+  payload: { volume: 60 },
+};
+
+// Model keys and actions the plugin has no use for
+export const userUpdate = {
+  header: { action: 'update', newUpdateId: 'a1b2c3d4-0015', modelKey: 'user', id: '6551000000000000000000aa' },
+  payload: { lastLoginTime: 1718000020000 },
+};
+
+export const nvrAdded = {
+  header: { action: 'add', newUpdateId: 'a1b2c3d4-0016', modelKey: 'nvr', id: '64e0000000000000000000ff' },
+  payload: { id: '64e0000000000000000000ff' },
+};
+
+// Packets that don't match what the plugin expects
+export const missingHeader = {
+  payload: { lastMotion: 1718000000123 },
+};
+
+export const motionAsString = {
+  header: { action: 'update', newUpdateId: 'a1b2c3d4-0017', modelKey: 'camera', id: '65f1c0de00a1b2c3d4e5f601' },
+  payload: { lastMotion: '1718000000123' },
+};
+
+export const cameraAddedWithoutMac = {
+  header: { action: 'add', newUpdateId: 'a1b2c3d4-0018', modelKey: 'camera', id: '65f1c0de00a1b2c3d4e5f604' },
+  payload: { id: '65f1c0de00a1b2c3d4e5f604', name: 'Shed', type: 'UVC G4 Instant' },
+};
+
+export const updateWithoutPayload = {
+  header: { action: 'update', newUpdateId: 'a1b2c3d4-0019', modelKey: 'sensor', id: '6570000000000000000000b1' },
+};
@@ -1,6 +1,11 @@
+import { randomUUID } from 'node:crypto';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
 import type { API, Characteristic, Logging, PlatformAccessory, Service } from 'homebridge';
 import { vi } from 'vitest';
 
+import type { ProtectMotionPlatform } from '../platform.js';
 import type { ProtectMotionPlatformConfig } from '../settings.js';
 
 export function createMockLogger(): Logging {
@@ -25,10 +30,12 @@ export function createMockCharacteristic(): Characteristic {
   return mock as unknown as Characteristic;
 }
 
-export function createMockService(): Service {
+export function createMockService(displayName = '', subtype?: string): Service {
   const characteristics = new Map<string, Characteristic>();
 
   const mock = {
+    displayName,
+    subtype,
     getCharacteristic: vi.fn((type: unknown) => {
       const key = String(type);
       if (!characteristics.has(key)) {
@@ -51,13 +58,26 @@ export function createMockAccessory(displayName: string, uuid: string): Platform
     displayName,
     UUID: uuid,
     context: {},
-    getService: vi.fn((type: unknown) => services.get(String(type))),
-    getServiceById: vi.fn((_type: unknown, _subtype: string) => undefined),
+    get services(): Service[] {
+      return [...services.values()];
+    },
+    updateDisplayName: vi.fn(function (this: { displayName: string }, name: string) {
+      this.displayName = name;
+    }),
+    getService: vi.fn((type: unknown) => services.get(String(type)) ?? services.get(`${type}-undefined`)),
+    getServiceById: vi.fn((type: unknown, subtype: string) => services.get(`${type}-${subtype}`)),
     addService: vi.fn((type: unknown, name: string, subtype: string) => {
-      const service = createMockService();
+      const service = createMockService(name, subtype);
       services.set(`${type}-${subtype}`, service);
       return service;
     }),
+    removeService: vi.fn((service: Service) => {
+      for (const [key, value] of services) {
+        if (value === service) {
+          services.delete(key);
+        }
+      }
+    }),
   };
 
   return mock as unknown as PlatformAccessory;
@@ -66,13 +86,25 @@ export function createMockAccessory(displayName: string, uuid: string): Platform
 export function createMockAPI(): API {
   const accessories: PlatformAccessory[] = [];
   const eventHandlers = new Map<string, ((...args: unknown[]) => void)[]>();
+  const storagePath = join(tmpdir(), `homebridge-test-${randomUUID()}`); // only created if something is saved
 
   const mock = {
     hap: {
       Service: {
         AccessoryInformation: 'AccessoryInformation',
+        Battery: 'Battery',
+        ContactSensor: 'ContactSensor',
+        Doorbell: 'Doorbell',
+        HumiditySensor: 'HumiditySensor',
+        LeakSensor: 'LeakSensor',
+        Lightbulb: 'Lightbulb',
+        LightSensor: 'LightSensor',
         MotionSensor: 'MotionSensor',
+        OccupancySensor: 'OccupancySensor',
+        SecuritySystem: 'SecuritySystem',
+        StatelessProgrammableSwitch: 'StatelessProgrammableSwitch',
         Switch: 'Switch',
+        TemperatureSensor: 'TemperatureSensor',
       },
       Characteristic: {
         Manufacturer: 'Manufacturer',
@@ -82,19 +114,84 @@ export function createMockAPI(): API {
         ConfiguredName: 'ConfiguredName',
         On: 'On',
         MotionDetected: 'MotionDetected',
+        OccupancyDetected: {
+          OCCUPANCY_NOT_DETECTED: 0,
+          OCCUPANCY_DETECTED: 1,
+          toString: () => 'OccupancyDetected',
+        },
+        ProgrammableSwitchEvent: {
+          SINGLE_PRESS: 0,
+          toString: () => 'ProgrammableSwitchEvent',
+        },
         StatusActive: 'StatusActive',
+        Brightness: 'Brightness',
+        BatteryLevel: 'BatteryLevel',
+        ChargingState: {
+          NOT_CHARGING: 0,
+          CHARGING: 1,
+          NOT_CHARGEABLE: 2,
+          toString: () => 'ChargingState',
+        },
+        ContactSensorState: {
+          CONTACT_DETECTED: 0,
+          CONTACT_NOT_DETECTED: 1,
+          toString: () => 'ContactSensorState',
+        },
+        CurrentAmbientLightLevel: 'CurrentAmbientLightLevel',
+        CurrentRelativeHumidity: 'CurrentRelativeHumidity',
+        CurrentTemperature: 'CurrentTemperature',
+        LeakDetected: {
+          LEAK_NOT_DETECTED: 0,
+          LEAK_DETECTED: 1,
+          toString: () => 'LeakDetected',
+        },
+        StatusLowBattery: {
+          BATTERY_LEVEL_NORMAL: 0,
+          BATTERY_LEVEL_LOW: 1,
+          toString: () => 'StatusLowBattery',
+        },
+        SecuritySystemCurrentState: {
+          STAY_ARM: 0,
+          AWAY_ARM: 1,
+          NIGHT_ARM: 2,
+          DISARMED: 3,
+          ALARM_TRIGGERED: 4,
+          toString: () => 'SecuritySystemCurrentState',
+        },
+        SecuritySystemTargetState: {
+          STAY_ARM: 0,
+          AWAY_ARM: 1,
+          NIGHT_ARM: 2,
+          DISARM: 3,
+          toString: () => 'SecuritySystemTargetState',
+        },
+        StatusFault: {
+          NO_FAULT: 0,
+          GENERAL_FAULT: 1,
+          toString: () => 'StatusFault',
+        },
+      },
+      Perms: {
+        PAIRED_READ: 'pr',
+        PAIRED_WRITE: 'pw',
+        NOTIFY: 'ev',
       },
       uuid: {
         generate: vi.fn((input: string) => `uuid-${input}`),
       },
     },
+    user: {
+      storagePath: () => storagePath,
+    },
     on: vi.fn((event: string, handler: (...args: unknown[]) => void) => {
       if (!eventHandlers.has(event)) {
         eventHandlers.set(event, []);
       }
       eventHandlers.get(event)!.push(handler);
     }),
-    platformAccessory: vi.fn((name: string, uuid: string) => createMockAccessory(name, uuid)),
+    platformAccessory: vi.fn(function (name: string, uuid: string) {
+      return createMockAccessory(name, uuid);
+    }),
     registerPlatformAccessories: vi.fn((_pluginName: string, _platformName: string, accs: PlatformAccessory[]) => {
       accessories.push(...accs);
     }),
@@ -111,6 +208,18 @@ export function createMockAPI(): API {
   return mock as unknown as API;
 }
 
+// Only the parts of the platform accessories use, plus whatever a test adds
+export function createMockPlatform(api: API, overrides: Record<string, unknown> = {}): ProtectMotionPlatform {
+  return {
+    Service: api.hap.Service,
+    Characteristic: api.hap.Characteristic,
+    log: createMockLogger(),
+    debugLog: vi.fn(),
+    api,
+    ...overrides,
+  } as unknown as ProtectMotionPlatform;
+}
+
 export function createMockConfig(overrides: Partial<ProtectMotionPlatformConfig> = {}): ProtectMotionPlatformConfig {
   return {
     platform: 'UniFi Protect Motion Trigger',
@@ -143,3 +252,57 @@ export function createMockCamera(overrides: Record<string, unknown> = {}): Recor
     ...overrides,
   };
 }
+
+export function createMockSensor(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    id: 'sensor-1',
+    name: 'Front Door Sensor',
+    type: 'UFP-SENSE',
+    mac: '112233445577',
+    mountType: 'door',
+    isOpened: false,
+    isMotionDetected: false,
+    leakDetectedAt: null,
+    batteryStatus: {
+      isLow: false,
+      percentage: 90,
+    },
+    stats: {
+      humidity: { value: 45 },
+      light: { value: 120 },
+      temperature: { value: 21.5 },
+    },
+    motionSettings: { isEnabled: true },
+    humiditySettings: { isEnabled: true },
+    lightSettings: { isEnabled: true },
+    temperatureSettings: { isEnabled: true },
+    ...overrides,
+  };
+}
+
+export function createMockLight(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    id: 'light-1',
+    name: 'Driveway Floodlight',
+    type: 'UP FloodLight',
+    mac: '112233445588',
+    isLightOn: false,
+    isPirMotionDetected: false,
+    lastMotion: null,
+    lightOnSettings: { isLedForceOn: false },
+    lightDeviceSettings: { ledLevel: 6 },
+    ...overrides,
+  };
+}
+
+export function createMockChime(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    id: 'chime-1',
+    name: 'Hallway Chime',
+    type: 'UP Chime',
+    mac: '112233445599',
+    volume: 80,
+    cameraIds: ['camera-1'],
+    ...overrides,
+  };
+}
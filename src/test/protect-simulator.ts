@@ -0,0 +1,468 @@
+import { randomUUID } from 'node:crypto';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { Server } from 'node:https';
+import { createServer } from 'node:https';
+import type { AddressInfo } from 'node:net';
+import { deflateSync } from 'node:zlib';
+
+import type { WebSocket } from 'ws';
+import { WebSocketServer } from 'ws';
+
+import { TLS_CERT, TLS_KEY } from './fixtures/tls.js';
+
+type Device = Record<string, unknown>;
+
+export type SimulatedModelKey = 'camera' | 'sensor' | 'light' | 'chime';
+
+export interface SimulatorOptions {
+  username?: string;
+  password?: string;
+  apiKey?: string; // accepted by the integration API
+  cameras?: Device[];
+  sensors?: Device[];
+  lights?: Device[];
+  chimes?: Device[];
+  permissions?: string[]; // the logged in user's allPermissions, full management by default
+}
+
+export interface SimulatorRequest {
+  method: string;
+  path: string;
+  body: unknown;
+}
+
+const COLLECTIONS: Record<SimulatedModelKey, string> = {
+  camera: 'cameras',
+  sensor: 'sensors',
+  light: 'lights',
+  chime: 'chimes',
+};
+
+const API_PREFIX = '/proxy/protect/api/';
+const UPDATES_PATH = '/proxy/protect/ws/updates';
+const INTEGRATION_PREFIX = '/proxy/protect/integration/v1/';
+const SUBSCRIBE_PATH = `${INTEGRATION_PREFIX}subscribe/`;
+const SUBSCRIPTIONS = ['devices', 'events'];
+const SESSION_COOKIE = 'TOKEN';
+const USER_ID = 'simulator-user';
+const FULL_MANAGEMENT = ['camera:create,read,write,delete:*', 'light:create,read,write,delete:*', 'chime:read,write:*'];
+
+// Frame header layout used by the realtime updates websocket: type, payload format, deflated flag, unused, size
+const FRAME_HEADER_SIZE = 8;
+const FRAME_HEADER = 1;
+const FRAME_PAYLOAD = 2;
+const FORMAT_JSON = 1;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function encodeFrame(type: number, value: unknown, deflate: boolean): Buffer {
+  const json = Buffer.from(JSON.stringify(value));
+  const body = deflate ? deflateSync(json) : json;
+
+  const header = Buffer.alloc(FRAME_HEADER_SIZE);
+  header.writeUInt8(type, 0);
+  header.writeUInt8(FORMAT_JSON, 1);
+  header.writeUInt8(deflate ? 1 : 0, 2);
+  header.writeUInt32BE(body.length, 4);
+  return Buffer.concat([header, body]);
+}
+
+// Encodes an update the way Protect sends it: a JSON header frame followed by a deflated JSON payload frame
+export function encodePacket(header: Record<string, unknown>, payload: unknown): Buffer {
+  return Buffer.concat([encodeFrame(FRAME_HEADER, header, false), encodeFrame(FRAME_PAYLOAD, payload, true)]);
+}
+
+// The integration API names a few settings differently from the private API the simulator keeps devices in
+function toIntegrationFields(device: Device): Device {
+  const { hdrMode, lightOnSettings, ...rest } = device;
+  return {
+    ...rest,
+    ...(typeof hdrMode === 'boolean' && { hdrType: hdrMode ? 'auto' : 'off' }),
+    ...(isObject(lightOnSettings) && { isLightForceEnabled: lightOnSettings.isLedForceOn }),
+  };
+}
+
+function fromIntegrationFields(changes: Device): Device {
+  const { hdrType, isLightForceEnabled, ...rest } = changes;
+  return {
+    ...rest,
+    ...(hdrType !== undefined && { hdrMode: hdrType !== 'off' }),
+    ...(isLightForceEnabled !== undefined && { lightOnSettings: { isLedForceOn: isLightForceEnabled } }),
+  };
+}
+
+// Nested settings objects are patched field by field, like Protect does
+function merge(target: Record<string, unknown>, changes: Record<string, unknown>): void {
+  for (const [key, value] of Object.entries(changes)) {
+    if (isObject(value) && isObject(target[key])) {
+      merge(target[key], value);
+    } else {
+      target[key] = value;
+    }
+  }
+}
+
+async function readBody(request: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+  const text = Buffer.concat(chunks).toString();
+  return text ? JSON.parse(text) : undefined;
+}
+
+function sendJson(response: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  response.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  response.end(JSON.stringify(body));
+}
+
+/**
+ * A fake UniFi Protect controller for tests and offline development. It serves login, bootstrap and device updates
+ * over HTTPS, and pushes binary update packets over the realtime websocket, so ProtectClient runs against it unchanged.
+ * The integration API is served alongside for API key logins, with its JSON updates on the subscribe websockets.
+ */
+export class ProtectSimulator {
+  // Every write the controller received, for asserting on setting changes
+  public readonly requests: SimulatorRequest[] = [];
+
+  private readonly server: Server;
+  private readonly websockets = new WebSocketServer({ noServer: true });
+  private readonly sockets = new Set<WebSocket>();
+  private readonly subscriptions = new Map<WebSocket, string>(); // integration API websockets and what they receive
+  private readonly sessions = new Set<string>();
+  private readonly username: string;
+  private readonly password: string;
+  private readonly apiKey: string;
+  private readonly devices: Record<SimulatedModelKey, Device[]>;
+  private readonly nvr: Device;
+  private readonly permissions: string[];
+  private lastUpdateId = randomUUID();
+  private rejectingLogins = false;
+
+  private constructor(options: SimulatorOptions) {
+    this.username = options.username ?? 'admin';
+    this.password = options.password ?? 'password';
+    this.apiKey = options.apiKey ?? 'simulator-api-key';
+    this.permissions = options.permissions ?? FULL_MANAGEMENT;
+    this.devices = {
+      camera: (options.cameras ?? []).map((camera) => this.normalize('camera', camera)),
+      sensor: (options.sensors ?? []).map((sensor) => this.normalize('sensor', sensor)),
+      light: (options.lights ?? []).map((light) => this.normalize('light', light)),
+      chime: (options.chimes ?? []).map((chime) => this.normalize('chime', chime)),
+    };
+    this.nvr = {
+      id: 'simulator-nvr',
+      modelKey: 'nvr',
+      name: 'Simulated NVR',
+      type: 'UNVR',
+      marketName: 'UNVR',
+      mac: 'F4E2C6000000',
+      version: '5.0.0',
+    };
+
+    this.server = createServer({ key: TLS_KEY, cert: TLS_CERT }, (request, response) => {
+      this.handleRequest(request, response).catch((error: unknown) => {
+        sendJson(response, 500, { error: String(error) });
+      });
+    });
+
+    this.server.on('upgrade', (request: IncomingMessage, socket, head) => {
+      const path = new URL(request.url ?? '/', 'https://localhost').pathname;
+      const subscription = path.startsWith(SUBSCRIBE_PATH) ? path.slice(SUBSCRIBE_PATH.length) : null;
+      const allowed = subscription
+        ? SUBSCRIPTIONS.includes(subscription) && this.hasApiKey(request)
+        : path === UPDATES_PATH && this.isAuthenticated(request);
+      if (!allowed) {
+        socket.end('HTTP/1.1 401 Unauthorized\r\n\r\n');
+        return;
+      }
+
+      this.websockets.handleUpgrade(request, socket, head, (ws) => {
+        this.sockets.add(ws);
+        if (subscription) {
+          this.subscriptions.set(ws, subscription);
+        }
+        ws.on('close', () => {
+          this.sockets.delete(ws);
+          this.subscriptions.delete(ws);
+        });
+      });
+    });
+  }
+
+  public static async start(options: SimulatorOptions = {}): Promise<ProtectSimulator> {
+    const simulator = new ProtectSimulator(options);
+    await new Promise<void>((resolve) => simulator.server.listen(0, '127.0.0.1', resolve));
+    return simulator;
+  }
+
+  public async stop(): Promise<void> {
+    for (const ws of this.sockets) {
+      ws.terminate();
+    }
+    this.websockets.close();
+    this.server.closeAllConnections();
+    await new Promise((resolve) => this.server.close(resolve));
+  }
+
+  public get address(): string {
+    return `127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  public get credentials(): { address: string; username: string; password: string } {
+    return { address: this.address, username: this.username, password: this.password };
+  }
+
+  public get apiKeyCredentials(): { address: string; apiKey: string } {
+    return { address: this.address, apiKey: this.apiKey };
+  }
+
+  // Open realtime update connections
+  public get connections(): number {
+    return this.sockets.size;
+  }
+
+  public device(modelKey: SimulatedModelKey, id: string): Device | undefined {
+    return this.devices[modelKey].find((device) => device.id === id);
+  }
+
+  public addDevice(modelKey: SimulatedModelKey, device: Device): void {
+    const added = this.normalize(modelKey, device);
+    this.devices[modelKey].push(added);
+    this.emitPacket({ action: 'add', modelKey, id: added.id }, added);
+  }
+
+  public updateDevice(modelKey: SimulatedModelKey, id: string, changes: Record<string, unknown>): void {
+    merge(this.requireDevice(modelKey, id), changes);
+    this.emitPacket({ action: 'update', modelKey, id }, changes);
+  }
+
+  public removeDevice(modelKey: SimulatedModelKey, id: string): void {
+    const removed = this.requireDevice(modelKey, id);
+    this.devices[modelKey] = this.devices[modelKey].filter((device) => device !== removed);
+    this.emitPacket({ action: 'remove', modelKey, id }, {});
+  }
+
+  public emitMotion(cameraId: string, at = Date.now()): void {
+    this.updateDevice('camera', cameraId, { isMotionDetected: true, lastMotion: at });
+    this.emitEvent({ type: 'motion', camera: cameraId, start: at, end: null });
+  }
+
+  public emitRing(cameraId: string, at = Date.now()): void {
+    this.emitEvent({ type: 'ring', camera: cameraId, start: at, end: at });
+    this.updateDevice('camera', cameraId, { lastRing: at });
+  }
+
+  public emitEvent(event: Record<string, unknown>): string {
+    const id = randomUUID();
+    this.emitPacket({ action: 'add', modelKey: 'event', id }, { id, modelKey: 'event', ...event });
+    return id;
+  }
+
+  // Sends a packet as is, for anything the helpers above don't cover
+  public emitPacket(header: { action: string; modelKey: string; id: unknown }, payload: unknown): void {
+    this.lastUpdateId = randomUUID();
+    const packet = encodePacket({ ...header, newUpdateId: this.lastUpdateId }, payload);
+    for (const ws of this.sockets) {
+      if (!this.subscriptions.has(ws)) {
+        ws.send(packet);
+      }
+    }
+    this.emitIntegrationMessage(header, payload);
+  }
+
+  // The integration API sends the same changes as JSON, with events naming their camera as the device
+  private emitIntegrationMessage(header: { action: string; modelKey: string; id: unknown }, payload: unknown): void {
+    const { action, modelKey, id } = header;
+    let item = payload;
+    if (isObject(payload)) {
+      const { camera, ...event } = payload;
+      item = modelKey === 'event' ? { ...event, device: camera } : { id, modelKey, ...toIntegrationFields(payload) };
+    }
+
+    const message = JSON.stringify({ type: action, item });
+    const subscription = modelKey === 'event' ? 'events' : 'devices';
+    for (const [ws, subscribed] of this.subscriptions) {
+      if (subscribed === subscription) {
+        ws.send(message);
+      }
+    }
+  }
+
+  public rejectCredentials(reject = true): void {
+    this.rejectingLogins = reject;
+  }
+
+  // Like a controller reboot: websockets close and every session has to log in again
+  public dropConnections(): void {
+    this.sessions.clear();
+    for (const ws of this.sockets) {
+      ws.terminate();
+    }
+  }
+
+  private normalize(modelKey: SimulatedModelKey, device: Device): Device {
+    return { modelKey, state: 'CONNECTED', ...structuredClone(device) };
+  }
+
+  private requireDevice(modelKey: SimulatedModelKey, id: string): Device {
+    const device = this.device(modelKey, id);
+    if (!device) {
+      throw new Error(`Simulator has no ${modelKey} ${id}`);
+    }
+    return device;
+  }
+
+  private isAuthenticated(request: IncomingMessage): boolean {
+    const cookies = request.headers.cookie?.split(';').map((cookie) => cookie.trim()) ?? [];
+    return cookies.some((cookie) => this.sessions.has(cookie.slice(SESSION_COOKIE.length + 1)));
+  }
+
+  private hasApiKey(request: IncomingMessage): boolean {
+    return !this.rejectingLogins && request.headers['x-api-key'] === this.apiKey;
+  }
+
+  private modelKeyFor(collection: string | undefined): SimulatedModelKey | undefined {
+    return (Object.keys(COLLECTIONS) as SimulatedModelKey[]).find((key) => COLLECTIONS[key] === collection);
+  }
+
+  private async handleRequest(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    const method = request.method ?? 'GET';
+    const path = new URL(request.url ?? '/', 'https://localhost').pathname;
+    const body = await readBody(request);
+
+    if (method === 'GET' && path === '/') {
+      sendJson(response, 200, {}, { 'X-CSRF-Token': randomUUID() });
+      return;
+    }
+
+    if (method === 'POST' && path === '/api/auth/login') {
+      this.handleLogin(body, response);
+      return;
+    }
+
+    if (path.startsWith(INTEGRATION_PREFIX)) {
+      this.handleIntegrationRequest(request, method, path, body, response);
+      return;
+    }
+
+    if (!this.isAuthenticated(request)) {
+      sendJson(response, 401, { error: 'Unauthorized' });
+      return;
+    }
+
+    if (method === 'GET' && path === `${API_PREFIX}bootstrap`) {
+      sendJson(response, 200, this.bootstrap());
+      return;
+    }
+
+    if (method === 'GET') {
+      sendJson(response, 404, { error: 'Not found' });
+      return;
+    }
+
+    this.requests.push({ method, path, body });
+    const [collection, id, ...rest] = path.slice(API_PREFIX.length).split('/');
+
+    if (method === 'PATCH' && collection === 'nvr' && isObject(body)) {
+      merge(this.nvr, body);
+      this.emitPacket({ action: 'update', modelKey: 'nvr', id: this.nvr.id }, body);
+      sendJson(response, 200, this.nvr);
+      return;
+    }
+
+    const modelKey = this.modelKeyFor(collection);
+    const device = modelKey && id ? this.device(modelKey, id) : undefined;
+    if (!modelKey || !device) {
+      sendJson(response, 404, { error: 'Not found' });
+      return;
+    }
+
+    // Protect confirms setting changes over the websocket as well as in the response
+    if (method === 'PATCH' && rest.length === 0 && isObject(body)) {
+      this.updateDevice(modelKey, device.id as string, body);
+      sendJson(response, 200, device);
+      return;
+    }
+
+    if (method === 'POST' && modelKey === 'chime' && rest.join('/') === 'play-speaker') {
+      sendJson(response, 200, {});
+      return;
+    }
+
+    sendJson(response, 404, { error: 'Not found' });
+  }
+
+  private handleIntegrationRequest(
+    request: IncomingMessage,
+    method: string,
+    path: string,
+    body: unknown,
+    response: ServerResponse,
+  ): void {
+    if (!this.hasApiKey(request)) {
+      sendJson(response, 401, { error: 'Unauthorized' });
+      return;
+    }
+
+    const [collection, id, ...rest] = path.slice(INTEGRATION_PREFIX.length).split('/');
+    if (method === 'GET' && collection === 'meta' && id === 'info') {
+      sendJson(response, 200, { applicationVersion: this.nvr.version });
+      return;
+    }
+    if (method === 'GET' && collection === 'nvrs' && !id) {
+      sendJson(response, 200, this.nvr);
+      return;
+    }
+
+    const modelKey = this.modelKeyFor(collection);
+    if (method === 'GET' && modelKey && !id) {
+      sendJson(response, 200, this.devices[modelKey].map(toIntegrationFields));
+      return;
+    }
+
+    const device = modelKey && id ? this.device(modelKey, id) : undefined;
+    if (method === 'PATCH' && modelKey && device && rest.length === 0 && isObject(body)) {
+      this.requests.push({ method, path, body });
+      this.updateDevice(modelKey, device.id as string, fromIntegrationFields(body));
+      sendJson(response, 200, toIntegrationFields(device));
+      return;
+    }
+
+    sendJson(response, 404, { error: 'Not found' });
+  }
+
+  private handleLogin(body: unknown, response: ServerResponse): void {
+    const { username, password } = isObject(body) ? body : {};
+    if (this.rejectingLogins || username !== this.username || password !== this.password) {
+      sendJson(response, 401, { code: 'AUTHENTICATION_FAILED_INVALID_CREDENTIALS' });
+      return;
+    }
+
+    const token = randomUUID();
+    this.sessions.add(token);
+    sendJson(
+      response,
+      200,
+      { id: USER_ID, username },
+      {
+        'Set-Cookie': `${SESSION_COOKIE}=${token}; path=/; secure; httponly`,
+        'X-Updated-CSRF-Token': randomUUID(),
+      },
+    );
+  }
+
+  private bootstrap(): Record<string, unknown> {
+    return {
+      authUserId: USER_ID,
+      lastUpdateId: this.lastUpdateId,
+      nvr: this.nvr,
+      users: [{ id: USER_ID, allPermissions: this.permissions }],
+      cameras: this.devices.camera,
+      sensors: this.devices.sensor,
+      lights: this.devices.light,
+      chimes: this.devices.chime,
+    };
+  }
+}
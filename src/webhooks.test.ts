@@ -0,0 +1,134 @@
+import type { Mock } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { CameraEvent } from './events.js';
+import { createMockLogger } from './test/mocks.js';
+import { WebhookDispatcher } from './webhooks.js';
+
+describe('WebhookDispatcher', () => {
+  let log: ReturnType<typeof createMockLogger>;
+  let fetchMock: Mock;
+  let dispatcher: WebhookDispatcher;
+
+  const createEvent = (overrides: Partial<CameraEvent> = {}): CameraEvent => ({
+    type: 'motion',
+    camera: { id: 'camera-1', name: 'Front Porch', mac: 'AABBCCDDEEFF' },
+    controller: '192.168.1.1',
+    timestamp: 1000,
+    suppressed: false,
+    ...overrides,
+  });
+
+  const postedEvents = (): CameraEvent[] =>
+    fetchMock.mock.calls.map(([, init]) => JSON.parse((init as RequestInit).body as string) as CameraEvent);
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    log = createMockLogger();
+    fetchMock = vi.fn().mockResolvedValue({ ok: true, status: 200 });
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    dispatcher.dispose();
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('should post events as JSON', async () => {
+    dispatcher = new WebhookDispatcher(log, [
+      { url: 'http://automation.local/hook', headers: [{ name: 'X-Token', value: 'abc' }] },
+    ]);
+
+    dispatcher.dispatch(createEvent());
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      'http://automation.local/hook',
+      expect.objectContaining({
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-Token': 'abc' },
+      }),
+    );
+    expect(postedEvents()).toEqual([createEvent()]);
+  });
+
+  it('should ignore webhooks with invalid URLs', () => {
+    dispatcher = new WebhookDispatcher(log, [{ url: 'not a url' }, { url: 'ftp://automation.local' }]);
+
+    expect(dispatcher.size).toBe(0);
+    expect(log.error).toHaveBeenCalledTimes(2);
+  });
+
+  it('should only post events matching the camera and event filters', async () => {
+    dispatcher = new WebhookDispatcher(log, [
+      { url: 'http://automation.local/hook', cameras: ['aa:bb:cc:dd:ee:ff'], events: ['ring'] },
+    ]);
+
+    dispatcher.dispatch(createEvent());
+    dispatcher.dispatch(createEvent({ type: 'ring' }));
+    dispatcher.dispatch(createEvent({ type: 'ring', camera: { id: 'camera-2', name: 'Garage', mac: '112233445566' } }));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(postedEvents()).toEqual([createEvent({ type: 'ring' })]);
+  });
+
+  it('should retry with backoff and deliver queued events in order', async () => {
+    fetchMock.mockRejectedValueOnce(new Error('ECONNREFUSED')).mockRejectedValueOnce(new Error('ECONNREFUSED'));
+    dispatcher = new WebhookDispatcher(log, [{ url: 'http://automation.local/hook' }]);
+
+    dispatcher.dispatch(createEvent({ timestamp: 1 }));
+    dispatcher.dispatch(createEvent({ timestamp: 2 }));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(log.warn).toHaveBeenCalledWith(
+      'Webhook http://automation.local/hook is unreachable, retrying in the background',
+    );
+
+    await vi.advanceTimersByTimeAsync(5_000);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    // Second retry waits twice as long
+    await vi.advanceTimersByTimeAsync(10_000);
+
+    expect(postedEvents().map((event) => event.timestamp)).toEqual([1, 1, 1, 2]);
+    expect(log.info).toHaveBeenCalledWith('Webhook http://automation.local/hook is reachable again');
+  });
+
+  it('should drop the oldest events when the queue is full', async () => {
+    fetchMock.mockRejectedValue(new Error('ECONNREFUSED'));
+    dispatcher = new WebhookDispatcher(log, [{ url: 'http://automation.local/hook' }]);
+
+    for (let timestamp = 1; timestamp <= 101; timestamp++) {
+      dispatcher.dispatch(createEvent({ timestamp }));
+    }
+    await vi.advanceTimersByTimeAsync(0);
+
+    fetchMock.mockResolvedValue({ ok: true, status: 200 });
+    await vi.advanceTimersByTimeAsync(5_000);
+
+    const delivered = postedEvents()
+      .slice(1)
+      .map((event) => event.timestamp);
+    expect(delivered).toHaveLength(100);
+    expect(delivered[0]).toBe(2);
+    expect(log.warn).toHaveBeenCalledWith(
+      'Webhook queue for http://automation.local/hook is full, dropping the oldest events',
+    );
+    expect(log.info).toHaveBeenCalledWith(
+      'Webhook http://automation.local/hook is reachable again (1 dropped while unreachable)',
+    );
+  });
+
+  it('should not retry events the target rejects', async () => {
+    fetchMock.mockResolvedValueOnce({ ok: false, status: 400 });
+    dispatcher = new WebhookDispatcher(log, [{ url: 'http://automation.local/hook' }]);
+
+    dispatcher.dispatch(createEvent({ timestamp: 1 }));
+    dispatcher.dispatch(createEvent({ timestamp: 2 }));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(postedEvents().map((event) => event.timestamp)).toEqual([1, 2]);
+    expect(log.error).toHaveBeenCalledWith('Webhook http://automation.local/hook rejected motion event: HTTP 400');
+  });
+});
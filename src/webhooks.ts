@@ -0,0 +1,165 @@
+import type { Logging } from 'homebridge';
+
+import type { CameraEvent } from './events.js';
+import type { WebhookConfig } from './settings.js';
+import { matchesCamera } from './settings.js';
+
+const MAX_QUEUE_SIZE = 100; // events per target
+const REQUEST_TIMEOUT = 10; // seconds
+const INITIAL_RETRY_DELAY = 5; // seconds
+const MAX_RETRY_DELAY = 300; // seconds
+
+interface WebhookTarget {
+  config: WebhookConfig;
+  queue: CameraEvent[];
+  sending: boolean;
+  retryAttempts: number;
+  droppedEvents: number;
+  retryTimer: NodeJS.Timeout | null;
+}
+
+type DeliveryResult = 'delivered' | 'rejected' | 'failed';
+
+export class WebhookDispatcher {
+  private readonly targets: WebhookTarget[];
+
+  constructor(
+    private readonly log: Logging,
+    webhooks: WebhookConfig[],
+  ) {
+    this.targets = webhooks
+      .filter((config) => this.validateWebhookConfig(config))
+      .map((config) => ({ config, queue: [], sending: false, retryAttempts: 0, droppedEvents: 0, retryTimer: null }));
+  }
+
+  public get size(): number {
+    return this.targets.length;
+  }
+
+  private validateWebhookConfig(config: WebhookConfig): boolean {
+    try {
+      const { protocol } = new URL(config.url);
+      if (protocol === 'http:' || protocol === 'https:') {
+        return true;
+      }
+    } catch {
+      // Reported below
+    }
+
+    this.log.error(`Ignoring webhook with invalid URL: ${config.url}`);
+    return false;
+  }
+
+  public dispatch(event: CameraEvent): void {
+    for (const target of this.targets) {
+      if (!this.matchesTarget(target.config, event)) {
+        continue;
+      }
+
+      // Keep the newest events when the target has been down for a while
+      if (target.queue.length >= MAX_QUEUE_SIZE) {
+        target.queue.shift();
+        if (target.droppedEvents++ === 0) {
+          this.log.warn(`Webhook queue for ${target.config.url} is full, dropping the oldest events`);
+        }
+      }
+
+      target.queue.push(event);
+      void this.flush(target);
+    }
+  }
+
+  private matchesTarget(config: WebhookConfig, event: CameraEvent): boolean {
+    if (config.events?.length && !config.events.includes(event.type)) {
+      return false;
+    }
+    return !config.cameras?.length || config.cameras.some((camera) => matchesCamera(camera, event.camera));
+  }
+
+  private async flush(target: WebhookTarget): Promise<void> {
+    if (target.sending || target.retryTimer) {
+      return;
+    }
+
+    target.sending = true;
+
+    while (target.queue.length > 0) {
+      const event = target.queue[0];
+      const result = await this.post(target.config, event);
+
+      if (result === 'failed') {
+        target.sending = false;
+        this.scheduleRetry(target);
+        return;
+      }
+
+      // A full queue may have dropped the event while it was being sent
+      if (target.queue[0] === event) {
+        target.queue.shift();
+      }
+
+      if (target.retryAttempts > 0) {
+        const dropped = target.droppedEvents > 0 ? ` (${target.droppedEvents} dropped while unreachable)` : '';
+        this.log.info(`Webhook ${target.config.url} is reachable again${dropped}`);
+        target.retryAttempts = 0;
+        target.droppedEvents = 0;
+      }
+    }
+
+    target.sending = false;
+  }
+
+  private async post(config: WebhookConfig, event: CameraEvent): Promise<DeliveryResult> {
+    try {
+      const response = await fetch(config.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...Object.fromEntries((config.headers ?? []).map(({ name, value }) => [name, value])),
+        },
+        body: JSON.stringify(event),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT * 1000),
+      });
+
+      if (response.ok) {
+        return 'delivered';
+      }
+
+      // Retrying won't fix a request the target refuses, so don't let it block the queue
+      if (response.status >= 400 && response.status < 500 && response.status !== 408 && response.status !== 429) {
+        this.log.error(`Webhook ${config.url} rejected ${event.type} event: HTTP ${response.status}`);
+        return 'rejected';
+      }
+
+      this.log.debug(`Webhook ${config.url} returned HTTP ${response.status}`);
+    } catch (error) {
+      this.log.debug(`Webhook ${config.url} failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    return 'failed';
+  }
+
+  private scheduleRetry(target: WebhookTarget): void {
+    const delay = Math.min(INITIAL_RETRY_DELAY * 2 ** target.retryAttempts, MAX_RETRY_DELAY);
+
+    if (target.retryAttempts === 0) {
+      this.log.warn(`Webhook ${target.config.url} is unreachable, retrying in the background`);
+    }
+    target.retryAttempts++;
+
+    target.retryTimer = setTimeout(() => {
+      target.retryTimer = null;
+      void this.flush(target);
+    }, delay * 1000);
+  }
+
+  public dispose(): void {
+    for (const target of this.targets) {
+      if (target.retryTimer) {
+        clearTimeout(target.retryTimer);
+        target.retryTimer = null;
+      }
+      target.queue = [];
+    }
+  }
+}